@@ -0,0 +1,71 @@
+-- Existing games, players and tags are assigned to one owner.
+-- Choose the owner before deploying with:
+--   ALTER DATABASE <db> SET shelf.owner_email = 'owner@example.com';
+-- If the setting is missing and there is exactly one user, that user becomes the owner.
+
+-- DropIndex
+DROP INDEX "public"."Player_name_key";
+
+-- DropIndex
+DROP INDEX "public"."Tag_title_key";
+
+-- AlterTable
+ALTER TABLE "public"."Game" ADD COLUMN     "userId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Player" ADD COLUMN     "userId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Tag" ADD COLUMN     "userId" TEXT;
+
+-- AssignExistingRows
+DO $$
+DECLARE
+    owner_email TEXT := NULLIF(current_setting('shelf.owner_email', true), '');
+    owner_id TEXT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM "public"."Game")
+        AND NOT EXISTS (SELECT 1 FROM "public"."Player")
+        AND NOT EXISTS (SELECT 1 FROM "public"."Tag") THEN
+        RETURN;
+    END IF;
+
+    IF owner_email IS NOT NULL THEN
+        SELECT "id" INTO owner_id FROM "public"."User" WHERE "email" = owner_email;
+        IF owner_id IS NULL THEN
+            RAISE EXCEPTION 'No user found with email %', owner_email;
+        END IF;
+    ELSIF (SELECT COUNT(*) FROM "public"."User") = 1 THEN
+        SELECT "id" INTO owner_id FROM "public"."User";
+    ELSE
+        RAISE EXCEPTION 'Set shelf.owner_email to choose which user owns the existing games, players and tags';
+    END IF;
+
+    UPDATE "public"."Game" SET "userId" = owner_id;
+    UPDATE "public"."Player" SET "userId" = owner_id;
+    UPDATE "public"."Tag" SET "userId" = owner_id;
+END $$;
+
+-- AlterTable
+ALTER TABLE "public"."Game" ALTER COLUMN "userId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."Player" ALTER COLUMN "userId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."Tag" ALTER COLUMN "userId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_userId_title_key" ON "public"."Tag"("userId", "title");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Player_userId_name_key" ON "public"."Player"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."Game" ADD CONSTRAINT "Game_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Tag" ADD CONSTRAINT "Tag_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Player" ADD CONSTRAINT "Player_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
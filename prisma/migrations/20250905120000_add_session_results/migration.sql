@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "public"."Session" ADD COLUMN     "cooperativeWin" BOOLEAN,
+ADD COLUMN     "isCooperative" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."SessionPlayer" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "score" DOUBLE PRECISION,
+    "position" INTEGER,
+    "isWinner" BOOLEAN NOT NULL DEFAULT false,
+    "team" TEXT,
+
+    CONSTRAINT "SessionPlayer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SessionPlayer_sessionId_playerId_key" ON "public"."SessionPlayer"("sessionId", "playerId");
+
+-- AddForeignKey
+ALTER TABLE "public"."SessionPlayer" ADD CONSTRAINT "SessionPlayer_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "public"."Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SessionPlayer" ADD CONSTRAINT "SessionPlayer_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "public"."Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MoveExistingParticipants
+INSERT INTO "public"."SessionPlayer" ("id", "sessionId", "playerId")
+SELECT md5(random()::text || clock_timestamp()::text), "B", "A"
+FROM "public"."_PlayerToSession";
+
+-- DropForeignKey
+ALTER TABLE "public"."_PlayerToSession" DROP CONSTRAINT "_PlayerToSession_A_fkey";
+
+-- DropForeignKey
+ALTER TABLE "public"."_PlayerToSession" DROP CONSTRAINT "_PlayerToSession_B_fkey";
+
+-- DropTable
+DROP TABLE "public"."_PlayerToSession";
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Game" ADD COLUMN     "lastPlayedAt" TIMESTAMP(3);
+
+-- BackfillLastPlayed
+UPDATE "public"."Game" g
+SET "lastPlayedAt" = (SELECT MAX(s."date") FROM "public"."Session" s WHERE s."gameId" = g."id");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Game" ADD COLUMN     "bggId" INTEGER,
+ADD COLUMN     "yearPublished" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Game_userId_bggId_key" ON "public"."Game"("userId", "bggId");
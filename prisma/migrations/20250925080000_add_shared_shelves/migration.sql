@@ -0,0 +1,111 @@
+-- CreateEnum
+CREATE TYPE "public"."ShelfRole" AS ENUM ('owner', 'editor', 'viewer');
+
+-- CreateTable
+CREATE TABLE "public"."Shelf" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Shelf_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ShelfMember" (
+    "id" TEXT NOT NULL,
+    "shelfId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "public"."ShelfRole" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShelfMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ShelfInvitation" (
+    "id" TEXT NOT NULL,
+    "shelfId" TEXT NOT NULL,
+    "email" TEXT,
+    "role" "public"."ShelfRole" NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShelfInvitation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreatePersonalShelves
+-- Every existing user owns a personal shelf that takes over their games, players and tags
+INSERT INTO "public"."Shelf" ("id", "name")
+SELECT 'shelf_' || "id", 'My shelf' FROM "public"."User";
+
+INSERT INTO "public"."ShelfMember" ("id", "shelfId", "userId", "role")
+SELECT 'member_' || "id", 'shelf_' || "id", "id", 'owner' FROM "public"."User";
+
+-- DropForeignKey
+ALTER TABLE "public"."Game" DROP CONSTRAINT "Game_userId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "public"."Player" DROP CONSTRAINT "Player_userId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "public"."Tag" DROP CONSTRAINT "Tag_userId_fkey";
+
+-- DropIndex
+DROP INDEX "public"."Game_userId_bggId_key";
+
+-- DropIndex
+DROP INDEX "public"."Player_userId_name_key";
+
+-- DropIndex
+DROP INDEX "public"."Tag_userId_title_key";
+
+-- AlterTable
+ALTER TABLE "public"."Game" RENAME COLUMN "userId" TO "shelfId";
+UPDATE "public"."Game" SET "shelfId" = 'shelf_' || "shelfId";
+
+-- AlterTable
+ALTER TABLE "public"."Player" RENAME COLUMN "userId" TO "shelfId";
+UPDATE "public"."Player" SET "shelfId" = 'shelf_' || "shelfId";
+
+-- AlterTable
+ALTER TABLE "public"."Tag" RENAME COLUMN "userId" TO "shelfId";
+UPDATE "public"."Tag" SET "shelfId" = 'shelf_' || "shelfId";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShelfMember_shelfId_userId_key" ON "public"."ShelfMember"("shelfId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShelfInvitation_tokenHash_key" ON "public"."ShelfInvitation"("tokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Game_shelfId_bggId_key" ON "public"."Game"("shelfId", "bggId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Player_shelfId_name_key" ON "public"."Player"("shelfId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_shelfId_title_key" ON "public"."Tag"("shelfId", "title");
+
+-- AddForeignKey
+ALTER TABLE "public"."Game" ADD CONSTRAINT "Game_shelfId_fkey" FOREIGN KEY ("shelfId") REFERENCES "public"."Shelf"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Tag" ADD CONSTRAINT "Tag_shelfId_fkey" FOREIGN KEY ("shelfId") REFERENCES "public"."Shelf"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Player" ADD CONSTRAINT "Player_shelfId_fkey" FOREIGN KEY ("shelfId") REFERENCES "public"."Shelf"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ShelfMember" ADD CONSTRAINT "ShelfMember_shelfId_fkey" FOREIGN KEY ("shelfId") REFERENCES "public"."Shelf"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ShelfMember" ADD CONSTRAINT "ShelfMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ShelfInvitation" ADD CONSTRAINT "ShelfInvitation_shelfId_fkey" FOREIGN KEY ("shelfId") REFERENCES "public"."Shelf"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ShelfInvitation" ADD CONSTRAINT "ShelfInvitation_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
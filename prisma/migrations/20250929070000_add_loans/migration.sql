@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."Loan" (
+    "id" TEXT NOT NULL,
+    "gameId" TEXT NOT NULL,
+    "playerId" TEXT,
+    "borrowerName" TEXT NOT NULL,
+    "lentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dueAt" TIMESTAMP(3),
+    "returnedAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Loan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Loan_gameId_returnedAt_idx" ON "public"."Loan"("gameId", "returnedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."Loan" ADD CONSTRAINT "Loan_gameId_fkey" FOREIGN KEY ("gameId") REFERENCES "public"."Game"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Loan" ADD CONSTRAINT "Loan_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "public"."Player"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "public"."Game" ADD COLUMN     "coverImageKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."File" ADD COLUMN     "mimeType" TEXT,
+ADD COLUMN     "size" INTEGER,
+ADD COLUMN     "storageKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "File_storageKey_key" ON "public"."File"("storageKey");
+
+-- DropForeignKey
+ALTER TABLE "public"."File" DROP CONSTRAINT "File_gameId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "public"."File" ADD CONSTRAINT "File_gameId_fkey" FOREIGN KEY ("gameId") REFERENCES "public"."Game"("id") ON DELETE CASCADE ON UPDATE CASCADE;
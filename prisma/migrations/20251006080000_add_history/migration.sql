@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "public"."HistoryEntity" AS ENUM ('game', 'session', 'player', 'tag', 'file', 'wishlist');
+
+-- CreateEnum
+CREATE TYPE "public"."HistoryAction" AS ENUM ('create', 'update', 'delete');
+
+-- CreateTable
+CREATE TABLE "public"."HistoryEntry" (
+    "id" TEXT NOT NULL,
+    "shelfId" TEXT NOT NULL,
+    "entityType" "public"."HistoryEntity" NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "gameId" TEXT,
+    "action" "public"."HistoryAction" NOT NULL,
+    "userId" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "changes" JSONB,
+    "restoredFromId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HistoryEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HistoryEntry_shelfId_entityType_entityId_idx" ON "public"."HistoryEntry"("shelfId", "entityType", "entityId");
+
+-- CreateIndex
+CREATE INDEX "HistoryEntry_gameId_createdAt_idx" ON "public"."HistoryEntry"("gameId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."HistoryEntry" ADD CONSTRAINT "HistoryEntry_shelfId_fkey" FOREIGN KEY ("shelfId") REFERENCES "public"."Shelf"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."HistoryEntry" ADD CONSTRAINT "HistoryEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."Game" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."Session" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."Player" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."Shelf" ADD COLUMN     "trashRetentionDays" INTEGER DEFAULT 30;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "public"."Game" ADD COLUMN     "baseGameId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."_SessionExpansions" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_SessionExpansions_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "_SessionExpansions_B_index" ON "public"."_SessionExpansions"("B");
+
+-- CreateIndex
+CREATE INDEX "Game_baseGameId_idx" ON "public"."Game"("baseGameId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Game" ADD CONSTRAINT "Game_baseGameId_fkey" FOREIGN KEY ("baseGameId") REFERENCES "public"."Game"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_SessionExpansions" ADD CONSTRAINT "_SessionExpansions_A_fkey" FOREIGN KEY ("A") REFERENCES "public"."Game"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_SessionExpansions" ADD CONSTRAINT "_SessionExpansions_B_fkey" FOREIGN KEY ("B") REFERENCES "public"."Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
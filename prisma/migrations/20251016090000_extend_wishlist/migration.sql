@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "public"."WishlistPriority" AS ENUM ('low', 'medium', 'high');
+
+-- AlterTable
+ALTER TABLE "public"."Shelf" ADD COLUMN     "wishlistShareTokenHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Wishlist" ADD COLUMN     "claimTokenHash" TEXT,
+ADD COLUMN     "claimedAt" TIMESTAMP(3),
+ADD COLUMN     "notes" TEXT,
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "priority" "public"."WishlistPriority" NOT NULL DEFAULT 'medium',
+ADD COLUMN     "targetPrice" DECIMAL(10,2);
+
+-- Existing entries keep the order they were added in
+UPDATE "public"."Wishlist" w
+SET "position" = o."position"
+FROM (
+  SELECT w2."id", ROW_NUMBER() OVER (PARTITION BY g."shelfId" ORDER BY w2."createdAt") - 1 AS "position"
+  FROM "public"."Wishlist" w2
+  JOIN "public"."Game" g ON g."id" = w2."gameId"
+) o
+WHERE w."id" = o."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Shelf_wishlistShareTokenHash_key" ON "public"."Shelf"("wishlistShareTokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Wishlist_claimTokenHash_key" ON "public"."Wishlist"("claimTokenHash");
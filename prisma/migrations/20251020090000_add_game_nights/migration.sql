@@ -0,0 +1,90 @@
+-- CreateEnum
+CREATE TYPE "public"."RsvpStatus" AS ENUM ('pending', 'yes', 'maybe', 'no');
+
+-- AlterTable
+ALTER TABLE "public"."Session" ADD COLUMN     "gameNightId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."GameNight" (
+    "id" TEXT NOT NULL,
+    "shelfId" TEXT NOT NULL,
+    "title" TEXT,
+    "date" TIMESTAMP(3) NOT NULL,
+    "location" TEXT,
+    "notes" TEXT,
+    "hostId" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GameNight_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."GameNightInvitee" (
+    "id" TEXT NOT NULL,
+    "gameNightId" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "status" "public"."RsvpStatus" NOT NULL DEFAULT 'pending',
+    "respondedAt" TIMESTAMP(3),
+
+    CONSTRAINT "GameNightInvitee_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."GameNightCandidate" (
+    "id" TEXT NOT NULL,
+    "gameNightId" TEXT NOT NULL,
+    "gameId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GameNightCandidate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."GameNightVote" (
+    "id" TEXT NOT NULL,
+    "candidateId" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GameNightVote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GameNight_shelfId_date_idx" ON "public"."GameNight"("shelfId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GameNightInvitee_gameNightId_playerId_key" ON "public"."GameNightInvitee"("gameNightId", "playerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GameNightCandidate_gameNightId_gameId_key" ON "public"."GameNightCandidate"("gameNightId", "gameId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GameNightVote_candidateId_playerId_key" ON "public"."GameNightVote"("candidateId", "playerId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Session" ADD CONSTRAINT "Session_gameNightId_fkey" FOREIGN KEY ("gameNightId") REFERENCES "public"."GameNight"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GameNight" ADD CONSTRAINT "GameNight_shelfId_fkey" FOREIGN KEY ("shelfId") REFERENCES "public"."Shelf"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GameNight" ADD CONSTRAINT "GameNight_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "public"."Player"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GameNightInvitee" ADD CONSTRAINT "GameNightInvitee_gameNightId_fkey" FOREIGN KEY ("gameNightId") REFERENCES "public"."GameNight"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GameNightInvitee" ADD CONSTRAINT "GameNightInvitee_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "public"."Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GameNightCandidate" ADD CONSTRAINT "GameNightCandidate_gameNightId_fkey" FOREIGN KEY ("gameNightId") REFERENCES "public"."GameNight"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GameNightCandidate" ADD CONSTRAINT "GameNightCandidate_gameId_fkey" FOREIGN KEY ("gameId") REFERENCES "public"."Game"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GameNightVote" ADD CONSTRAINT "GameNightVote_candidateId_fkey" FOREIGN KEY ("candidateId") REFERENCES "public"."GameNightCandidate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GameNightVote" ADD CONSTRAINT "GameNightVote_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "public"."Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "public"."Tag" ADD COLUMN     "color" TEXT,
+ADD COLUMN     "group" TEXT,
+ADD COLUMN     "normalizedTitle" TEXT;
+
+UPDATE "public"."Tag"
+SET "normalizedTitle" = lower(regexp_replace(btrim("title"), '\s+', ' ', 'g'));
+
+-- Tags that only differ in casing are merged into the oldest one, keeping all of their games
+CREATE TEMP TABLE "TagMerge" AS
+SELECT t."id", k."id" AS "keepId"
+FROM "public"."Tag" t
+JOIN (
+  SELECT DISTINCT ON ("shelfId", "normalizedTitle") "id", "shelfId", "normalizedTitle"
+  FROM "public"."Tag"
+  ORDER BY "shelfId", "normalizedTitle", "id"
+) k ON k."shelfId" = t."shelfId" AND k."normalizedTitle" = t."normalizedTitle"
+WHERE t."id" <> k."id";
+
+INSERT INTO "public"."_GameToTag" ("A", "B")
+SELECT gt."A", m."keepId"
+FROM "public"."_GameToTag" gt
+JOIN "TagMerge" m ON m."id" = gt."B"
+ON CONFLICT DO NOTHING;
+
+DELETE FROM "public"."Tag" t
+USING "TagMerge" m
+WHERE t."id" = m."id";
+
+DROP TABLE "TagMerge";
+
+ALTER TABLE "public"."Tag" ALTER COLUMN "normalizedTitle" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "public"."Tag_shelfId_title_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_shelfId_normalizedTitle_key" ON "public"."Tag"("shelfId", "normalizedTitle");
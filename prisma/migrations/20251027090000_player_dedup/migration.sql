@@ -0,0 +1,113 @@
+-- AlterTable
+ALTER TABLE "public"."Player" ADD COLUMN     "normalizedName" TEXT,
+ADD COLUMN     "userId" TEXT;
+
+UPDATE "public"."Player"
+SET "normalizedName" = lower(regexp_replace(btrim("name"), '\s+', ' ', 'g'));
+
+-- Players whose names only differ in casing or whitespace are merged into one
+CREATE TEMP TABLE "PlayerMerge" AS
+SELECT p."id", k."id" AS "keepId"
+FROM "public"."Player" p
+JOIN (
+  SELECT DISTINCT ON ("shelfId", "normalizedName") "id", "shelfId", "normalizedName"
+  FROM "public"."Player"
+  ORDER BY "shelfId", "normalizedName", ("deletedAt" IS NOT NULL), "id"
+) k ON k."shelfId" = p."shelfId" AND k."normalizedName" = p."normalizedName"
+WHERE p."id" <> k."id";
+
+-- A session keeps one result per merged player, preferring the kept player's own
+DELETE FROM "public"."SessionPlayer"
+WHERE "id" IN (
+  SELECT "id" FROM (
+    SELECT sp."id", ROW_NUMBER() OVER (
+      PARTITION BY sp."sessionId", COALESCE(m."keepId", sp."playerId")
+      ORDER BY (m."keepId" IS NOT NULL), sp."id"
+    ) AS "rank"
+    FROM "public"."SessionPlayer" sp
+    LEFT JOIN "PlayerMerge" m ON m."id" = sp."playerId"
+  ) ranked
+  WHERE "rank" > 1
+);
+
+UPDATE "public"."SessionPlayer" sp SET "playerId" = m."keepId"
+FROM "PlayerMerge" m WHERE sp."playerId" = m."id";
+
+UPDATE "public"."Loan" l SET "playerId" = m."keepId"
+FROM "PlayerMerge" m WHERE l."playerId" = m."id";
+
+UPDATE "public"."GameNight" n SET "hostId" = m."keepId"
+FROM "PlayerMerge" m WHERE n."hostId" = m."id";
+
+DELETE FROM "public"."GameNightInvitee"
+WHERE "id" IN (
+  SELECT "id" FROM (
+    SELECT i."id", ROW_NUMBER() OVER (
+      PARTITION BY i."gameNightId", COALESCE(m."keepId", i."playerId")
+      ORDER BY (m."keepId" IS NOT NULL), i."id"
+    ) AS "rank"
+    FROM "public"."GameNightInvitee" i
+    LEFT JOIN "PlayerMerge" m ON m."id" = i."playerId"
+  ) ranked
+  WHERE "rank" > 1
+);
+
+UPDATE "public"."GameNightInvitee" i SET "playerId" = m."keepId"
+FROM "PlayerMerge" m WHERE i."playerId" = m."id";
+
+DELETE FROM "public"."GameNightVote"
+WHERE "id" IN (
+  SELECT "id" FROM (
+    SELECT v."id", ROW_NUMBER() OVER (
+      PARTITION BY v."candidateId", COALESCE(m."keepId", v."playerId")
+      ORDER BY (m."keepId" IS NOT NULL), v."id"
+    ) AS "rank"
+    FROM "public"."GameNightVote" v
+    LEFT JOIN "PlayerMerge" m ON m."id" = v."playerId"
+  ) ranked
+  WHERE "rank" > 1
+);
+
+UPDATE "public"."GameNightVote" v SET "playerId" = m."keepId"
+FROM "PlayerMerge" m WHERE v."playerId" = m."id";
+
+DELETE FROM "public"."Player" p
+USING "PlayerMerge" m
+WHERE p."id" = m."id";
+
+DROP TABLE "PlayerMerge";
+
+ALTER TABLE "public"."Player" ALTER COLUMN "normalizedName" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "public"."PlayerAlias" (
+    "id" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "shelfId" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "normalizedAlias" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlayerAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- DropIndex
+DROP INDEX "public"."Player_shelfId_name_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Player_shelfId_normalizedName_key" ON "public"."Player"("shelfId", "normalizedName");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Player_shelfId_userId_key" ON "public"."Player"("shelfId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlayerAlias_shelfId_normalizedAlias_key" ON "public"."PlayerAlias"("shelfId", "normalizedAlias");
+
+-- AddForeignKey
+ALTER TABLE "public"."Player" ADD CONSTRAINT "Player_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PlayerAlias" ADD CONSTRAINT "PlayerAlias_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "public"."Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PlayerAlias" ADD CONSTRAINT "PlayerAlias_shelfId_fkey" FOREIGN KEY ("shelfId") REFERENCES "public"."Shelf"("id") ON DELETE CASCADE ON UPDATE CASCADE;
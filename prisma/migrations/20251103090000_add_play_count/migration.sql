@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."Game" ADD COLUMN     "playCount" INTEGER NOT NULL DEFAULT 0;
+
+UPDATE "public"."Game" g
+SET "playCount" = (
+  SELECT COUNT(*) FROM "public"."Session" s
+  WHERE s."gameId" = g."id" AND s."deletedAt" IS NULL
+);
@@ -18,8 +18,59 @@ config(app);
 
 //Start handling routes here
 import indexRoutes from "./routes/index.routes";
+
+// Test mode: VALIDATE_RESPONSES=warn logs responses that don't match the OpenAPI document,
+// VALIDATE_RESPONSES=strict turns them into 500 errors
+import validateResponses from "./middleware/validateResponses";
+const responseValidation = process.env.VALIDATE_RESPONSES;
+if (responseValidation === "warn" || responseValidation === "strict") {
+  app.use("/api", validateResponses(indexRoutes, responseValidation));
+}
+
 app.use("/api", indexRoutes);
 
+import importRoutes from "./routes/import.routes";
+app.use("/api", importRoutes);
+
+import backupRoutes from "./routes/backup.routes";
+app.use("/api", backupRoutes);
+
+import shelvesRoutes from "./routes/shelves.routes";
+app.use("/api", shelvesRoutes);
+
+import loansRoutes from "./routes/loans.routes";
+app.use("/api", loansRoutes);
+
+import uploadsRoutes from "./routes/uploads.routes";
+app.use("/api", uploadsRoutes);
+
+import historyRoutes from "./routes/history.routes";
+app.use("/api", historyRoutes);
+
+import trashRoutes from "./routes/trash.routes";
+app.use("/api", trashRoutes);
+
+import statsRoutes from "./routes/stats.routes";
+app.use("/api", statsRoutes);
+
+import wishlistRoutes from "./routes/wishlist.routes";
+app.use("/api", wishlistRoutes);
+
+import gameNightsRoutes from "./routes/gameNights.routes";
+app.use("/api", gameNightsRoutes);
+
+import graphqlRoutes from "./routes/graphql.routes";
+app.use("/api", graphqlRoutes);
+
+import eventsRoutes from "./routes/events.routes";
+app.use("/api", eventsRoutes);
+
+import webhooksRoutes from "./routes/webhooks.routes";
+app.use("/api", webhooksRoutes);
+
+import docsRoutes from "./routes/docs.routes";
+app.use("/api", docsRoutes);
+
 //To handle errors. Routes that don't exist or errors that you handle in specific routes
 import errorHandling from "./error-handling/index";
 errorHandling(app);
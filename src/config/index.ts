@@ -31,8 +31,12 @@ export default (app: Application): void => {
   // In development environment the app logs
   app.use(logger("dev"));
 
-  // To have access to `body` property in the request
-  app.use(express.json());
+  // To have access to `body` property in the request. Whole-shelf backups are
+  // restored in one request, so their route parses its body with a larger limit.
+  const json = express.json();
+  app.use((req, res, next) =>
+    req.path === "/api/backup/restore" ? next() : json(req, res, next)
+  );
   app.use(express.urlencoded({ extended: false }));
   app.use(cookieParser());
 };
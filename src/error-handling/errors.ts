@@ -0,0 +1,63 @@
+// Errors thrown by routes and services. The error handling middleware turns them
+// into a response with their status and a machine-readable code.
+
+export interface ErrorDetail {
+  field: string;
+  message: string;
+}
+
+export class AppError extends Error {
+  status: number;
+  code: string;
+  details?: ErrorDetail[];
+
+  constructor(status: number, code: string, message: string, details?: ErrorDetail[]) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// 400 - the request is invalid, with one detail per failed field
+export class ValidationError extends AppError {
+  constructor(message: string, details?: ErrorDetail[]) {
+    super(400, "VALIDATION_ERROR", message, details);
+  }
+}
+
+// 400 - the request is well-formed but can't be applied in the current state
+export class BadRequestError extends AppError {
+  constructor(message: string) {
+    super(400, "BAD_REQUEST", message);
+  }
+}
+
+// 401 - missing or wrong credentials
+export class UnauthorizedError extends AppError {
+  constructor(message = "Unauthorized") {
+    super(401, "UNAUTHORIZED", message);
+  }
+}
+
+// 403 - logged in but not allowed
+export class ForbiddenError extends AppError {
+  constructor(message = "Forbidden") {
+    super(403, "FORBIDDEN", message);
+  }
+}
+
+// 404 - the record doesn't exist or belongs to another user
+export class NotFoundError extends AppError {
+  constructor(message = "Not found") {
+    super(404, "NOT_FOUND", message);
+  }
+}
+
+// 409 - duplicate values or records that are still referenced
+export class ConflictError extends AppError {
+  constructor(message: string) {
+    super(409, "CONFLICT", message);
+  }
+}
@@ -1,24 +1,135 @@
 import { Application, Request, Response, NextFunction } from "express";
+import { UnauthorizedError as JwtError } from "express-jwt";
+import { MulterError } from "multer";
+import { Prisma } from "../generated/prisma";
+import {
+  AppError,
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from "./errors";
+
+// Field names are shown without the shelf column that scopes most unique indexes
+function uniqueFields(target: unknown) {
+  const fields = Array.isArray(target)
+    ? target
+    : typeof target === "string"
+      ? [target]
+      : [];
+  return fields.filter((field) => field !== "shelfId").join(", ");
+}
+
+// Maps Prisma's known request errors to HTTP errors
+function fromPrismaError(err: Prisma.PrismaClientKnownRequestError): AppError | null {
+  const model = (err.meta?.modelName as string) ?? "Record";
+
+  switch (err.code) {
+    // Unique constraint failed
+    case "P2002": {
+      const fields = uniqueFields(err.meta?.target);
+      return new ConflictError(
+        fields
+          ? `${model} with this ${fields} already exists`
+          : `${model} already exists`
+      );
+    }
+    // Foreign key constraint failed, e.g. deleting a game that still has sessions
+    case "P2003": {
+      const constraint = String(err.meta?.field_name ?? err.meta?.constraint ?? "");
+      const referencing = constraint.split("_")[0];
+      return new ConflictError(
+        referencing && referencing !== constraint
+          ? `${model} is still referenced by ${referencing} records`
+          : `${model} is still referenced by other records`
+      );
+    }
+    // Required relation would be violated
+    case "P2014":
+      return new ConflictError(`${model} is still referenced by other records`);
+    // Record to update or delete does not exist
+    case "P2025":
+      return new NotFoundError(`${model} not found`);
+    default:
+      return null;
+  }
+}
+
+// Errors of the body parsers carry a type such as "entity.parse.failed"
+function bodyParserErrorType(err: unknown) {
+  return err instanceof Error && "type" in err && typeof err.type === "string"
+    ? err.type
+    : undefined;
+}
+
+// Turns anything passed to next(err) into an AppError, or null for unexpected errors
+export function toAppError(err: unknown): AppError | null {
+  if (err instanceof AppError) {
+    return err;
+  }
+  if (err instanceof Prisma.PrismaClientKnownRequestError) {
+    return fromPrismaError(err);
+  }
+  // Thrown by express-jwt when the token is missing or invalid
+  if (err instanceof JwtError) {
+    return new UnauthorizedError(err.message);
+  }
+  // Thrown by the body parsers
+  const type = bodyParserErrorType(err);
+  if (type === "entity.parse.failed") {
+    return new ValidationError("Request body is not valid JSON");
+  }
+  if (type === "entity.too.large") {
+    return new AppError(413, "PAYLOAD_TOO_LARGE", "Request body is too large");
+  }
+  // Thrown by multer while reading multipart uploads
+  if (err instanceof MulterError) {
+    if (err.code === "LIMIT_FILE_SIZE") {
+      return new AppError(413, "PAYLOAD_TOO_LARGE", "File is too large");
+    }
+    return new ValidationError("Invalid request body", [
+      { field: err.field ?? "file", message: err.message },
+    ]);
+  }
+  return null;
+}
 
 export default (app: Application): void => {
   app.use((req: Request, res: Response, _next: NextFunction) => {
     // this middleware runs whenever requested page is not available
-    res.status(404).json({ message: "This route does not exist" });
+    res
+      .status(404)
+      .json({ code: "ROUTE_NOT_FOUND", message: "This route does not exist" });
   });
 
   app.use(
     (err: unknown, req: Request, res: Response, _next: NextFunction) => {
       // whenever you call next(err), this middleware will handle the error
-      // always logs the error
-      console.error("ERROR", req.method, req.path, err);
+      const appError = toAppError(err);
+
+      // always logs unexpected errors
+      if (!appError) {
+        console.error("ERROR", req.method, req.path, err);
+      }
 
       // only render if the error occurred before sending the response
-      if (!res.headersSent) {
-        res.status(500).json({
-          message: "Internal server error. Check the server console",
+      if (res.headersSent) {
+        return;
+      }
+
+      if (appError) {
+        res.status(appError.status).json({
+          code: appError.code,
+          message: appError.message,
+          ...(appError.details ? { details: appError.details } : {}),
         });
+        return;
       }
+
+      res.status(500).json({
+        code: "INTERNAL_ERROR",
+        message: "Internal server error. Check the server console",
+      });
     }
   );
 };
-
@@ -0,0 +1,8 @@
+import { makeExecutableSchema } from "@graphql-tools/schema";
+import typeDefs from "./typeDefs";
+import resolvers from "./resolvers";
+
+export { createLoaders } from "./loaders";
+export type { GraphQLContext } from "./resolvers";
+
+export const schema = makeExecutableSchema({ typeDefs, resolvers });
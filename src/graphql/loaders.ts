@@ -0,0 +1,184 @@
+import DataLoader from "dataloader";
+import prisma from "../db";
+
+// Puts the rows loaded for a batch of keys back in the order of the keys
+function groupBy<T>(
+  keys: readonly string[],
+  rows: T[],
+  keyOf: (row: T) => string
+) {
+  const groups = new Map<string, T[]>();
+  for (const key of keys) {
+    groups.set(key, []);
+  }
+  for (const row of rows) {
+    groups.get(keyOf(row))?.push(row);
+  }
+  return keys.map((key) => groups.get(key) ?? []);
+}
+
+function byId<T extends { id: string }>(keys: readonly string[], rows: T[]) {
+  const found = new Map(rows.map((row) => [row.id, row]));
+  return keys.map((key) => found.get(key) ?? null);
+}
+
+// Loads the relations of a GraphQL query in one Prisma call per relation and level,
+// instead of one per parent record. Created for every request, so nothing is cached
+// across requests or shelves.
+export function createLoaders(shelfId: string) {
+  return {
+    // Games in the trash are left out, like in the REST routes
+    game: new DataLoader(async (ids: readonly string[]) =>
+      byId(
+        ids,
+        await prisma.game.findMany({
+          where: { id: { in: [...ids] }, shelfId, deletedAt: null },
+        })
+      )
+    ),
+
+    player: new DataLoader(async (ids: readonly string[]) =>
+      byId(
+        ids,
+        await prisma.player.findMany({
+          where: { id: { in: [...ids] }, shelfId },
+        })
+      )
+    ),
+
+    // Only users who are members of the shelf can be seen
+    user: new DataLoader(async (ids: readonly string[]) =>
+      byId(
+        ids,
+        await prisma.user.findMany({
+          where: { id: { in: [...ids] }, shelves: { some: { shelfId } } },
+          select: { id: true, email: true },
+        })
+      )
+    ),
+
+    playerOfUser: new DataLoader(async (userIds: readonly string[]) => {
+      const players = await prisma.player.findMany({
+        where: { userId: { in: [...userIds] }, shelfId, deletedAt: null },
+      });
+      return userIds.map(
+        (userId) => players.find((player) => player.userId === userId) ?? null
+      );
+    }),
+
+    tagsOfGame: new DataLoader(async (gameIds: readonly string[]) => {
+      const games = await prisma.game.findMany({
+        where: { id: { in: [...gameIds] } },
+        select: { id: true, tags: { orderBy: { title: "asc" } } },
+      });
+      return byId(gameIds, games).map((game) => game?.tags ?? []);
+    }),
+
+    gamesOfTag: new DataLoader(async (tagIds: readonly string[]) => {
+      const tags = await prisma.tag.findMany({
+        where: { id: { in: [...tagIds] } },
+        select: {
+          id: true,
+          games: { where: { deletedAt: null }, orderBy: { title: "asc" } },
+        },
+      });
+      return byId(tagIds, tags).map((tag) => tag?.games ?? []);
+    }),
+
+    sessionsOfGame: new DataLoader(async (gameIds: readonly string[]) =>
+      groupBy(
+        gameIds,
+        await prisma.session.findMany({
+          where: { gameId: { in: [...gameIds] }, deletedAt: null },
+          orderBy: { date: "desc" },
+        }),
+        (session) => session.gameId
+      )
+    ),
+
+    filesOfGame: new DataLoader(async (gameIds: readonly string[]) =>
+      groupBy(
+        gameIds,
+        await prisma.file.findMany({
+          where: { gameId: { in: [...gameIds] } },
+          orderBy: { createdAt: "asc" },
+        }),
+        (file) => file.gameId
+      )
+    ),
+
+    wishlistOfGame: new DataLoader(async (gameIds: readonly string[]) => {
+      const entries = await prisma.wishlist.findMany({
+        where: { gameId: { in: [...gameIds] } },
+      });
+      return gameIds.map(
+        (gameId) => entries.find((entry) => entry.gameId === gameId) ?? null
+      );
+    }),
+
+    expansionsOfGame: new DataLoader(async (gameIds: readonly string[]) =>
+      groupBy(
+        gameIds,
+        await prisma.game.findMany({
+          where: { baseGameId: { in: [...gameIds] }, deletedAt: null },
+          orderBy: { title: "asc" },
+        }),
+        (expansion) => expansion.baseGameId as string
+      )
+    ),
+
+    expansionsOfSession: new DataLoader(
+      async (sessionIds: readonly string[]) => {
+        const sessions = await prisma.session.findMany({
+          where: { id: { in: [...sessionIds] } },
+          select: { id: true, expansions: { orderBy: { title: "asc" } } },
+        });
+        return byId(sessionIds, sessions).map(
+          (session) => session?.expansions ?? []
+        );
+      }
+    ),
+
+    resultsOfSession: new DataLoader(async (sessionIds: readonly string[]) =>
+      groupBy(
+        sessionIds,
+        await prisma.sessionPlayer.findMany({
+          where: { sessionId: { in: [...sessionIds] } },
+          orderBy: [
+            { position: { sort: "asc", nulls: "last" } },
+            { id: "asc" },
+          ],
+        }),
+        (result) => result.sessionId
+      )
+    ),
+
+    // Sessions in the trash, and sessions of games in the trash, are left out
+    sessionsOfPlayer: new DataLoader(async (playerIds: readonly string[]) => {
+      const results = await prisma.sessionPlayer.findMany({
+        where: {
+          playerId: { in: [...playerIds] },
+          session: { deletedAt: null, game: { deletedAt: null } },
+        },
+        include: { session: true },
+        orderBy: { session: { date: "desc" } },
+      });
+      return groupBy(playerIds, results, (result) => result.playerId).map(
+        (playerResults) => playerResults.map((result) => result.session)
+      );
+    }),
+
+    aliasesOfPlayer: new DataLoader(async (playerIds: readonly string[]) =>
+      groupBy(
+        playerIds,
+        await prisma.playerAlias.findMany({
+          where: { playerId: { in: [...playerIds] } },
+          orderBy: { alias: "asc" },
+        }),
+        (alias) => alias.playerId
+      )
+    ),
+  };
+}
+
+export type Loaders = ReturnType<typeof createLoaders>;
@@ -0,0 +1,643 @@
+import { GraphQLScalarType, Kind } from "graphql";
+import { Prisma, ShelfRole } from "../generated/prisma";
+import prisma from "../db";
+import { hasShelfRole } from "../middleware/shelfAccess";
+import { parseInput } from "../middleware/validateBody";
+import {
+  ErrorDetail,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "../error-handling/errors";
+import { createGameSchema, updateGameSchema } from "../schemas/games";
+import { createSessionSchema, updateSessionSchema } from "../schemas/sessions";
+import { mergePlayersSchema, playerSchema } from "../schemas/players";
+import {
+  createTagSchema,
+  mergeTagsSchema,
+  updateTagSchema,
+} from "../schemas/tags";
+import { addWishlistSchema, updateWishlistSchema } from "../schemas/wishlist";
+import { createFileSchema } from "../schemas/files";
+import {
+  createGame,
+  findShelfGame,
+  parseGameListQuery,
+  trashGame,
+  updateGame,
+} from "../services/games";
+import {
+  createSession,
+  trashSession,
+  updateSession,
+} from "../services/sessions";
+import {
+  createPlayer,
+  mergePlayers,
+  trashPlayer,
+  updatePlayer,
+} from "../services/players";
+import { createTag, deleteTag, mergeTags, updateTag } from "../services/tags";
+import {
+  addToWishlist,
+  dropFromWishlist,
+  markWishlistOwned,
+  parseWishlistQuery,
+  updateWishlist,
+} from "../services/wishlist";
+import { createFile, deleteFile } from "../services/files";
+import { Actor } from "../services/history";
+import { publishEvent } from "../services/events";
+import { readDate, readNumber, readString } from "../services/queryParams";
+import { Loaders } from "./loaders";
+
+// A type rather than an interface, as graphql-http needs an indexable context
+export type GraphQLContext = {
+  actor: Actor;
+  role: ShelfRole;
+  loaders: Loaders;
+};
+
+type Args = Record<string, unknown>;
+
+const DEFAULT_SESSION_LIMIT = 50;
+const MAX_SESSION_LIMIT = 200;
+
+// Writes need the same role as the REST routes they mirror
+function requireEditor(context: GraphQLContext) {
+  if (!hasShelfRole(context.role, "editor")) {
+    throw new ForbiddenError("This action needs the editor role");
+  }
+}
+
+// Turns GraphQL arguments into query parameters, so they are checked by the
+// same parsers as the REST routes; lists become comma separated values
+function asQuery(args: Args) {
+  return Object.fromEntries(
+    Object.entries(args)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => [
+        key,
+        Array.isArray(value) ? value.join(",") : String(value),
+      ])
+  );
+}
+
+function assertNoErrors(errors: ErrorDetail[]) {
+  if (errors.length > 0) {
+    throw new ValidationError("Invalid query parameters", errors);
+  }
+}
+
+// GraphQL checks arguments against the schema, so these only narrow their types
+function optionalStringArg(args: Args, field: string) {
+  const value = args[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new ValidationError("Invalid query parameters", [
+      { field, message: "Must be a string" },
+    ]);
+  }
+  return value;
+}
+
+function stringArg(args: Args, field: string) {
+  const value = optionalStringArg(args, field);
+  if (value === undefined) {
+    throw new ValidationError("Invalid query parameters", [
+      { field, message: "Is required" },
+    ]);
+  }
+  return value;
+}
+
+// Date range and limit shared by the session lists
+function parseSessionArgs(args: Args) {
+  const query = asQuery(args);
+  const errors: ErrorDetail[] = [];
+
+  const from = readDate(query, "from", errors);
+  const to = readDate(query, "to", errors);
+  // A plain date as the end of the range includes that whole day
+  const until =
+    to && /^\d{4}-\d{2}-\d{2}$/.test(readString(query, "to"))
+      ? new Date(to.getTime() + 24 * 60 * 60 * 1000)
+      : to;
+  if (from && to && from > to) {
+    errors.push({ field: "from", message: "Must not be after to" });
+  }
+
+  const limit =
+    readNumber(query, "limit", errors, {
+      integer: true,
+      min: 1,
+      max: MAX_SESSION_LIMIT,
+    }) ?? DEFAULT_SESSION_LIMIT;
+
+  assertNoErrors(errors);
+  return { from, until, limit };
+}
+
+const DateTime = new GraphQLScalarType({
+  name: "DateTime",
+  serialize: (value) => new Date(value as string | Date).toISOString(),
+  // Dates are checked where they are used, with the same messages as the REST routes
+  parseValue: (value) => value,
+  parseLiteral: (ast) => (ast.kind === Kind.STRING ? ast.value : null),
+});
+
+const resolvers = {
+  DateTime,
+
+  Query: {
+    me: (_: unknown, __: Args, { actor }: GraphQLContext) =>
+      prisma.user.findUnique({
+        where: { id: actor.userId },
+        select: { id: true, email: true },
+      }),
+
+    game: (_: unknown, args: Args, { actor }: GraphQLContext) =>
+      findShelfGame(stringArg(args, "id"), actor.shelfId),
+
+    games: async (_: unknown, args: Args, { actor }: GraphQLContext) => {
+      const { errors, where, orderBy, limit, cursor } = parseGameListQuery(
+        asQuery(args),
+        actor.shelfId
+      );
+      assertNoErrors(errors);
+
+      if (cursor && !(await findShelfGame(cursor, actor.shelfId))) {
+        assertNoErrors([{ field: "cursor", message: "Unknown cursor" }]);
+      }
+
+      const [games, total] = await prisma.$transaction([
+        prisma.game.findMany({
+          where,
+          orderBy,
+          // One extra row tells whether there is a next page
+          take: limit + 1,
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        }),
+        prisma.game.count({ where }),
+      ]);
+
+      const hasMore = games.length > limit;
+      const page = hasMore ? games.slice(0, limit) : games;
+      return {
+        games: page,
+        total,
+        nextCursor: hasMore ? page[page.length - 1].id : null,
+      };
+    },
+
+    session: (_: unknown, args: Args, { actor }: GraphQLContext) =>
+      prisma.session.findFirst({
+        where: {
+          id: stringArg(args, "id"),
+          deletedAt: null,
+          game: { shelfId: actor.shelfId, deletedAt: null },
+        },
+      }),
+
+    sessions: (_: unknown, args: Args, { actor }: GraphQLContext) => {
+      const { from, until, limit } = parseSessionArgs(args);
+      const gameId = optionalStringArg(args, "gameId");
+      const playerId = optionalStringArg(args, "playerId");
+      const where: Prisma.SessionWhereInput = {
+        deletedAt: null,
+        game: { shelfId: actor.shelfId, deletedAt: null },
+        date: { gte: from, lt: until },
+      };
+      if (gameId) {
+        where.gameId = gameId;
+      }
+      if (playerId) {
+        where.players = { some: { playerId } };
+      }
+      return prisma.session.findMany({
+        where,
+        orderBy: [{ date: "desc" }, { id: "asc" }],
+        take: limit,
+      });
+    },
+
+    player: (_: unknown, args: Args, { actor }: GraphQLContext) =>
+      prisma.player.findFirst({
+        where: { id: stringArg(args, "id"), shelfId: actor.shelfId, deletedAt: null },
+      }),
+
+    players: (_: unknown, args: Args, { actor }: GraphQLContext) => {
+      const q = optionalStringArg(args, "q");
+      return prisma.player.findMany({
+        where: {
+          shelfId: actor.shelfId,
+          deletedAt: null,
+          ...(q
+            ? {
+                OR: [
+                  { name: { contains: q, mode: "insensitive" } },
+                  {
+                    aliases: {
+                      some: { alias: { contains: q, mode: "insensitive" } },
+                    },
+                  },
+                ],
+              }
+            : {}),
+        },
+        orderBy: { name: "asc" },
+      });
+    },
+
+    tags: (_: unknown, args: Args, { actor }: GraphQLContext) => {
+      const group = optionalStringArg(args, "group");
+      return prisma.tag.findMany({
+        where: {
+          shelfId: actor.shelfId,
+          ...(group ? { group: group.toLowerCase() } : {}),
+        },
+        orderBy: [{ group: { sort: "asc", nulls: "last" } }, { title: "asc" }],
+      });
+    },
+
+    wishlist: async (_: unknown, args: Args, { actor }: GraphQLContext) => {
+      const { errors, orderBy } = parseWishlistQuery(asQuery(args));
+      assertNoErrors(errors);
+
+      const games = await prisma.game.findMany({
+        where: {
+          shelfId: actor.shelfId,
+          deletedAt: null,
+          wishlist: { isNot: null },
+        },
+        include: { wishlist: true },
+        orderBy,
+      });
+      return games.map((game) => game.wishlist);
+    },
+
+    files: async (_: unknown, args: Args, { actor }: GraphQLContext) => {
+      const gameId = stringArg(args, "gameId");
+      const game = await findShelfGame(gameId, actor.shelfId);
+      if (!game) {
+        throw new NotFoundError("Game not found");
+      }
+      return prisma.file.findMany({
+        where: { gameId },
+        orderBy: { createdAt: "asc" },
+      });
+    },
+  },
+
+  Mutation: {
+    createGame: async (_: unknown, args: Args, context: GraphQLContext) => {
+      requireEditor(context);
+      const game = await createGame(
+        context.actor,
+        parseInput(createGameSchema, args.input)
+      );
+      publishEvent(context.actor, "game.created", game);
+      return game;
+    },
+
+    updateGame: async (
+      _: unknown,
+      args: Args,
+      context: GraphQLContext
+    ) => {
+      requireEditor(context);
+      const game = await updateGame(
+        context.actor,
+        stringArg(args, "id"),
+        parseInput(updateGameSchema, args.input)
+      );
+      publishEvent(context.actor, "game.updated", game);
+      return game;
+    },
+
+    deleteGame: async (_: unknown, args: Args, context: GraphQLContext) => {
+      requireEditor(context);
+      const id = stringArg(args, "id");
+      await trashGame(context.actor, id);
+      publishEvent(context.actor, "game.deleted", { id });
+      return true;
+    },
+
+    createSession: async (
+      _: unknown,
+      args: Args,
+      context: GraphQLContext
+    ) => {
+      requireEditor(context);
+      const session = await createSession(
+        context.actor,
+        stringArg(args, "gameId"),
+        parseInput(createSessionSchema, args.input)
+      );
+      publishEvent(context.actor, "session.created", session);
+      return session;
+    },
+
+    updateSession: async (
+      _: unknown,
+      args: Args,
+      context: GraphQLContext
+    ) => {
+      requireEditor(context);
+      const session = await updateSession(
+        context.actor,
+        stringArg(args, "id"),
+        parseInput(updateSessionSchema, args.input)
+      );
+      publishEvent(context.actor, "session.updated", session);
+      return session;
+    },
+
+    deleteSession: async (
+      _: unknown,
+      args: Args,
+      context: GraphQLContext
+    ) => {
+      requireEditor(context);
+      const id = stringArg(args, "id");
+      const session = await trashSession(context.actor, id);
+      publishEvent(context.actor, "session.deleted", {
+        id,
+        gameId: session.gameId,
+      });
+      return true;
+    },
+
+    createPlayer: async (_: unknown, args: Args, context: GraphQLContext) => {
+      requireEditor(context);
+      const { name } = parseInput(playerSchema, args);
+      const player = await createPlayer(context.actor, name);
+      publishEvent(context.actor, "player.created", player);
+      return player;
+    },
+
+    updatePlayer: async (
+      _: unknown,
+      args: Args,
+      context: GraphQLContext
+    ) => {
+      requireEditor(context);
+      const player = await updatePlayer(
+        context.actor,
+        stringArg(args, "id"),
+        parseInput(playerSchema, { name: args.name }).name
+      );
+      publishEvent(context.actor, "player.updated", player);
+      return player;
+    },
+
+    deletePlayer: async (_: unknown, args: Args, context: GraphQLContext) => {
+      requireEditor(context);
+      const id = stringArg(args, "id");
+      await trashPlayer(context.actor, id);
+      publishEvent(context.actor, "player.deleted", { id });
+      return true;
+    },
+
+    mergePlayers: async (_: unknown, args: Args, context: GraphQLContext) => {
+      requireEditor(context);
+      const { sourcePlayerIds, targetPlayerId } = parseInput(
+        mergePlayersSchema,
+        args
+      );
+      const player = await mergePlayers(
+        context.actor,
+        sourcePlayerIds,
+        targetPlayerId
+      );
+      publishEvent(context.actor, "player.merged", { player, sourcePlayerIds });
+      return player;
+    },
+
+    createTag: async (_: unknown, args: Args, context: GraphQLContext) => {
+      requireEditor(context);
+      const tag = await createTag(
+        context.actor,
+        parseInput(createTagSchema, args.input)
+      );
+      publishEvent(context.actor, "tag.created", tag);
+      return tag;
+    },
+
+    updateTag: async (
+      _: unknown,
+      args: Args,
+      context: GraphQLContext
+    ) => {
+      requireEditor(context);
+      const tag = await updateTag(
+        context.actor,
+        stringArg(args, "id"),
+        parseInput(updateTagSchema, args.input)
+      );
+      publishEvent(context.actor, "tag.updated", tag);
+      return tag;
+    },
+
+    deleteTag: async (_: unknown, args: Args, context: GraphQLContext) => {
+      requireEditor(context);
+      const id = stringArg(args, "id");
+      await deleteTag(context.actor, id);
+      publishEvent(context.actor, "tag.deleted", { id });
+      return true;
+    },
+
+    mergeTags: async (_: unknown, args: Args, context: GraphQLContext) => {
+      requireEditor(context);
+      const { sourceTagIds, targetTagId } = parseInput(mergeTagsSchema, args);
+      const tag = await mergeTags(context.actor, sourceTagIds, targetTagId);
+      publishEvent(context.actor, "tag.merged", { tag, sourceTagIds });
+      return tag;
+    },
+
+    addToWishlist: async (
+      _: unknown,
+      args: Args,
+      context: GraphQLContext
+    ) => {
+      requireEditor(context);
+      const gameId = stringArg(args, "gameId");
+      const wishlist = await addToWishlist(
+        context.actor,
+        gameId,
+        parseInput(addWishlistSchema, args.input)
+      );
+      publishEvent(context.actor, "wishlist.updated", { gameId, wishlist });
+      return wishlist;
+    },
+
+    updateWishlist: async (
+      _: unknown,
+      args: Args,
+      context: GraphQLContext
+    ) => {
+      requireEditor(context);
+      const gameId = stringArg(args, "gameId");
+      const wishlist = await updateWishlist(
+        context.actor,
+        gameId,
+        parseInput(updateWishlistSchema, args.input)
+      );
+      publishEvent(context.actor, "wishlist.updated", { gameId, wishlist });
+      return wishlist;
+    },
+
+    dropFromWishlist: async (
+      _: unknown,
+      args: Args,
+      context: GraphQLContext
+    ) => {
+      requireEditor(context);
+      const gameId = stringArg(args, "gameId");
+      await dropFromWishlist(context.actor, gameId);
+      publishEvent(context.actor, "wishlist.updated", {
+        gameId,
+        wishlist: null,
+      });
+      return true;
+    },
+
+    markWishlistOwned: async (
+      _: unknown,
+      args: Args,
+      context: GraphQLContext
+    ) => {
+      requireEditor(context);
+      const gameId = stringArg(args, "gameId");
+      const game = await markWishlistOwned(context.actor, gameId);
+      publishEvent(context.actor, "wishlist.updated", {
+        gameId,
+        wishlist: null,
+      });
+      publishEvent(context.actor, "game.updated", game);
+      return game;
+    },
+
+    createFile: async (
+      _: unknown,
+      args: Args,
+      context: GraphQLContext
+    ) => {
+      requireEditor(context);
+      const gameId = stringArg(args, "gameId");
+      const file = await createFile(
+        context.actor,
+        gameId,
+        parseInput(createFileSchema, args.input)
+      );
+      publishEvent(context.actor, "file.created", file);
+      return file;
+    },
+
+    deleteFile: async (_: unknown, args: Args, context: GraphQLContext) => {
+      requireEditor(context);
+      const id = stringArg(args, "id");
+      const file = await deleteFile(context.actor, id);
+      publishEvent(context.actor, "file.deleted", { id, gameId: file.gameId });
+      return true;
+    },
+  },
+
+  User: {
+    player: (user: { id: string }, _: Args, { loaders }: GraphQLContext) =>
+      loaders.playerOfUser.load(user.id),
+  },
+
+  Game: {
+    tags: (game: { id: string }, _: Args, { loaders }: GraphQLContext) =>
+      loaders.tagsOfGame.load(game.id),
+    sessions: async (
+      game: { id: string },
+      args: Args,
+      { loaders }: GraphQLContext
+    ) => {
+      // Every session of the game is loaded in the batch and narrowed down here
+      const { from, until, limit } = parseSessionArgs(args);
+      const sessions = await loaders.sessionsOfGame.load(game.id);
+      return sessions
+        .filter(
+          (session) =>
+            (!from || session.date >= from) && (!until || session.date < until)
+        )
+        .slice(0, limit);
+    },
+    files: (game: { id: string }, _: Args, { loaders }: GraphQLContext) =>
+      loaders.filesOfGame.load(game.id),
+    wishlist: (game: { id: string }, _: Args, { loaders }: GraphQLContext) =>
+      loaders.wishlistOfGame.load(game.id),
+    baseGame: (
+      game: { baseGameId: string | null },
+      _: Args,
+      { loaders }: GraphQLContext
+    ) => (game.baseGameId ? loaders.game.load(game.baseGameId) : null),
+    expansions: (game: { id: string }, _: Args, { loaders }: GraphQLContext) =>
+      loaders.expansionsOfGame.load(game.id),
+  },
+
+  Session: {
+    game: (session: { gameId: string }, _: Args, { loaders }: GraphQLContext) =>
+      loaders.game.load(session.gameId),
+    players: (session: { id: string }, _: Args, { loaders }: GraphQLContext) =>
+      loaders.resultsOfSession.load(session.id),
+    expansions: (
+      session: { id: string },
+      _: Args,
+      { loaders }: GraphQLContext
+    ) => loaders.expansionsOfSession.load(session.id),
+  },
+
+  SessionPlayer: {
+    player: (
+      result: { playerId: string },
+      _: Args,
+      { loaders }: GraphQLContext
+    ) => loaders.player.load(result.playerId),
+  },
+
+  Player: {
+    aliases: (player: { id: string }, _: Args, { loaders }: GraphQLContext) =>
+      loaders.aliasesOfPlayer.load(player.id),
+    user: (
+      player: { userId: string | null },
+      _: Args,
+      { loaders }: GraphQLContext
+    ) => (player.userId ? loaders.user.load(player.userId) : null),
+    sessions: async (
+      player: { id: string },
+      args: Args,
+      { loaders }: GraphQLContext
+    ) => {
+      const { limit } = parseSessionArgs(args);
+      const sessions = await loaders.sessionsOfPlayer.load(player.id);
+      return sessions.slice(0, limit);
+    },
+  },
+
+  Tag: {
+    games: (tag: { id: string }, _: Args, { loaders }: GraphQLContext) =>
+      loaders.gamesOfTag.load(tag.id),
+  },
+
+  File: {
+    game: (file: { gameId: string }, _: Args, { loaders }: GraphQLContext) =>
+      loaders.game.load(file.gameId),
+  },
+
+  Wishlist: {
+    // Who claimed a gift stays hidden, like in the REST routes
+    isClaimed: (entry: { claimedAt: Date | null }) => Boolean(entry.claimedAt),
+    targetPrice: (entry: { targetPrice: Prisma.Decimal | null }) =>
+      entry.targetPrice === null ? null : Number(entry.targetPrice),
+    game: (entry: { gameId: string }, _: Args, { loaders }: GraphQLContext) =>
+      loaders.game.load(entry.gameId),
+  },
+};
+
+export default resolvers;
@@ -0,0 +1,303 @@
+// Types, queries and mutations of the GraphQL API. Query arguments mirror the
+// query parameters of the REST routes and input types mirror their request bodies.
+const typeDefs = /* GraphQL */ `
+  "ISO 8601 timestamp, or a plain YYYY-MM-DD date in arguments"
+  scalar DateTime
+
+  enum SortOrder {
+    asc
+    desc
+  }
+
+  enum GameSort {
+    title
+    rating
+    myRating
+    plays
+    createdAt
+    lastPlayed
+  }
+
+  "How expansions are listed: as games of their own or only under their base game"
+  enum ExpansionMode {
+    include
+    hide
+  }
+
+  enum WishlistSort {
+    createdAt
+    priority
+    order
+  }
+
+  enum WishlistPriority {
+    low
+    medium
+    high
+  }
+
+  type User {
+    id: ID!
+    email: String!
+    "The player linked to this account on the current shelf"
+    player: Player
+  }
+
+  type Game {
+    id: ID!
+    title: String!
+    description: String
+    genre: String!
+    minPlayers: Int!
+    maxPlayers: Int!
+    playTime: Int!
+    publisher: String!
+    age: String!
+    rating: Float!
+    myRating: Int
+    coverImage: String!
+    isOwned: Boolean!
+    yearPublished: Int
+    bggId: Int
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    lastPlayedAt: DateTime
+    playCount: Int!
+    tags: [Tag!]!
+    "Newest first"
+    sessions(from: DateTime, to: DateTime, limit: Int): [Session!]!
+    files: [File!]!
+    wishlist: Wishlist
+    baseGame: Game
+    expansions: [Game!]!
+  }
+
+  type GamePage {
+    games: [Game!]!
+    total: Int!
+    nextCursor: ID
+  }
+
+  type Session {
+    id: ID!
+    date: DateTime!
+    notes: String
+    isCooperative: Boolean!
+    cooperativeWin: Boolean
+    createdAt: DateTime!
+    game: Game!
+    players: [SessionPlayer!]!
+    expansions: [Game!]!
+  }
+
+  type SessionPlayer {
+    player: Player!
+    score: Float
+    position: Int
+    isWinner: Boolean!
+    team: String
+  }
+
+  type Player {
+    id: ID!
+    name: String!
+    aliases: [PlayerAlias!]!
+    user: User
+    "Newest first"
+    sessions(limit: Int): [Session!]!
+  }
+
+  type PlayerAlias {
+    id: ID!
+    alias: String!
+  }
+
+  type Tag {
+    id: ID!
+    title: String!
+    color: String
+    group: String
+    games: [Game!]!
+  }
+
+  type File {
+    id: ID!
+    title: String!
+    link: String!
+    mimeType: String
+    size: Int
+    createdAt: DateTime!
+    game: Game!
+  }
+
+  type Wishlist {
+    id: ID!
+    reason: String
+    priority: WishlistPriority!
+    position: Int!
+    targetPrice: Float
+    notes: String
+    isClaimed: Boolean!
+    createdAt: DateTime!
+    game: Game!
+  }
+
+  type Query {
+    me: User!
+    game(id: ID!): Game
+    games(
+      q: String
+      genre: String
+      tags: [String!]
+      isOwned: Boolean
+      wishlist: Boolean
+      expansions: ExpansionMode
+      players: Int
+      maxPlayTime: Int
+      minRating: Float
+      maxRating: Float
+      minMyRating: Int
+      maxMyRating: Int
+      sort: GameSort
+      order: SortOrder
+      limit: Int
+      cursor: ID
+    ): GamePage!
+    session(id: ID!): Session
+    "Newest first"
+    sessions(
+      gameId: ID
+      playerId: ID
+      from: DateTime
+      to: DateTime
+      limit: Int
+    ): [Session!]!
+    player(id: ID!): Player
+    players(q: String): [Player!]!
+    tags(group: String): [Tag!]!
+    wishlist(sort: WishlistSort, order: SortOrder): [Wishlist!]!
+    files(gameId: ID!): [File!]!
+  }
+
+  input TagInput {
+    title: String!
+  }
+
+  input GameInput {
+    title: String!
+    description: String
+    genre: String!
+    minPlayers: Int!
+    maxPlayers: Int!
+    playTime: Int!
+    publisher: String!
+    age: String!
+    rating: Float!
+    myRating: Int
+    coverImage: String!
+    isOwned: Boolean!
+    yearPublished: Int
+    bggId: Int
+    tags: [TagInput!]
+    baseGameId: ID
+  }
+
+  input GameUpdateInput {
+    title: String
+    description: String
+    genre: String
+    minPlayers: Int
+    maxPlayers: Int
+    playTime: Int
+    publisher: String
+    age: String
+    rating: Float
+    myRating: Int
+    coverImage: String
+    isOwned: Boolean
+    yearPublished: Int
+    bggId: Int
+    tags: [TagInput!]
+    baseGameId: ID
+  }
+
+  input PlayerResultInput {
+    name: String!
+    score: Float
+    position: Int
+    isWinner: Boolean
+    team: String
+  }
+
+  input SessionInput {
+    date: DateTime!
+    notes: String
+    isCooperative: Boolean
+    cooperativeWin: Boolean
+    players: [PlayerResultInput!]
+    expansionIds: [ID!]
+  }
+
+  input SessionUpdateInput {
+    date: DateTime
+    notes: String
+    isCooperative: Boolean
+    cooperativeWin: Boolean
+    players: [PlayerResultInput!]
+    expansionIds: [ID!]
+  }
+
+  input TagFieldsInput {
+    title: String!
+    color: String
+    group: String
+  }
+
+  input TagUpdateInput {
+    title: String
+    color: String
+    group: String
+  }
+
+  input WishlistInput {
+    reason: String
+    priority: WishlistPriority
+    targetPrice: Float
+    notes: String
+  }
+
+  input FileInput {
+    title: String!
+    link: String!
+  }
+
+  type Mutation {
+    createGame(input: GameInput!): Game!
+    updateGame(id: ID!, input: GameUpdateInput!): Game!
+    "Moves the game to the trash"
+    deleteGame(id: ID!): Boolean!
+    createSession(gameId: ID!, input: SessionInput!): Session!
+    updateSession(id: ID!, input: SessionUpdateInput!): Session!
+    "Moves the session to the trash"
+    deleteSession(id: ID!): Boolean!
+    createPlayer(name: String!): Player!
+    updatePlayer(id: ID!, name: String!): Player!
+    "Moves the player to the trash"
+    deletePlayer(id: ID!): Boolean!
+    mergePlayers(sourcePlayerIds: [ID!]!, targetPlayerId: ID!): Player!
+    createTag(input: TagFieldsInput!): Tag!
+    updateTag(id: ID!, input: TagUpdateInput!): Tag!
+    deleteTag(id: ID!): Boolean!
+    mergeTags(sourceTagIds: [ID!]!, targetTagId: ID!): Tag!
+    addToWishlist(gameId: ID!, input: WishlistInput): Wishlist!
+    updateWishlist(gameId: ID!, input: WishlistInput!): Wishlist!
+    "Removes the game from the wishlist without marking it as owned"
+    dropFromWishlist(gameId: ID!): Boolean!
+    "Removes the game from the wishlist and marks it as owned"
+    markWishlistOwned(gameId: ID!): Game!
+    createFile(gameId: ID!, input: FileInput!): File!
+    deleteFile(id: ID!): Boolean!
+  }
+`;
+
+export default typeDefs;
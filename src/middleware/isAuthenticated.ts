@@ -1,14 +1,31 @@
 import { expressjwt as jwt } from "express-jwt";
-import { Request } from "express";
+import { Request, Response, NextFunction } from "express";
+import { ShelfRole } from "../generated/prisma";
+import { isSessionActive } from "../services/auth";
+import { UnauthorizedError } from "../error-handling/errors";
+
+// Custom interface extending Express Request to include payload
+export interface AuthenticatedRequest extends Request {
+  payload?: {
+    id: string;
+    email: string;
+    sid: string; // id of the login session the token was issued for
+  };
+  // The shelf the request works on, set by the shelf access middleware
+  shelf?: {
+    id: string;
+    role: ShelfRole;
+  };
+}
 
 // Instantiate the JWT token validation middleware
-const isAuthenticated = jwt({
+const verifyToken = jwt({
     secret: process.env.TOKEN_SECRET,
     algorithms: ["HS256"],
     requestProperty: "payload",
     getToken: getTokenFromHeaders,
   });
-  
+
   // Function used to extract the JWT token from the request's 'Authorization' Headers
   function getTokenFromHeaders(req : Request) {
     // Check if the token is available on the request Headers
@@ -23,8 +40,28 @@ const isAuthenticated = jwt({
       }
       return token;
     }
-  
+
     return null;
   }
 
-  export default isAuthenticated;
\ No newline at end of file
+  // Validates the JWT and rejects tokens whose login session was logged out or revoked
+  function isAuthenticated(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    verifyToken(req, res, (err?: unknown) => {
+      if (err) {
+        return next(err);
+      }
+
+      const { id, sid } = req.payload ?? {};
+      if (!id || !sid) {
+        return next(new UnauthorizedError("Invalid token"));
+      }
+
+      isSessionActive(sid, id)
+        .then((active) =>
+          active ? next() : next(new UnauthorizedError("Session has been revoked"))
+        )
+        .catch(next);
+    });
+  }
+
+  export default isAuthenticated;
@@ -0,0 +1,56 @@
+import { Response, NextFunction } from "express";
+import { ShelfRole } from "../generated/prisma";
+import prisma from "../db";
+import { AuthenticatedRequest } from "./isAuthenticated";
+import { ForbiddenError, NotFoundError } from "../error-handling/errors";
+
+// Higher roles can do everything lower roles can
+const ROLE_RANK: Record<ShelfRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+export function hasShelfRole(role: ShelfRole, minimumRole: ShelfRole) {
+  return ROLE_RANK[role] >= ROLE_RANK[minimumRole];
+}
+
+// Resolves the shelf of the request and checks the user's role on it.
+// The shelf comes from the :shelfId route param, the X-Shelf-Id header, or
+// defaults to the user's personal shelf (the first one they own).
+// Must run after isAuthenticated.
+export const requireShelfRole =
+  (minimumRole: ShelfRole) =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const userId = req.payload.id;
+    const requestedShelfId = req.params.shelfId ?? req.header("x-shelf-id");
+
+    try {
+      const membership = requestedShelfId
+        ? await prisma.shelfMember.findUnique({
+            where: { shelfId_userId: { shelfId: requestedShelfId, userId } },
+          })
+        : await prisma.shelfMember.findFirst({
+            where: { userId, role: "owner" },
+            orderBy: { createdAt: "asc" },
+          });
+
+      // Shelves the user isn't a member of look the same as missing ones
+      if (!membership) {
+        throw new NotFoundError("Shelf not found");
+      }
+
+      if (!hasShelfRole(membership.role, minimumRole)) {
+        throw new ForbiddenError(`This action needs the ${minimumRole} role`);
+      }
+
+      req.shelf = { id: membership.shelfId, role: membership.role };
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+export const canView = requireShelfRole("viewer");
+export const canEdit = requireShelfRole("editor");
+export const isShelfOwner = requireShelfRole("owner");
@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { AppError, ValidationError } from "../error-handling/errors";
+
+// Largest accepted upload, in megabytes
+const MAX_UPLOAD_MB = Number(process.env.MAX_UPLOAD_MB) || 10;
+
+export const IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+export const ATTACHMENT_TYPES = [...IMAGE_TYPES, "application/pdf", "text/plain"];
+
+// File extension stored blobs get for each accepted type
+export const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "image/gif": ".gif",
+  "application/pdf": ".pdf",
+  "text/plain": ".txt",
+};
+
+// Leading bytes of binary types, so a renamed file can't pass as another type
+const SIGNATURES: Record<string, (data: Buffer) => boolean> = {
+  "image/jpeg": (data) => data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  "image/png": (data) => data.subarray(0, 8).equals(Buffer.from("\x89PNG\r\n\x1a\n", "latin1")),
+  "image/gif": (data) => data.subarray(0, 4).toString("latin1") === "GIF8",
+  "image/webp": (data) =>
+    data.subarray(0, 4).toString("latin1") === "RIFF" &&
+    data.subarray(8, 12).toString("latin1") === "WEBP",
+  "application/pdf": (data) => data.subarray(0, 5).toString("latin1") === "%PDF-",
+};
+
+// Accepts one multipart file in `field`, kept in memory as req.file.
+// Text fields of the form end up in req.body, so validateBody can run after it.
+const uploadSingle = (field: string, allowedTypes: string[]) => {
+  const parse = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_UPLOAD_MB * 1024 * 1024, files: 1 },
+  }).single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    parse(req, res, (err?: unknown) => {
+      if (err) {
+        return next(err);
+      }
+
+      const file = req.file;
+      if (!file) {
+        return next(
+          new ValidationError("Invalid request body", [
+            { field, message: "File is required" },
+          ])
+        );
+      }
+
+      const matchesSignature = SIGNATURES[file.mimetype];
+      if (
+        !allowedTypes.includes(file.mimetype) ||
+        (matchesSignature && !matchesSignature(file.buffer))
+      ) {
+        return next(
+          new AppError(
+            415,
+            "UNSUPPORTED_MEDIA_TYPE",
+            `Allowed file types: ${allowedTypes.join(", ")}`
+          )
+        );
+      }
+
+      next();
+    });
+  };
+};
+
+export default uploadSingle;
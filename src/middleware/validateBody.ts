@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from "express";
+import { z, ZodType } from "zod";
+import { ValidationError } from "../error-handling/errors";
+
+// Parses a value against a schema, listing every failed field in the ValidationError
+export function parseInput<T extends ZodType>(
+  schema: T,
+  value: unknown,
+  message = "Invalid request body"
+): z.infer<T> {
+  const result = schema.safeParse(value ?? {});
+
+  if (!result.success) {
+    const details = result.error.issues.flatMap((issue) =>
+      // Unknown fields are reported one by one under their own name
+      issue.code === "unrecognized_keys"
+        ? issue.keys.map((key) => ({
+            field: [...issue.path, key].join("."),
+            message: "Unknown field",
+          }))
+        : [{ field: issue.path.join("."), message: issue.message }]
+    );
+    throw new ValidationError(message, details);
+  }
+
+  return result.data;
+}
+
+// Validates req.body against a schema and replaces it with the parsed value.
+// Every failed field is listed in the 400 response. The schema stays readable on
+// the middleware, so the OpenAPI document can describe the request body.
+const validateBody = (schema: ZodType) =>
+  Object.assign(
+    (req: Request, res: Response, next: NextFunction) => {
+      try {
+        req.body = parseInput(schema, req.body);
+        next();
+      } catch (error) {
+        next(error);
+      }
+    },
+    { schema }
+  );
+
+export default validateBody;
@@ -0,0 +1,94 @@
+import { IRoute, Request, Response, NextFunction, Router } from "express";
+import { ZodType } from "zod";
+import { ErrorDetail } from "../error-handling/errors";
+import { routesOf } from "../openapi/document";
+import { Operation } from "../openapi/operations";
+import { errorResponse } from "../schemas/responses";
+
+export type ResponseValidationMode = "warn" | "strict";
+
+function check(schema: ZodType, body: unknown): ErrorDetail[] {
+  // Checked as the client receives it, with dates as strings
+  const json = body === undefined ? undefined : JSON.parse(JSON.stringify(body));
+  const result = schema.safeParse(json);
+  return result.success
+    ? []
+    : result.error.issues.map((issue) => ({
+        field: issue.path.map(String).join("."),
+        message: issue.message,
+      }));
+}
+
+// Compares what a route sent with what the OpenAPI document promises
+function findDrift(
+  operation: Operation,
+  status: number,
+  body: unknown
+): ErrorDetail[] {
+  if (status >= 400) {
+    return check(errorResponse, body);
+  }
+  if (status !== operation.status) {
+    return [
+      {
+        field: "status",
+        message: `Expected ${operation.status} but got ${status}`,
+      },
+    ];
+  }
+  return operation.response ? check(operation.response, body) : [];
+}
+
+// Test mode that checks the JSON responses of the router's routes against the
+// OpenAPI document, so the code and the document can't drift apart unnoticed.
+// "warn" logs every mismatch, "strict" replaces the response with a 500 listing them.
+// Must be mounted before the router.
+const validateResponses = (router: Router, mode: ResponseValidationMode) => {
+  const described = new Map<IRoute, Map<string, Operation>>();
+  for (const { route, method, operation } of routesOf(router)) {
+    if (operation) {
+      const byMethod = described.get(route) ?? new Map<string, Operation>();
+      described.set(route, byMethod.set(method, operation));
+    }
+  }
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const json = res.json.bind(res);
+
+    res.json = (body?: unknown) => {
+      const operation =
+        req.route && described.get(req.route)?.get(req.method.toLowerCase());
+      // Server errors are not part of the contract
+      if (!operation || res.statusCode >= 500) {
+        return json(body);
+      }
+
+      const details = findDrift(operation, res.statusCode, body);
+      if (details.length === 0) {
+        return json(body);
+      }
+
+      console.warn(
+        "Response does not match the OpenAPI document:",
+        req.method,
+        req.route.path,
+        res.statusCode,
+        details
+      );
+
+      if (mode === "warn") {
+        return json(body);
+      }
+      res.status(500);
+      return json({
+        code: "RESPONSE_VALIDATION_ERROR",
+        message: "Response does not match the OpenAPI document",
+        details,
+      });
+    };
+
+    next();
+  };
+};
+
+export default validateResponses;
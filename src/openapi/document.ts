@@ -0,0 +1,202 @@
+import { IRoute, Router } from "express";
+import { z, ZodType } from "zod";
+import { ShelfRole } from "../generated/prisma";
+import isAuthenticated from "../middleware/isAuthenticated";
+import { canEdit, canView, isShelfOwner } from "../middleware/shelfAccess";
+import { errorResponse } from "../schemas/responses";
+import { Operation, operations } from "./operations";
+
+type JsonSchema = Record<string, unknown>;
+
+// validateBody leaves its schema on the middleware
+type RouteHandler = IRoute["stack"][number]["handle"] & { schema?: ZodType };
+
+const SHELF_ROLES = new Map<unknown, ShelfRole>([
+  [canView, "viewer"],
+  [canEdit, "editor"],
+  [isShelfOwner, "owner"],
+]);
+
+const ERROR_CONTENT = {
+  "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+};
+
+export function operationKey(method: string, path: string) {
+  return `${method.toUpperCase()} ${path}`;
+}
+
+// Routes of the router with the operation that describes each of them
+export function routesOf(router: Router) {
+  return router.stack.flatMap((layer) => {
+    const route = layer.route;
+    if (!route) {
+      return [];
+    }
+    const methods = [...new Set(route.stack.map((entry) => entry.method))];
+    return methods.map((method) => ({
+      route,
+      method,
+      operation: operations[operationKey(method, route.path)] as
+        | Operation
+        | undefined,
+    }));
+  });
+}
+
+function toJsonSchema(schema: ZodType, io: "input" | "output"): JsonSchema {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: "any",
+  });
+  return jsonSchema;
+}
+
+// "/games/:gameId/" becomes "/games/{gameId}"
+function toOpenApiPath(path: string) {
+  const trimmed = path.length > 1 ? path.replace(/\/+$/, "") : path;
+  return trimmed.replace(/:(\w+)/g, "{$1}");
+}
+
+function queryParameters(query: Operation["query"]) {
+  if (!query) {
+    return [];
+  }
+  const { properties = {}, required = [] } = toJsonSchema(query, "input") as {
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+  };
+  return Object.entries(properties).map(
+    ([name, { description, ...schema }]) => ({
+      name,
+      in: "query",
+      required: required.includes(name),
+      ...(description ? { description } : {}),
+      schema,
+    })
+  );
+}
+
+function describeRoute(method: string, route: IRoute, operation?: Operation) {
+  const handlers = route.stack.map((entry) => entry.handle as RouteHandler);
+  const authenticated = handlers.includes(isAuthenticated);
+  const role = handlers
+    .map((handler) => SHELF_ROLES.get(handler))
+    .find(Boolean);
+  const body = handlers.find((handler) => handler.schema)?.schema;
+
+  const pathParameters = [...route.path.matchAll(/:(\w+)/g)].map(
+    ([, name]) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+    })
+  );
+  const shelfHeader = role
+    ? [
+        {
+          name: "X-Shelf-Id",
+          in: "header",
+          required: false,
+          description: "Shelf to work on, defaults to the user's personal shelf",
+          schema: { type: "string" },
+        },
+      ]
+    : [];
+  const parameters = [
+    ...pathParameters,
+    ...queryParameters(operation?.query),
+    ...shelfHeader,
+  ];
+
+  const status = operation?.status ?? (method === "post" ? 201 : 200);
+  const success =
+    status === 204
+      ? { description: "No content" }
+      : {
+          description: "Success",
+          content: {
+            "application/json": {
+              schema: operation?.response
+                ? toJsonSchema(operation.response, "output")
+                : {},
+            },
+          },
+        };
+
+  const errors: Record<string, { description: string }> = {};
+  if (body || operation?.query) {
+    errors["400"] = { description: "Invalid request" };
+  }
+  if (authenticated) {
+    errors["401"] = { description: "Missing, invalid or revoked token" };
+  }
+  if (role && role !== "viewer") {
+    errors["403"] = { description: `Needs the ${role} role on the shelf` };
+  }
+  if (role || pathParameters.length > 0) {
+    errors["404"] = { description: "Not found" };
+  }
+
+  return {
+    ...(operation ? { summary: operation.summary, tags: [operation.tag] } : {}),
+    ...(role ? { description: `Needs the ${role} role on the shelf.` } : {}),
+    security: authenticated ? [{ bearerAuth: [] as string[] }] : [],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(body
+      ? {
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": { schema: toJsonSchema(body, "input") },
+            },
+          },
+        }
+      : {}),
+    responses: {
+      [status]: success,
+      ...Object.fromEntries(
+        Object.entries(errors).map(([code, response]) => [
+          code,
+          { ...response, content: ERROR_CONTENT },
+        ])
+      ),
+      default: { description: "Error", content: ERROR_CONTENT },
+    },
+  };
+}
+
+// Builds an OpenAPI 3.1 document from the routes of a router mounted under /api:
+// paths, path parameters, auth and request bodies come from the routes themselves,
+// summaries, query parameters and response bodies from the operations registry.
+export function buildOpenApiDocument(router: Router) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const { route, method, operation } of routesOf(router)) {
+    const path = toOpenApiPath(route.path);
+    paths[path] = {
+      ...paths[path],
+      [method]: describeRoute(method, route, operation),
+    };
+  }
+
+  const tags = [
+    ...new Set(Object.values(operations).map((operation) => operation.tag)),
+  ];
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Board Game Shelf API",
+      version: process.env.npm_package_version ?? "0.0.0",
+    },
+    servers: [{ url: "/api" }],
+    tags: tags.map((name) => ({ name })),
+    paths,
+    components: {
+      schemas: { Error: toJsonSchema(errorResponse, "output") },
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+      },
+    },
+  };
+}
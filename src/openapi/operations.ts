@@ -0,0 +1,334 @@
+import { z, ZodObject, ZodType } from "zod";
+import {
+  addedWishlistResponse,
+  fileResponse,
+  gameDetailResponse,
+  gameListResponse,
+  gameResponse,
+  headToHeadResponse,
+  healthResponse,
+  mergedPlayerResponse,
+  messageResponse,
+  myPlayerResponse,
+  playerAliasResponse,
+  playerListResponse,
+  playerResponse,
+  playerStatsResponse,
+  recommendationsResponse,
+  sessionResponse,
+  sessionWithGameResponse,
+  signupResponse,
+  tagListResponse,
+  tagResponse,
+  tokenPayloadResponse,
+  tokensResponse,
+  topGamesResponse,
+  wishlistGamesResponse,
+} from "../schemas/responses";
+import {
+  EXPANSION_MODES,
+  GAME_SORT_FIELDS,
+  MAX_GAME_LIMIT,
+} from "../schemas/games";
+
+// What the OpenAPI document says about a route beyond what the route itself tells:
+// its summary, its query parameters and the body of its success response.
+// Path, method, auth, shelf role and request body are read from the route.
+export interface Operation {
+  summary: string;
+  tag: string;
+  status: number;
+  // Left out for 204 responses
+  response?: ZodType;
+  query?: ZodObject;
+}
+
+const order = z.enum(["asc", "desc"]).optional();
+const integer = z.coerce.number().int();
+
+const gameListQuery = z.object({
+  q: z.string().optional().describe("Searches title and publisher"),
+  genre: z.string().optional(),
+  tags: z
+    .string()
+    .optional()
+    .describe("Comma separated tag titles, a game must carry all of them"),
+  isOwned: z.boolean().optional(),
+  wishlist: z.boolean().optional(),
+  expansions: z
+    .enum(EXPANSION_MODES)
+    .optional()
+    .describe("List expansions as games, leave them out, or group them under their base game"),
+  players: integer.min(1).optional(),
+  maxPlayTime: integer.min(1).optional(),
+  minRating: z.number().min(0).max(10).optional(),
+  maxRating: z.number().min(0).max(10).optional(),
+  minMyRating: integer.min(0).max(10).optional(),
+  maxMyRating: integer.min(0).max(10).optional(),
+  sort: z.enum(GAME_SORT_FIELDS).optional(),
+  order,
+  limit: integer.min(1).max(MAX_GAME_LIMIT).optional(),
+  cursor: z.string().optional().describe("nextCursor of the previous page"),
+});
+
+const wishlistQuery = z.object({
+  sort: z.enum(["createdAt", "priority", "order"]).optional(),
+  order,
+});
+
+const recommendQuery = z.object({
+  players: integer.min(1).describe("Number of people at the table"),
+  minutes: integer.min(1).optional().describe("Longest play time"),
+  unplayedBoost: z.number().min(0).max(10).optional(),
+  limit: integer.min(1).max(50).optional(),
+  playerIds: z
+    .string()
+    .optional()
+    .describe("Comma separated ids of the players present"),
+});
+
+// Keyed by method and path as the route is declared in index.routes.ts
+export const operations: Record<string, Operation> = {
+  "GET /health": {
+    summary: "Check that the server and database are up",
+    tag: "Health",
+    status: 200,
+    response: healthResponse,
+  },
+
+  "GET /games/": {
+    summary: "Get games with filters, sorting and cursor pagination",
+    tag: "Games",
+    status: 200,
+    response: gameListResponse,
+    query: gameListQuery,
+  },
+  "GET /games/wishlist": {
+    summary: "Get games from the wishlist",
+    tag: "Games",
+    status: 200,
+    response: wishlistGamesResponse,
+    query: wishlistQuery,
+  },
+  "GET /games/recommend": {
+    summary: "Suggest owned games for tonight's table",
+    tag: "Games",
+    status: 200,
+    response: recommendationsResponse,
+    query: recommendQuery,
+  },
+  "GET /games/top": {
+    summary: "Get the 10 games with the most sessions",
+    tag: "Games",
+    status: 200,
+    response: topGamesResponse,
+  },
+  "GET /games/:gameId/": {
+    summary: "Get a game by id",
+    tag: "Games",
+    status: 200,
+    response: gameDetailResponse,
+  },
+  "POST /games/": {
+    summary: "Create a game",
+    tag: "Games",
+    status: 201,
+    response: gameResponse,
+  },
+  "PUT /games/:gameId": {
+    summary: "Update a game",
+    tag: "Games",
+    status: 200,
+    response: gameResponse,
+  },
+  "DELETE /games/:gameId": {
+    summary: "Move a game to the trash",
+    tag: "Games",
+    status: 204,
+  },
+  "POST /games/:gameId/addWishlist": {
+    summary: "Add a game to the wishlist",
+    tag: "Games",
+    status: 201,
+    response: addedWishlistResponse,
+  },
+  "POST /games/:gameId/removeWishlist": {
+    summary: "Remove a game from the wishlist and mark it as owned",
+    tag: "Games",
+    status: 200,
+    response: messageResponse,
+  },
+
+  "POST /games/:gameId/sessions/": {
+    summary: "Log a session of a game",
+    tag: "Sessions",
+    status: 201,
+    response: sessionWithGameResponse,
+  },
+  "GET /games/:gameId/sessions": {
+    summary: "Get the sessions of a game, newest first",
+    tag: "Sessions",
+    status: 200,
+    response: z.array(sessionResponse),
+  },
+  "PUT /sessions/:sessionId": {
+    summary: "Update a session",
+    tag: "Sessions",
+    status: 200,
+    response: sessionWithGameResponse,
+  },
+  "DELETE /sessions/:sessionId": {
+    summary: "Move a session to the trash",
+    tag: "Sessions",
+    status: 204,
+  },
+
+  "GET /tags": {
+    summary: "Get all tags with their game counts",
+    tag: "Tags",
+    status: 200,
+    response: tagListResponse,
+    query: z.object({ group: z.string().optional() }),
+  },
+  "POST /tags": {
+    summary: "Create a tag",
+    tag: "Tags",
+    status: 201,
+    response: tagResponse,
+  },
+  "POST /tags/merge": {
+    summary: "Merge tags into one, moving their games over",
+    tag: "Tags",
+    status: 200,
+    response: tagResponse,
+  },
+  "PUT /tags/:tagId": {
+    summary: "Rename a tag or change its color or group",
+    tag: "Tags",
+    status: 200,
+    response: tagResponse,
+  },
+  "DELETE /tags/:tagId": {
+    summary: "Delete a tag",
+    tag: "Tags",
+    status: 204,
+  },
+
+  "POST /players": {
+    summary: "Create a player",
+    tag: "Players",
+    status: 201,
+    response: playerResponse,
+  },
+  "GET /players": {
+    summary: "Get all players",
+    tag: "Players",
+    status: 200,
+    response: playerListResponse,
+  },
+  "GET /players/me": {
+    summary: "Get the player linked to the current user, with their statistics and sessions",
+    tag: "Players",
+    status: 200,
+    response: myPlayerResponse,
+  },
+  "POST /players/merge": {
+    summary: "Merge duplicate players into one, moving their sessions over",
+    tag: "Players",
+    status: 200,
+    response: mergedPlayerResponse,
+  },
+  "GET /players/:playerId/stats": {
+    summary: "Get play statistics for a player",
+    tag: "Players",
+    status: 200,
+    response: playerStatsResponse,
+  },
+  "GET /players/:playerAId/vs/:playerBId": {
+    summary: "Get the head-to-head history of two players",
+    tag: "Players",
+    status: 200,
+    response: headToHeadResponse,
+  },
+  "PUT /players/:playerId": {
+    summary: "Rename a player",
+    tag: "Players",
+    status: 200,
+    response: playerResponse,
+  },
+  "DELETE /players/:playerId": {
+    summary: "Move a player to the trash",
+    tag: "Players",
+    status: 204,
+  },
+  "POST /players/:playerId/aliases": {
+    summary: "Add another name the player is logged under",
+    tag: "Players",
+    status: 201,
+    response: playerAliasResponse,
+  },
+  "DELETE /players/:playerId/aliases/:aliasId": {
+    summary: "Remove an alias of a player",
+    tag: "Players",
+    status: 204,
+  },
+  "PUT /players/:playerId/user": {
+    summary: "Link a player to the account of a shelf member, or unlink it with null",
+    tag: "Players",
+    status: 200,
+    response: playerResponse,
+  },
+
+  "POST /games/:gameId/files": {
+    summary: "Add a linked file to a game",
+    tag: "Files",
+    status: 201,
+    response: fileResponse,
+  },
+  "GET /games/:gameId/files": {
+    summary: "Get all files of a game",
+    tag: "Files",
+    status: 200,
+    response: z.array(fileResponse),
+  },
+  "DELETE /files/:fileId": {
+    summary: "Delete a file",
+    tag: "Files",
+    status: 204,
+  },
+
+  "POST /signup": {
+    summary: "Create an account with a personal shelf",
+    tag: "Auth",
+    status: 201,
+    response: signupResponse,
+  },
+  "POST /login": {
+    summary: "Log in with email and password",
+    tag: "Auth",
+    status: 200,
+    response: tokensResponse,
+  },
+  "POST /refresh": {
+    summary: "Exchange a refresh token for a new access and refresh token",
+    tag: "Auth",
+    status: 200,
+    response: tokensResponse,
+  },
+  "POST /logout": {
+    summary: "Revoke the current login session",
+    tag: "Auth",
+    status: 204,
+  },
+  "POST /logout-all": {
+    summary: "Revoke every login session of the user",
+    tag: "Auth",
+    status: 204,
+  },
+  "GET /verify": {
+    summary: "Verify the access token and return its payload",
+    tag: "Auth",
+    status: 200,
+    response: tokenPayloadResponse,
+  },
+};
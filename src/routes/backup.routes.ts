@@ -0,0 +1,142 @@
+import express, { Response, NextFunction } from "express";
+import isAuthenticated, {
+  AuthenticatedRequest,
+} from "../middleware/isAuthenticated";
+import { canView, isShelfOwner } from "../middleware/shelfAccess";
+import { parseInput } from "../middleware/validateBody";
+import { backupSchema } from "../schemas/backup";
+import {
+  restoreBackup,
+  writeBackup,
+  writeGamesCsv,
+  writeSessionsCsv,
+} from "../services/backup";
+import { publishChanges } from "../services/events";
+import { actorOf } from "../services/history";
+import { readBoolean } from "../services/queryParams";
+import { ErrorDetail, ValidationError } from "../error-handling/errors";
+
+const router = express.Router();
+
+// Date used in the names of downloaded files
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// GET /backup - download the whole shelf as versioned JSON
+router.get(
+  "/backup",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
+
+    try {
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="board-game-shelf-${today()}.json"`
+      );
+      await writeBackup(shelfId, (chunk) => res.write(chunk));
+      res.end();
+    } catch (error) {
+      // Once streaming has started the response can only be cut off
+      if (res.headersSent) {
+        console.log("Error exporting backup", error);
+        res.destroy();
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /backup/games.csv - download all games as CSV
+router.get(
+  "/backup/games.csv",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
+
+    try {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="games-${today()}.csv"`
+      );
+      await writeGamesCsv(shelfId, (chunk) => res.write(chunk));
+      res.end();
+    } catch (error) {
+      if (res.headersSent) {
+        console.log("Error exporting games CSV", error);
+        res.destroy();
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /backup/sessions.csv - download all sessions as CSV
+router.get(
+  "/backup/sessions.csv",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
+
+    try {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="sessions-${today()}.csv"`
+      );
+      await writeSessionsCsv(shelfId, (chunk) => res.write(chunk));
+      res.end();
+    } catch (error) {
+      if (res.headersSent) {
+        console.log("Error exporting sessions CSV", error);
+        res.destroy();
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /backup/restore?mode=merge|replace - import a JSON backup in one transaction
+// (?deleteUploads=true lets a replace delete uploaded files and covers)
+router.post(
+  "/backup/restore",
+  isAuthenticated,
+  isShelfOwner,
+  express.json({ limit: "20mb" }),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const mode = req.query.mode ?? "merge";
+    const errors: ErrorDetail[] = [];
+    const deleteUploads = readBoolean(req.query, "deleteUploads", errors);
+
+    if (mode !== "merge" && mode !== "replace") {
+      errors.unshift({ field: "mode", message: "Must be merge or replace" });
+      return next(new ValidationError("Invalid query parameters", errors));
+    }
+    if (errors.length > 0) {
+      return next(new ValidationError("Invalid query parameters", errors));
+    }
+
+    try {
+      const backup = parseInput(backupSchema, req.body, "Invalid backup document");
+      const actor = actorOf(req);
+      const { result, changes } = await restoreBackup(actor, backup, mode, {
+        deleteUploads,
+      });
+      await publishChanges(actor, changes);
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,39 @@
+import express, { Request, Response } from "express";
+import indexRoutes from "./index.routes";
+import { buildOpenApiDocument } from "../openapi/document";
+
+const router = express.Router();
+
+// Routes don't change while the server runs, so the document is built once
+let document: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+// Swagger UI from a CDN, so the docs page needs no extra dependency
+const DOCS_PAGE = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>Board Game Shelf API</title>
+    <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="docs"></div>
+    <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+    <script>
+      SwaggerUIBundle({ url: "/api/openapi.json", dom_id: "#docs" });
+    </script>
+  </body>
+</html>
+`;
+
+// GET /openapi.json - OpenAPI 3.1 document of the REST API
+router.get("/openapi.json", (req: Request, res: Response) => {
+  document ??= buildOpenApiDocument(indexRoutes);
+  res.status(200).json(document);
+});
+
+// GET /docs - browsable API docs
+router.get("/docs", (req: Request, res: Response) => {
+  res.status(200).type("html").send(DOCS_PAGE);
+});
+
+export default router;
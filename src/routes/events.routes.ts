@@ -0,0 +1,90 @@
+import express, { Response } from "express";
+import prisma from "../db";
+import isAuthenticated, {
+  AuthenticatedRequest,
+} from "../middleware/isAuthenticated";
+import { canView } from "../middleware/shelfAccess";
+import { isSessionActive } from "../services/auth";
+import { eventsSince, ShelfEvent, subscribe } from "../services/events";
+
+const router = express.Router();
+
+// Comment lines keep proxies and load balancers from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+
+// How long browsers wait before reconnecting a dropped stream
+const RETRY_MS = 5 * 1000;
+
+function writeEvent(res: Response, event: ShelfEvent) {
+  res.write(
+    `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({
+      userId: event.userId,
+      data: event.data,
+      createdAt: event.createdAt,
+    })}\n\n`
+  );
+}
+
+// GET /events - stream changes on the shelf as Server-Sent Events (resumes after the Last-Event-ID header)
+router.get(
+  "/events",
+  isAuthenticated,
+  canView,
+  (req: AuthenticatedRequest, res: Response) => {
+    const shelfId = req.shelf.id;
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      // Stops nginx from buffering the stream
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    // Replaying and subscribing happen in one go, so no event can fall in between
+    const lastEventId = req.header("last-event-id");
+    if (lastEventId) {
+      const missed = eventsSince(shelfId, lastEventId);
+      if (missed) {
+        missed.forEach((event) => writeEvent(res, event));
+      } else {
+        // Too old to replay, the client should reload what it shows
+        res.write("event: resync\ndata: {}\n\n");
+      }
+    }
+    const unsubscribe = subscribe((event) => {
+      if (event.shelfId === shelfId) {
+        writeEvent(res, event);
+      }
+    });
+
+    // The stream ends once the user logs out or leaves the shelf
+    const { id: userId, sid } = req.payload;
+    const heartbeat = setInterval(async () => {
+      try {
+        const [active, member] = await Promise.all([
+          isSessionActive(sid, userId),
+          prisma.shelfMember.findUnique({
+            where: { shelfId_userId: { shelfId, userId } },
+          }),
+        ]);
+        if (!active || !member) {
+          res.end();
+          return;
+        }
+        res.write(": heartbeat\n\n");
+      } catch (error) {
+        console.log("Error checking event stream access", error);
+      }
+    }, HEARTBEAT_MS);
+
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  }
+);
+
+export default router;
@@ -0,0 +1,452 @@
+import express, { Response, NextFunction } from "express";
+import prisma from "../db";
+import isAuthenticated, {
+  AuthenticatedRequest,
+} from "../middleware/isAuthenticated";
+import { canEdit, canView } from "../middleware/shelfAccess";
+import validateBody from "../middleware/validateBody";
+import {
+  candidateSchema,
+  completeGameNightSchema,
+  createGameNightSchema,
+  inviteesSchema,
+  rsvpSchema,
+  updateGameNightSchema,
+  voteSchema,
+} from "../schemas/gameNights";
+import {
+  assertNotCompleted,
+  assertShelfGames,
+  assertShelfPlayers,
+  completeGameNight,
+  findShelfGameNight,
+  gameNightInclude,
+  withHeadcount,
+} from "../services/gameNights";
+import { publishEvent } from "../services/events";
+import { actorOf } from "../services/history";
+import { readBoolean } from "../services/queryParams";
+import {
+  BadRequestError,
+  ConflictError,
+  ErrorDetail,
+  NotFoundError,
+  ValidationError,
+} from "../error-handling/errors";
+
+const router = express.Router();
+
+// Helper function to load a game night with everything shown for it
+async function loadGameNight(nightId: string) {
+  const night = await prisma.gameNight.findUnique({
+    where: { id: nightId },
+    include: gameNightInclude,
+  });
+  return withHeadcount(night);
+}
+
+// Helper function to find a game night that can still be changed
+async function findOpenGameNight(nightId: string, shelfId: string) {
+  const night = await findShelfGameNight(nightId, shelfId);
+  if (!night) {
+    throw new NotFoundError("Game night not found");
+  }
+  assertNotCompleted(night);
+  return night;
+}
+
+// GET /game-nights - get game nights (?upcoming=true for the ones still ahead, false for past ones)
+router.get(
+  "/game-nights",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
+    const errors: ErrorDetail[] = [];
+    const upcoming = readBoolean(req.query, "upcoming", errors);
+
+    if (errors.length > 0) {
+      return next(new ValidationError("Invalid query parameters", errors));
+    }
+
+    try {
+      const now = new Date();
+      const nights = await prisma.gameNight.findMany({
+        where: {
+          shelfId,
+          ...(upcoming === true
+            ? { date: { gte: now }, completedAt: null }
+            : upcoming === false
+            ? { OR: [{ date: { lt: now } }, { completedAt: { not: null } }] }
+            : {}),
+        },
+        include: gameNightInclude,
+        // Upcoming nights soonest first, otherwise the latest first
+        orderBy: { date: upcoming ? "asc" : "desc" },
+      });
+      res.status(200).json(nights.map(withHeadcount));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /game-nights - plan a game night
+router.post(
+  "/game-nights",
+  isAuthenticated,
+  canEdit,
+  validateBody(createGameNightSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { playerIds = [], gameIds = [], hostId, ...fields } = req.body;
+    const shelfId = req.shelf.id;
+
+    try {
+      if (hostId) {
+        await assertShelfPlayers([hostId], shelfId, "hostId");
+      }
+      await assertShelfPlayers(playerIds, shelfId, "playerIds");
+      await assertShelfGames(gameIds, shelfId, "gameIds");
+
+      const night = await prisma.gameNight.create({
+        data: {
+          ...fields,
+          shelfId,
+          hostId: hostId ?? null,
+          invitees: {
+            create: playerIds.map((playerId: string) => ({ playerId })),
+          },
+          candidates: {
+            create: gameIds.map((gameId: string) => ({ gameId })),
+          },
+        },
+      });
+
+      res.status(201).json(await loadGameNight(night.id));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /game-nights/:nightId - get a game night with RSVPs, votes and headcount checks
+router.get(
+  "/game-nights/:nightId",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { nightId } = req.params;
+    const shelfId = req.shelf.id;
+
+    try {
+      const night = await findShelfGameNight(nightId, shelfId);
+
+      if (!night) {
+        throw new NotFoundError("Game night not found");
+      }
+
+      res.status(200).json(await loadGameNight(nightId));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /game-nights/:nightId - update date, location, host, title or notes
+router.put(
+  "/game-nights/:nightId",
+  isAuthenticated,
+  canEdit,
+  validateBody(updateGameNightSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { nightId } = req.params;
+    const { hostId } = req.body;
+    const shelfId = req.shelf.id;
+
+    try {
+      await findOpenGameNight(nightId, shelfId);
+
+      if (hostId) {
+        await assertShelfPlayers([hostId], shelfId, "hostId");
+      }
+
+      await prisma.gameNight.update({
+        where: { id: nightId },
+        data: req.body,
+      });
+      res.status(200).json(await loadGameNight(nightId));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /game-nights/:nightId - cancel a game night; sessions recorded from it are kept
+router.delete(
+  "/game-nights/:nightId",
+  isAuthenticated,
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { nightId } = req.params;
+    const shelfId = req.shelf.id;
+
+    try {
+      const night = await findShelfGameNight(nightId, shelfId);
+
+      if (!night) {
+        throw new NotFoundError("Game night not found");
+      }
+
+      await prisma.gameNight.delete({ where: { id: nightId } });
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /game-nights/:nightId/invitees - invite players
+router.post(
+  "/game-nights/:nightId/invitees",
+  isAuthenticated,
+  canEdit,
+  validateBody(inviteesSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { nightId } = req.params;
+    const { playerIds } = req.body;
+    const shelfId = req.shelf.id;
+
+    try {
+      await findOpenGameNight(nightId, shelfId);
+      await assertShelfPlayers(playerIds, shelfId, "playerIds");
+
+      // Players who are already invited keep their RSVP
+      await prisma.gameNightInvitee.createMany({
+        data: playerIds.map((playerId: string) => ({ gameNightId: nightId, playerId })),
+        skipDuplicates: true,
+      });
+      res.status(201).json(await loadGameNight(nightId));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /game-nights/:nightId/invitees/:playerId - uninvite a player, with their votes
+router.delete(
+  "/game-nights/:nightId/invitees/:playerId",
+  isAuthenticated,
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { nightId, playerId } = req.params;
+    const shelfId = req.shelf.id;
+
+    try {
+      await findOpenGameNight(nightId, shelfId);
+
+      const { count } = await prisma.gameNightInvitee.deleteMany({
+        where: { gameNightId: nightId, playerId },
+      });
+      if (count === 0) {
+        throw new NotFoundError("Invitee not found");
+      }
+      await prisma.gameNightVote.deleteMany({
+        where: { playerId, candidate: { gameNightId: nightId } },
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /game-nights/:nightId/invitees/:playerId/rsvp - set whether an invitee is coming
+router.put(
+  "/game-nights/:nightId/invitees/:playerId/rsvp",
+  isAuthenticated,
+  canEdit,
+  validateBody(rsvpSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { nightId, playerId } = req.params;
+    const { status } = req.body;
+    const shelfId = req.shelf.id;
+
+    try {
+      await findOpenGameNight(nightId, shelfId);
+
+      const { count } = await prisma.gameNightInvitee.updateMany({
+        where: { gameNightId: nightId, playerId },
+        data: {
+          status,
+          respondedAt: status === "pending" ? null : new Date(),
+        },
+      });
+      if (count === 0) {
+        throw new NotFoundError("Invitee not found");
+      }
+
+      res.status(200).json(await loadGameNight(nightId));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /game-nights/:nightId/candidates - add a game to the shortlist
+router.post(
+  "/game-nights/:nightId/candidates",
+  isAuthenticated,
+  canEdit,
+  validateBody(candidateSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { nightId } = req.params;
+    const { gameId } = req.body;
+    const shelfId = req.shelf.id;
+
+    try {
+      await findOpenGameNight(nightId, shelfId);
+      await assertShelfGames([gameId], shelfId, "gameId");
+
+      const existing = await prisma.gameNightCandidate.findUnique({
+        where: { gameNightId_gameId: { gameNightId: nightId, gameId } },
+      });
+      if (existing) {
+        throw new ConflictError("Game is already on the shortlist");
+      }
+
+      await prisma.gameNightCandidate.create({
+        data: { gameNightId: nightId, gameId },
+      });
+      res.status(201).json(await loadGameNight(nightId));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /game-nights/:nightId/candidates/:gameId - take a game off the shortlist
+router.delete(
+  "/game-nights/:nightId/candidates/:gameId",
+  isAuthenticated,
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { nightId, gameId } = req.params;
+    const shelfId = req.shelf.id;
+
+    try {
+      await findOpenGameNight(nightId, shelfId);
+
+      const { count } = await prisma.gameNightCandidate.deleteMany({
+        where: { gameNightId: nightId, gameId },
+      });
+      if (count === 0) {
+        throw new NotFoundError("Game is not on the shortlist");
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /game-nights/:nightId/candidates/:gameId/votes - vote for a shortlisted game on behalf of an invitee
+router.post(
+  "/game-nights/:nightId/candidates/:gameId/votes",
+  isAuthenticated,
+  canEdit,
+  validateBody(voteSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { nightId, gameId } = req.params;
+    const { playerId } = req.body;
+    const shelfId = req.shelf.id;
+
+    try {
+      await findOpenGameNight(nightId, shelfId);
+
+      const candidate = await prisma.gameNightCandidate.findUnique({
+        where: { gameNightId_gameId: { gameNightId: nightId, gameId } },
+      });
+      if (!candidate) {
+        throw new NotFoundError("Game is not on the shortlist");
+      }
+
+      const invitee = await prisma.gameNightInvitee.findUnique({
+        where: { gameNightId_playerId: { gameNightId: nightId, playerId } },
+      });
+      if (!invitee) {
+        throw new BadRequestError("Only invited players can vote");
+      }
+
+      await prisma.gameNightVote.upsert({
+        where: { candidateId_playerId: { candidateId: candidate.id, playerId } },
+        create: { candidateId: candidate.id, playerId },
+        update: {},
+      });
+      res.status(201).json(await loadGameNight(nightId));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /game-nights/:nightId/candidates/:gameId/votes/:playerId - take back a vote
+router.delete(
+  "/game-nights/:nightId/candidates/:gameId/votes/:playerId",
+  isAuthenticated,
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { nightId, gameId, playerId } = req.params;
+    const shelfId = req.shelf.id;
+
+    try {
+      await findOpenGameNight(nightId, shelfId);
+
+      const { count } = await prisma.gameNightVote.deleteMany({
+        where: { playerId, candidate: { gameNightId: nightId, gameId } },
+      });
+      if (count === 0) {
+        throw new NotFoundError("Vote not found");
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /game-nights/:nightId/complete - record the games played as sessions
+router.post(
+  "/game-nights/:nightId/complete",
+  isAuthenticated,
+  canEdit,
+  validateBody(completeGameNightSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { nightId } = req.params;
+    const { sessions } = req.body;
+
+    try {
+      const actor = actorOf(req);
+      const created = await completeGameNight(actor, nightId, sessions);
+
+      if (!created) {
+        throw new NotFoundError("Game night not found");
+      }
+
+      for (const session of created) {
+        publishEvent(actor, "session.created", session);
+      }
+
+      res.status(201).json({
+        gameNight: await loadGameNight(nightId),
+        sessions: created,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
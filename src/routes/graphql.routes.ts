@@ -0,0 +1,72 @@
+import express, { Response, NextFunction } from "express";
+import { GraphQLError } from "graphql";
+import { createHandler } from "graphql-http/lib/use/express";
+import isAuthenticated, {
+  AuthenticatedRequest,
+} from "../middleware/isAuthenticated";
+import { canView } from "../middleware/shelfAccess";
+import { toAppError } from "../error-handling/index";
+import { actorOf } from "../services/history";
+import { createLoaders, GraphQLContext, schema } from "../graphql";
+
+const router = express.Router();
+
+// Errors from resolvers get the code, status and field details of the REST error responses
+function formatError(error: Readonly<GraphQLError | Error>) {
+  if (!(error instanceof GraphQLError) || !error.originalError) {
+    return error;
+  }
+
+  const appError = toAppError(error.originalError);
+  if (!appError) {
+    console.error(
+      "ERROR",
+      "graphql",
+      error.path?.join("."),
+      error.originalError,
+    );
+  }
+
+  return new GraphQLError(
+    appError
+      ? appError.message
+      : "Internal server error. Check the server console",
+    {
+      nodes: error.nodes,
+      source: error.source,
+      positions: error.positions,
+      path: error.path,
+      extensions: appError
+        ? {
+            code: appError.code,
+            status: appError.status,
+            ...(appError.details ? { details: appError.details } : {}),
+          }
+        : { code: "INTERNAL_ERROR", status: 500 },
+    },
+  );
+}
+
+const handler = createHandler<GraphQLContext>({
+  schema,
+  context: (req) => {
+    const raw = req.raw as AuthenticatedRequest;
+    return {
+      actor: actorOf(raw),
+      role: raw.shelf.role,
+      loaders: createLoaders(raw.shelf.id),
+    };
+  },
+  formatError,
+});
+
+// GET|POST /graphql - GraphQL API for games, sessions, players, tags, files and wishlist entries
+router.all(
+  "/graphql",
+  isAuthenticated,
+  canView,
+  (req: AuthenticatedRequest, res: Response, next: NextFunction) =>
+    handler(req, res, next),
+);
+
+export default router;
@@ -0,0 +1,120 @@
+import express, { Response, NextFunction } from "express";
+import prisma from "../db";
+import { HistoryEntity } from "../generated/prisma";
+import isAuthenticated, {
+  AuthenticatedRequest,
+} from "../middleware/isAuthenticated";
+import { canEdit, canView } from "../middleware/shelfAccess";
+import { readNumber, readString } from "../services/queryParams";
+import { publishChanges } from "../services/events";
+import { actorOf, restoreRevision } from "../services/history";
+import { ErrorDetail, NotFoundError, ValidationError } from "../error-handling/errors";
+
+const router = express.Router();
+
+const ENTITY_TYPES = Object.values(HistoryEntity);
+
+// The acting user is returned without the password hash
+const historyInclude = {
+  user: { select: { id: true, email: true } },
+};
+
+// GET /games/:gameId/history - changes of a game, its sessions, files and wishlist entry
+router.get(
+  "/games/:gameId/history",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { gameId } = req.params;
+    const shelfId = req.shelf.id;
+
+    try {
+      // Deleted games still have their history
+      const entries = await prisma.historyEntry.findMany({
+        where: { shelfId, gameId },
+        include: historyInclude,
+        orderBy: { createdAt: "desc" },
+      });
+
+      if (entries.length === 0) {
+        const game = await prisma.game.findFirst({
+          where: { id: gameId, shelfId },
+        });
+        if (!game) {
+          throw new NotFoundError("Game not found");
+        }
+      }
+
+      res.status(200).json(entries);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /history - recent changes on the shelf (?entityType=player&entityId=...&limit=50)
+router.get(
+  "/history",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
+    const errors: ErrorDetail[] = [];
+    const entityType = readString(req.query, "entityType");
+    const entityId = readString(req.query, "entityId");
+    const limit =
+      readNumber(req.query, "limit", errors, { integer: true, min: 1, max: 200 }) ?? 50;
+
+    if (entityType && !ENTITY_TYPES.includes(entityType as HistoryEntity)) {
+      errors.push({
+        field: "entityType",
+        message: `Must be one of: ${ENTITY_TYPES.join(", ")}`,
+      });
+    }
+
+    if (errors.length > 0) {
+      return next(new ValidationError("Invalid query parameters", errors));
+    }
+
+    try {
+      const entries = await prisma.historyEntry.findMany({
+        where: {
+          shelfId,
+          ...(entityType ? { entityType: entityType as HistoryEntity } : {}),
+          ...(entityId ? { entityId } : {}),
+        },
+        include: historyInclude,
+        orderBy: { createdAt: "desc" },
+        take: limit,
+      });
+      res.status(200).json(entries);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /history/:entryId/restore - revert a record to the revision of a history entry
+router.post(
+  "/history/:entryId/restore",
+  isAuthenticated,
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { entryId } = req.params;
+
+    try {
+      const actor = actorOf(req);
+      const change = await restoreRevision(actor, entryId);
+      await publishChanges(actor, [change]);
+      const entry = await prisma.historyEntry.findUnique({
+        where: { id: change.id },
+        include: historyInclude,
+      });
+      res.status(200).json(entry);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
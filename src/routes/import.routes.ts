@@ -0,0 +1,51 @@
+import express, { Response, NextFunction } from "express";
+import isAuthenticated, {
+  AuthenticatedRequest,
+} from "../middleware/isAuthenticated";
+import { canEdit } from "../middleware/shelfAccess";
+import {
+  importBggCollection,
+  parseBggCollection,
+} from "../services/bggImport";
+import { publishChanges } from "../services/events";
+import { actorOf } from "../services/history";
+import { BadRequestError } from "../error-handling/errors";
+
+const router = express.Router();
+
+// BGG exports are XML documents sent as the raw request body
+const xmlBody = express.text({
+  type: ["application/xml", "text/xml"],
+  limit: "10mb",
+});
+
+// POST /import/bgg - import games from a BoardGameGeek collection export (?dryRun=true only reports)
+router.post(
+  "/import/bgg",
+  isAuthenticated,
+  canEdit,
+  xmlBody,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const dryRun = req.query.dryRun === "true";
+
+    const collection = parseBggCollection(req.body);
+    if (!collection) {
+      return next(
+        new BadRequestError(
+          "Send a BoardGameGeek collection XML export with Content-Type application/xml"
+        )
+      );
+    }
+
+    try {
+      const actor = actorOf(req);
+      const { report, changes } = await importBggCollection(actor, collection, dryRun);
+      await publishChanges(actor, changes);
+      res.status(dryRun ? 200 : 201).json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -1,48 +1,87 @@
 import express, { Request, Response, NextFunction } from "express";
 import { PrismaClient } from "@prisma/client";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
 import prisma from "../db";
-import isAuthenticated from "../middleware/isAuthenticated";
-
-// Custom interface extending Express Request to include payload
-interface AuthenticatedRequest extends Request {
-  payload?: {
-    id: string;
-    email: string;
-    password: string;
-  };
-}
+import isAuthenticated, {
+  AuthenticatedRequest,
+} from "../middleware/isAuthenticated";
+import { canEdit, canView } from "../middleware/shelfAccess";
+import { getPlayerStats, getHeadToHead } from "../services/playerStats";
+import {
+  activeLoanInclude,
+  createGame,
+  effectiveRange,
+  findShelfGame,
+  parseGameListQuery,
+  trashGame,
+  updateGame,
+  withLoanStatus,
+} from "../services/games";
+import {
+  createSession,
+  sessionInclude,
+  trashSession,
+  updateSession,
+} from "../services/sessions";
+import {
+  addPlayerAlias,
+  createPlayer,
+  findShelfPlayer,
+  linkPlayerUser,
+  mergePlayers,
+  removePlayerAlias,
+  trashPlayer,
+  updatePlayer,
+} from "../services/players";
+import { createTag, deleteTag, mergeTags, updateTag } from "../services/tags";
+import { createFile, deleteFile } from "../services/files";
+import { readString } from "../services/queryParams";
+import {
+  addToWishlist,
+  markWishlistOwned,
+  parseWishlistQuery,
+  wishlistOmit,
+} from "../services/wishlist";
+import { actorOf } from "../services/history";
+import { publishEvent } from "../services/events";
+import { parseRecommendQuery, recommendGames } from "../services/recommendations";
+import validateBody from "../middleware/validateBody";
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from "../error-handling/errors";
+import { createGameSchema, updateGameSchema } from "../schemas/games";
+import { createSessionSchema, updateSessionSchema } from "../schemas/sessions";
+import {
+  linkPlayerUserSchema,
+  mergePlayersSchema,
+  playerAliasSchema,
+  playerSchema,
+} from "../schemas/players";
+import { createFileSchema } from "../schemas/files";
+import { addWishlistSchema } from "../schemas/wishlist";
+import {
+  createTagSchema,
+  mergeTagsSchema,
+  updateTagSchema,
+} from "../schemas/tags";
+import {
+  loginSchema,
+  refreshTokenSchema,
+  signupSchema,
+} from "../schemas/auth";
+import {
+  createAuthSession,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+} from "../services/auth";
 
 const router = express.Router();
 
-// Helper function to create player connections
-async function createPlayerConnections(players: any[] | undefined) {
-  let playerConnections: { connect: { id: string }[] } | undefined;
-  if (players && players.length > 0) {
-    const playerIds: string[] = [];
-
-    for (const player of players) {
-      let existingPlayer = await prisma.player.findFirst({
-        where: { name: player.name },
-      });
-
-      if (!existingPlayer) {
-        existingPlayer = await prisma.player.create({
-          data: { name: player.name },
-        });
-      }
-
-      playerIds.push(existingPlayer.id);
-    }
-
-    playerConnections = {
-      connect: playerIds.map((id) => ({ id })),
-    };
-  }
-  return playerConnections;
-}
-
 // Health check endpoint
 router.get("/health", async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -66,89 +105,183 @@ router.get("/health", async (req: Request, res: Response, next: NextFunction) =>
 
 //Endpoints for Game
 
-// GET games/ - get all games
+// GET games/ - get games with filters, sorting and cursor pagination
 router.get(
   "/games/",
-  async (req: Request, res: Response, next: NextFunction) => {
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
+    const { errors, where, orderBy, limit, cursor, expansions } =
+      parseGameListQuery(req.query, shelfId);
+
+    if (errors.length > 0) {
+      return next(new ValidationError("Invalid query parameters", errors));
+    }
+
     try {
-      const allGames = await prisma.game.findMany({
-        include: {
-          tags: true,
-          _count: {
-            select: {
-              sessions: true,
+      if (cursor && !(await findShelfGame(cursor, shelfId))) {
+        throw new ValidationError("Invalid query parameters", [
+          { field: "cursor", message: "Unknown cursor" },
+        ]);
+      }
+
+      const [games, total] = await prisma.$transaction([
+        prisma.game.findMany({
+          where,
+          orderBy,
+          // One extra row tells whether there is a next page
+          take: limit + 1,
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+          include: {
+            tags: true,
+            ...activeLoanInclude,
+            baseGame: { select: { id: true, title: true } },
+            _count: {
+              select: {
+                sessions: { where: { deletedAt: null } },
+              },
             },
           },
-        },
-      });
+        }),
+        prisma.game.count({ where }),
+      ]);
 
-      res.json(allGames);
+      const hasMore = games.length > limit;
+      const page = hasMore ? games.slice(0, limit) : games;
+
+      // Grouped expansions are listed under their base game
+      const pageExpansions =
+        expansions === "group"
+          ? await prisma.game.findMany({
+              where: {
+                baseGameId: { in: page.map((game) => game.id) },
+                deletedAt: null,
+              },
+              orderBy: { title: "asc" },
+            })
+          : [];
+
+      res.json({
+        games: page.map((game) => {
+          if (expansions !== "group") {
+            return withLoanStatus(game);
+          }
+          const ofGame = pageExpansions.filter(
+            (expansion) => expansion.baseGameId === game.id
+          );
+          return {
+            ...withLoanStatus(game),
+            expansions: ofGame,
+            effectiveRange: effectiveRange(game, ofGame),
+          };
+        }),
+        total,
+        nextCursor: hasMore ? page[page.length - 1].id : null,
+      });
     } catch (err) {
-      console.log("Error getting all games from DB", err);
-      res.status(500).json({ message: "Error getting all games from DB" });
+      next(err);
     }
   }
 );
 
-// GET games/wishlist - get games from wishlist
-router.get("/games/wishlist", async (req: Request, res: Response, next: NextFunction) => {
+// GET games/wishlist - get games from wishlist (?sort=createdAt|priority|order)
+router.get("/games/wishlist", isAuthenticated, canView, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const shelfId = req.shelf.id;
+  const { errors, orderBy } = parseWishlistQuery(req.query);
+
+  if (errors.length > 0) {
+    return next(new ValidationError("Invalid query parameters", errors));
+  }
+
   try {
     const wishlistGames = await prisma.game.findMany({
       include: {
         tags: true,
-        wishlist: true,
+        wishlist: { omit: wishlistOmit },
         _count: {
           select: {
-            sessions: true,
+            sessions: { where: { deletedAt: null } },
           },
         },
       },
       where: {
+        shelfId,
+        deletedAt: null,
         isOwned: false,
         wishlist: {
           isNot: null,
         },
       },
-      orderBy: {
-        wishlist: {
-          createdAt: "desc",
-        },
-      },
+      orderBy,
     });
     res.json(wishlistGames);
   } catch (err) {
-    console.log("Error getting wishlist games from DB", err);
-    res.status(500).json({ message: "Error getting wishlist games from DB" });
+    next(err);
   }
 });
 
+// GET games/recommend - suggest owned games for tonight's table
+router.get(
+  "/games/recommend",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
+    const { errors, players, minutes, unplayedBoost, limit, playerIds } =
+      parseRecommendQuery(req.query);
+
+    if (errors.length > 0) {
+      return next(new ValidationError("Invalid query parameters", errors));
+    }
+
+    try {
+      const knownPlayers = await prisma.player.count({
+        where: { id: { in: playerIds }, shelfId, deletedAt: null },
+      });
+      if (knownPlayers !== playerIds.length) {
+        throw new NotFoundError("Player not found");
+      }
+
+      const recommendations = await recommendGames(shelfId, {
+        players,
+        minutes,
+        unplayedBoost,
+        limit,
+        playerIds,
+      });
+      res.json(recommendations);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
 // GET games/top - get top 10 games number of sessions
 router.get(
   "/games/top",
-  async (req: Request, res: Response, next: NextFunction) => {
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
     try {
       const topGames = await prisma.game.findMany({
+        where: { shelfId, deletedAt: null },
         include: {
           tags: true,
           _count: {
             select: {
-              sessions: true,
+              sessions: { where: { deletedAt: null } },
             },
           },
         },
-        orderBy: [
-          {
-            sessions: {
-              _count: "desc",
-            },
-          },
-        ],
+        // Sessions in the trash don't count
+        orderBy: [{ playCount: "desc" }],
         take: 10,
       });
       res.json(topGames);
     } catch (err) {
-      console.log("Error getting top games from DB", err);
-      res.status(500).json({ message: "Error getting top games from DB" });
+      next(err);
     }
   }
 );
@@ -156,20 +289,36 @@ router.get(
 // GET games/:id - get game by Id
 router.get(
   "/games/:gameId/",
-  async (req: Request, res: Response, next: NextFunction) => {
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { gameId } = req.params;
+    const shelfId = req.shelf.id;
     try {
       const game = await prisma.game.findFirst({
-        where: { id: gameId },
+        where: { id: gameId, shelfId, deletedAt: null },
         include: {
           tags: true,
-          wishlist: true,
+          wishlist: { omit: wishlistOmit },
+          ...activeLoanInclude,
+          baseGame: { select: { id: true, title: true } },
+          expansions: {
+            where: { deletedAt: null },
+            orderBy: { title: "asc" },
+          },
         },
       });
-      res.json(game);
+
+      if (!game) {
+        throw new NotFoundError("Game not found");
+      }
+
+      res.json({
+        ...withLoanStatus(game),
+        effectiveRange: effectiveRange(game, game.expansions),
+      });
     } catch (err) {
-      console.log("Error getting game by id from DB", err);
-      res.status(500).json({ message: "Error getting game by id from DB" });
+      next(err);
     }
   }
 );
@@ -178,44 +327,16 @@ router.get(
 router.post(
   "/games/",
   isAuthenticated,
-  async (req: Request, res: Response, next: NextFunction) => {
-    const game = req.body;
-    const { tags, ...gameDetail } = game;
+  canEdit,
+  validateBody(createGameSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      let tagConnections: { connect: { id: string }[] } | undefined;
-
-      if (tags && tags.length > 0) {
-        const tagIds: string[] = [];
-
-        for (const tag of tags) {
-          let existingTag = await prisma.tag.findFirst({
-            where: { title: tag.title },
-          });
-
-          if (!existingTag) {
-            existingTag = await prisma.tag.create({
-              data: { title: tag.title },
-            });
-          }
-
-          tagIds.push(existingTag.id);
-        }
-
-        tagConnections = {
-          connect: tagIds.map((id) => ({ id })),
-        };
-      }
-
-      const newGame = await prisma.game.create({
-        data: {
-          ...gameDetail,
-          tags: tagConnections,
-        },
-      });
+      const actor = actorOf(req);
+      const newGame = await createGame(actor, req.body);
+      publishEvent(actor, "game.created", newGame);
       res.status(201).json(newGame);
     } catch (err) {
-      console.log("Error creating game", err);
-      res.status(500).json({ message: "Error creating game" });
+      next(err);
     }
   }
 );
@@ -224,67 +345,35 @@ router.post(
 router.put(
   "/games/:gameId",
   isAuthenticated,
-  async (req: Request, res: Response, next: NextFunction) => {
-    const game = req.body;
+  canEdit,
+  validateBody(updateGameSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { gameId } = req.params;
-    const { tags, ...gameDetail } = game;
     try {
-      let tagConnections: { set: { id: string }[] } | undefined;
-
-      if (tags && tags.length > 0) {
-        const tagIds: string[] = [];
-
-        for (const tag of tags) {
-          let existingTag = await prisma.tag.findFirst({
-            where: { title: tag.title },
-          });
-
-          if (!existingTag) {
-            existingTag = await prisma.tag.create({
-              data: { title: tag.title },
-            });
-          }
-
-          tagIds.push(existingTag.id);
-        }
-
-        tagConnections = {
-          set: tagIds.map((id) => ({ id })),
-        };
-      } else {
-        // If no tags provided, remove all existing tag connections
-        tagConnections = {
-          set: [],
-        };
-      }
-
-      const updatedGame = await prisma.game.update({
-        where: { id: gameId },
-        data: {
-          ...gameDetail,
-          tags: tagConnections,
-        },
-      });
+      const actor = actorOf(req);
+      const updatedGame = await updateGame(actor, gameId, req.body);
+      publishEvent(actor, "game.updated", updatedGame);
       res.json(updatedGame);
     } catch (err) {
-      console.log("Error updating game", err);
-      res.status(500).json({ message: "Error updating game" });
+      next(err);
     }
   }
 );
 
-// DELETE games/:gameId - delete a game
+// DELETE games/:gameId - move a game to the trash
 router.delete(
   "/games/:gameId",
   isAuthenticated,
-  async (req: Request, res: Response, next: NextFunction) => {
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { gameId } = req.params;
     try {
-      await prisma.game.delete({ where: { id: gameId } });
+      const actor = actorOf(req);
+      await trashGame(actor, gameId);
+      publishEvent(actor, "game.deleted", { id: gameId });
       res.status(204).json();
     } catch (err) {
-      console.log("Error deleting game", err);
-      res.status(500).json({ message: "Error deleting game" });
+      next(err);
     }
   }
 );
@@ -293,44 +382,15 @@ router.delete(
 router.post(
   "/games/:gameId/addWishlist",
   isAuthenticated,
-  async (req: Request, res: Response, next: NextFunction) => {
+  canEdit,
+  validateBody(addWishlistSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { gameId } = req.params;
-    const reason = req.body?.reason || "";
 
     try {
-      const game = await prisma.game.findUnique({
-        where: { id: gameId },
-      });
-
-      if (!game) {
-        return res.status(404).json({ error: "Game not found" });
-      }
-
-      if (game.isOwned) {
-        return res
-          .status(400)
-          .json({ error: "Cannot add owned game to wishlist" });
-      }
-
-      // Check if already in wishlist
-      const existingWishlist = await prisma.wishlist.findUnique({
-        where: { gameId },
-      });
-
-      if (existingWishlist) {
-        return res.status(400).json({ error: "Game is already in wishlist" });
-      }
-
-      const wishlist = await prisma.wishlist.create({
-        data: {
-          gameId,
-          reason,
-        },
-        include: {
-          game: true,
-        },
-      });
-
+      const actor = actorOf(req);
+      const wishlist = await addToWishlist(actor, gameId, req.body);
+      publishEvent(actor, "wishlist.updated", { gameId, wishlist });
       res.status(201).json(wishlist);
     } catch (error) {
       next(error);
@@ -342,36 +402,15 @@ router.post(
 router.post(
   "/games/:gameId/removeWishlist",
   isAuthenticated,
-  async (req: Request, res: Response, next: NextFunction) => {
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { gameId } = req.params;
 
     try {
-      const game = await prisma.game.findUnique({
-        where: { id: gameId },
-        include: {
-          wishlist: true,
-        },
-      });
-
-      if (!game) {
-        return res.status(404).json({ error: "Game not found" });
-      }
-
-      if (!game.wishlist) {
-        return res.status(400).json({ error: "Game is not in wishlist" });
-      }
-
-      // Remove from wishlist and mark as owned
-      await prisma.$transaction([
-        prisma.wishlist.delete({
-          where: { gameId },
-        }),
-        prisma.game.update({
-          where: { id: gameId },
-          data: { isOwned: true },
-        }),
-      ]);
-
+      const actor = actorOf(req);
+      const game = await markWishlistOwned(actor, gameId);
+      publishEvent(actor, "wishlist.updated", { gameId, wishlist: null });
+      publishEvent(actor, "game.updated", game);
       res
         .status(200)
         .json({ message: "Game removed from wishlist and marked as owned" });
@@ -387,30 +426,15 @@ router.post(
 router.post(
   "/games/:gameId/sessions/",
   isAuthenticated,
-  async (req: Request, res: Response, next: NextFunction) => {
+  canEdit,
+  validateBody(createSessionSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { gameId } = req.params;
-    const { date, notes, players } = req.body;
 
     try {
-      const game = await prisma.game.findUnique({
-        where: { id: gameId },
-      });
-
-      if (!game) {
-        return res.status(404).json({ error: "Game not found" });
-      }
-
-      const playerConnections = await createPlayerConnections(players);
-      const session = await prisma.session.create({
-        data: {
-          date: new Date(date),
-          notes,
-          game: { connect: { id: gameId } },
-          players: playerConnections,
-        },
-        include: { players: true, game: true },
-      });
-
+      const actor = actorOf(req);
+      const session = await createSession(actor, gameId, req.body);
+      publishEvent(actor, "session.created", session);
       res.status(201).json(session);
     } catch (error) {
       next(error);
@@ -421,21 +445,23 @@ router.post(
 // GET games/:gameId/sessions - get sessions
 router.get(
   "/games/:gameId/sessions",
-  async (req: Request, res: Response, next: NextFunction) => {
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { gameId } = req.params;
+    const shelfId = req.shelf.id;
 
     try {
-      const game = await prisma.game.findUnique({
-        where: { id: gameId },
-      });
+      const game = await findShelfGame(gameId, shelfId);
 
       if (!game) {
-        return res.status(404).json({ error: "Game not found" });
+        throw new NotFoundError("Game not found");
       }
       const sessions = await prisma.session.findMany({
-        where: { gameId },
+        where: { gameId, deletedAt: null },
         include: {
-          players: true,
+          players: { include: { player: true } },
+          expansions: { select: { id: true, title: true } },
         },
         orderBy: { date: "desc" },
       });
@@ -451,22 +477,15 @@ router.get(
 router.put(
   "/sessions/:sessionId",
   isAuthenticated,
-  async (req: Request, res: Response, next: NextFunction) => {
+  canEdit,
+  validateBody(updateSessionSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { sessionId } = req.params;
-    const { date, notes, players } = req.body;
 
     try {
-      const playerConnections = await createPlayerConnections(players);
-      const updatedSession = await prisma.session.update({
-        where: { id: sessionId },
-        data: {
-          date: date ? new Date(date) : undefined,
-          notes: notes ?? undefined,
-          players: playerConnections,
-        },
-        include: { players: true, game: true },
-      });
-
+      const actor = actorOf(req);
+      const updatedSession = await updateSession(actor, sessionId, req.body);
+      publishEvent(actor, "session.updated", updatedSession);
       res.status(200).json(updatedSession);
     } catch (error) {
       next(error);
@@ -474,16 +493,20 @@ router.put(
   }
 );
 
-// DELETE /sessions/:sessionId - delete a session
+// DELETE /sessions/:sessionId - move a session to the trash
 router.delete(
   "/sessions/:sessionId",
   isAuthenticated,
-  async (req: Request, res: Response, next: NextFunction) => {
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { sessionId } = req.params;
 
     try {
-      await prisma.session.delete({
-        where: { id: sessionId },
+      const actor = actorOf(req);
+      const session = await trashSession(actor, sessionId);
+      publishEvent(actor, "session.deleted", {
+        id: sessionId,
+        gameId: session.gameId,
       });
       res.status(204).send(); // 204 No Content
     } catch (error) {
@@ -494,33 +517,103 @@ router.delete(
 
 //Endpoints for Tag
 
-// GET /tags - get all tags
-router.get("/tags", async (req: Request, res: Response, next: NextFunction) => {
+// GET /tags - get all tags with their game counts (?group= for one group)
+router.get("/tags", isAuthenticated, canView, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const shelfId = req.shelf.id;
+  const group = readString(req.query, "group");
   try {
     const tags = await prisma.tag.findMany({
-      include: { games: true },
+      where: { shelfId, ...(group ? { group: group.toLowerCase() } : {}) },
+      select: {
+        id: true,
+        title: true,
+        color: true,
+        group: true,
+        _count: { select: { games: { where: { deletedAt: null } } } },
+      },
+      orderBy: [{ group: { sort: "asc", nulls: "last" } }, { title: "asc" }],
     });
-    res.status(200).json(tags);
+    res.status(200).json(
+      tags.map(({ _count, ...tag }) => ({ ...tag, gameCount: _count.games }))
+    );
   } catch (error) {
     next(error);
   }
 });
 
+// POST /tags - create a tag
+router.post(
+  "/tags",
+  isAuthenticated,
+  canEdit,
+  validateBody(createTagSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const actor = actorOf(req);
+      const tag = await createTag(actor, req.body);
+      publishEvent(actor, "tag.created", tag);
+      res.status(201).json(tag);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /tags/merge - merge tags into one, moving their games over
+router.post(
+  "/tags/merge",
+  isAuthenticated,
+  canEdit,
+  validateBody(mergeTagsSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { sourceTagIds, targetTagId } = req.body;
+
+    try {
+      const actor = actorOf(req);
+      const tag = await mergeTags(actor, sourceTagIds, targetTagId);
+      publishEvent(actor, "tag.merged", { tag, sourceTagIds });
+      res.status(200).json(tag);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /tags/:tagId - rename a tag or change its color or group
+router.put(
+  "/tags/:tagId",
+  isAuthenticated,
+  canEdit,
+  validateBody(updateTagSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { tagId } = req.params;
+
+    try {
+      const actor = actorOf(req);
+      const updatedTag = await updateTag(actor, tagId, req.body);
+      publishEvent(actor, "tag.updated", updatedTag);
+      res.status(200).json(updatedTag);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // DELETE /tags/:tagId - delete a tag by id
 router.delete(
   "/tags/:tagId",
   isAuthenticated,
-  async (req: Request, res: Response, next: NextFunction) => {
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { tagId } = req.params;
 
     try {
-      await prisma.tag.delete({
-        where: { id: tagId },
-      });
+      const actor = actorOf(req);
+      await deleteTag(actor, tagId);
+      publishEvent(actor, "tag.deleted", { id: tagId });
       res.status(204).send();
     } catch (err) {
-      console.log("Error deleting a session", err);
-      res.status(500).json({ message: "Error deleting a session" });
+      next(err);
     }
   }
 );
@@ -531,17 +624,15 @@ router.delete(
 router.post(
   "/players",
   isAuthenticated,
-  async (req: Request, res: Response, next: NextFunction) => {
+  canEdit,
+  validateBody(playerSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { name } = req.body;
 
-    if (!name) {
-      return res.status(400).json({ error: "Name is required" });
-    }
-
     try {
-      const player = await prisma.player.create({
-        data: { name },
-      });
+      const actor = actorOf(req);
+      const player = await createPlayer(actor, name);
+      publishEvent(actor, "player.created", player);
       res.status(201).json(player);
     } catch (error) {
       next(error);
@@ -552,10 +643,19 @@ router.post(
 // GET /players - get all players
 router.get(
   "/players",
-  async (req: Request, res: Response, next: NextFunction) => {
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
     try {
       const players = await prisma.player.findMany({
-        include: { sessions: true },
+        where: { shelfId, deletedAt: null },
+        include: {
+          sessions: {
+            where: { session: { deletedAt: null, game: { deletedAt: null } } },
+          },
+          aliases: { orderBy: { alias: "asc" } },
+        },
       });
       res.status(200).json(players);
     } catch (error) {
@@ -564,23 +664,133 @@ router.get(
   }
 );
 
+// GET /players/me - get the player linked to the current user, with their statistics and sessions
+router.get(
+  "/players/me",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
+
+    try {
+      const player = await prisma.player.findFirst({
+        where: { shelfId, userId: req.payload.id, deletedAt: null },
+        include: { aliases: { orderBy: { alias: "asc" } } },
+      });
+
+      if (!player) {
+        throw new NotFoundError("No player is linked to your account");
+      }
+
+      const stats = await getPlayerStats(player.id);
+      const sessions = await prisma.session.findMany({
+        where: {
+          deletedAt: null,
+          game: { deletedAt: null },
+          players: { some: { playerId: player.id } },
+        },
+        include: sessionInclude,
+        orderBy: { date: "desc" },
+      });
+      res.status(200).json({ player, ...stats, sessions });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /players/merge - merge duplicate players into one, moving their sessions over
+router.post(
+  "/players/merge",
+  isAuthenticated,
+  canEdit,
+  validateBody(mergePlayersSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { sourcePlayerIds, targetPlayerId } = req.body;
+
+    try {
+      const actor = actorOf(req);
+      const player = await mergePlayers(actor, sourcePlayerIds, targetPlayerId);
+      publishEvent(actor, "player.merged", { player, sourcePlayerIds });
+      res.status(200).json(player);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /players/:playerId/stats - get play statistics for a player
+router.get(
+  "/players/:playerId/stats",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { playerId } = req.params;
+    const shelfId = req.shelf.id;
+
+    try {
+      const player = await prisma.player.findFirst({
+        where: { id: playerId, shelfId, deletedAt: null },
+      });
+
+      if (!player) {
+        throw new NotFoundError("Player not found");
+      }
+
+      const stats = await getPlayerStats(playerId);
+      res.status(200).json({ player, ...stats });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /players/:playerAId/vs/:playerBId - get head-to-head history of two players
+router.get(
+  "/players/:playerAId/vs/:playerBId",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { playerAId, playerBId } = req.params;
+    const shelfId = req.shelf.id;
+
+    if (playerAId === playerBId) {
+      return next(new BadRequestError("Choose two different players"));
+    }
+
+    try {
+      const players = await prisma.player.findMany({
+        where: { id: { in: [playerAId, playerBId] }, shelfId, deletedAt: null },
+      });
+
+      const playerA = players.find((player) => player.id === playerAId);
+      const playerB = players.find((player) => player.id === playerBId);
+      if (!playerA || !playerB) {
+        throw new NotFoundError("Player not found");
+      }
+
+      const headToHead = await getHeadToHead(playerAId, playerBId);
+      res.status(200).json({ playerA, playerB, ...headToHead });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // PUT /players/:playerId - update a player
 router.put(
   "/players/:playerId",
   isAuthenticated,
-  async (req: Request, res: Response, next: NextFunction) => {
+  canEdit,
+  validateBody(playerSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { playerId } = req.params;
     const { name } = req.body;
 
-    if (!name) {
-      return res.status(400).json({ error: "Name is required" });
-    }
-
     try {
-      const updatedPlayer = await prisma.player.update({
-        where: { id: playerId },
-        data: { name },
-      });
+      const actor = actorOf(req);
+      const updatedPlayer = await updatePlayer(actor, playerId, name);
+      publishEvent(actor, "player.updated", updatedPlayer);
       res.status(200).json(updatedPlayer);
     } catch (error) {
       next(error);
@@ -588,17 +798,59 @@ router.put(
   }
 );
 
-// DELETE /players/:playerId - delete a player
+// DELETE /players/:playerId - move a player to the trash
 router.delete(
   "/players/:playerId",
   isAuthenticated,
-  async (req: Request, res: Response, next: NextFunction) => {
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { playerId } = req.params;
 
     try {
-      await prisma.player.delete({
-        where: { id: playerId },
-      });
+      const actor = actorOf(req);
+      await trashPlayer(actor, playerId);
+      publishEvent(actor, "player.deleted", { id: playerId });
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /players/:playerId/aliases - add another name the player is logged under
+router.post(
+  "/players/:playerId/aliases",
+  isAuthenticated,
+  canEdit,
+  validateBody(playerAliasSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { playerId } = req.params;
+    const actor = actorOf(req);
+
+    try {
+      const playerAlias = await addPlayerAlias(actor, playerId, req.body.alias);
+      const player = await findShelfPlayer(playerId, actor.shelfId);
+      publishEvent(actor, "player.updated", player);
+      res.status(201).json(playerAlias);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /players/:playerId/aliases/:aliasId - remove an alias of a player
+router.delete(
+  "/players/:playerId/aliases/:aliasId",
+  isAuthenticated,
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { playerId, aliasId } = req.params;
+    const actor = actorOf(req);
+
+    try {
+      await removePlayerAlias(actor, playerId, aliasId);
+      const player = await findShelfPlayer(playerId, actor.shelfId);
+      publishEvent(actor, "player.updated", player);
       res.status(204).send();
     } catch (error) {
       next(error);
@@ -606,34 +858,41 @@ router.delete(
   }
 );
 
+// PUT /players/:playerId/user - link a player to the account of a shelf member, or unlink it with null
+router.put(
+  "/players/:playerId/user",
+  isAuthenticated,
+  canEdit,
+  validateBody(linkPlayerUserSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { playerId } = req.params;
+    const actor = actorOf(req);
+
+    try {
+      const updatedPlayer = await linkPlayerUser(actor, playerId, req.body.userId);
+      publishEvent(actor, "player.updated", updatedPlayer);
+      res.status(200).json(updatedPlayer);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 //Endpoints for File
 
 // POST /games/:gameId/files - create a new file for a game
 router.post(
   "/games/:gameId/files",
   isAuthenticated,
-  async (req: Request, res: Response, next: NextFunction) => {
+  canEdit,
+  validateBody(createFileSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { gameId } = req.params;
-    const { title, link } = req.body;
-
-    if (!title || !link) {
-      return res.status(400).json({ error: "Title and link are required" });
-    }
 
     try {
-      const game = await prisma.game.findUnique({ where: { id: gameId } });
-      if (!game) {
-        return res.status(404).json({ error: "Game not found" });
-      }
-
-      const file = await prisma.file.create({
-        data: {
-          title,
-          link,
-          game: { connect: { id: gameId } },
-        },
-      });
-
+      const actor = actorOf(req);
+      const file = await createFile(actor, gameId, req.body);
+      publishEvent(actor, "file.created", file);
       res.status(201).json(file);
     } catch (error) {
       next(error);
@@ -644,10 +903,18 @@ router.post(
 // GET /games/:gameId/files - get all files for a game
 router.get(
   "/games/:gameId/files",
-  async (req: Request, res: Response, next: NextFunction) => {
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { gameId } = req.params;
+    const shelfId = req.shelf.id;
 
     try {
+      const game = await findShelfGame(gameId, shelfId);
+      if (!game) {
+        throw new NotFoundError("Game not found");
+      }
+
       const files = await prisma.file.findMany({
         where: { gameId },
       });
@@ -663,13 +930,14 @@ router.get(
 router.delete(
   "/files/:fileId",
   isAuthenticated,
-  async (req: Request, res: Response, next: NextFunction) => {
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const { fileId } = req.params;
 
     try {
-      await prisma.file.delete({
-        where: { id: fileId },
-      });
+      const actor = actorOf(req);
+      const file = await deleteFile(actor, fileId);
+      publishEvent(actor, "file.deleted", { id: fileId, gameId: file.gameId });
       res.status(204).send();
     } catch (error) {
       next(error);
@@ -680,46 +948,31 @@ router.delete(
 // How many rounds should bcrypt run the salt (default - 10 rounds)
 const saltRounds = 10;
 
-// POST /auth/signup  - Creates a new user in the database
-router.post("/signup", async (req: Request, res: Response, next: NextFunction) => {
+// POST /signup - Creates a new user in the database
+router.post("/signup", validateBody(signupSchema), async (req: Request, res: Response, next: NextFunction) => {
   const { email, password } = req.body;
 
-  // Check if email or password are provided as empty strings
-  if (email === "" || password === "") {
-    res.status(400).json({ message: "Provide email and password" });
-    return;
-  }
-
-  // This regular expression check that the email is of a valid format
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
-  if (!emailRegex.test(email)) {
-    res.status(400).json({ message: "Provide a valid email address." });
-    return;
-  }
-
-  // This regular expression checks password for special characters and minimum length
-  const passwordRegex = /(?=.*\d)(?=.*[a-z])(?=.*[A-Z]).{6,}/;
-  if (!passwordRegex.test(password)) {
-    res.status(400).json({
-      message:
-        "Password must have at least 6 characters and contain at least one number, one lowercase and one uppercase letter.",
-    });
-    return;
-  }
-
   // Check the users collection if a user with the same email already exists
   try {
     const foundUser = await prisma.user.findFirst({ where: { email } });
     
     if (foundUser) {
-      res.status(400).json({ message: "User already exists." });
-      return;
+      throw new ConflictError("User already exists.");
     }
 
     const salt = bcrypt.genSaltSync(saltRounds);
     const hashedPassword = bcrypt.hashSync(password, salt);
 
-    const createdUser = await prisma.user.create({ data: { email, password: hashedPassword } });
+    // Every user starts with a personal shelf they own
+    const createdUser = await prisma.user.create({
+      data: {
+        email,
+        password: hashedPassword,
+        shelves: {
+          create: { role: "owner", shelf: { create: { name: "My shelf" } } },
+        },
+      },
+    });
     
     const { email: userEmail, id } = createdUser;
     const user = { email: userEmail, id };
@@ -729,51 +982,67 @@ router.post("/signup", async (req: Request, res: Response, next: NextFunction) =
   }
 });
 
-// // POST  /auth/login - Verifies email and password and returns a JWT
-router.post("/login", async (req, res, next) => {
+// POST /login - Verifies email and password and returns a JWT
+router.post("/login", validateBody(loginSchema), async (req, res, next) => {
   const { email, password } = req.body;
 
-  if (email === "" || password === "") {
-    res.status(400).json({ message: "Provide email and password." });
-    return;
-  }
-
   try {
     const foundUser = await prisma.user.findFirst({ where: { email } });
     if (!foundUser) {
-      res.status(401).json({ message: "User not found." });
-      return;
+      throw new UnauthorizedError("User not found.");
     }
 
     // Compare the provided password with the one saved in the database
     const passwordCorrect = bcrypt.compareSync(password, foundUser.password);
 
     if (passwordCorrect) {
-      const { id, email, password } = foundUser;
-      const payload = { id, email, password };
-
-      // Create a JSON Web Token and sign it
-      const authToken = jwt.sign(payload, process.env.TOKEN_SECRET, {
-        algorithm: "HS256",
-        expiresIn: "6h",
-      });
+      // Start a login session with a short-lived JWT and a refresh token
+      const tokens = await createAuthSession(foundUser);
 
-      // Send the token as the response
-      res.status(200).json({ authToken: authToken });
+      // Send the tokens as the response
+      res.status(200).json(tokens);
     } else {
-      res.status(401).json({ message: "Unable to authenticate the user" });
+      throw new UnauthorizedError("Unable to authenticate the user");
     }
   } catch (err) {
     next(err);
   }
 });
 
-// GET  /auth/verify  -  Used to verify JWT stored on the client
+// POST /refresh - Exchanges a refresh token for a new access and refresh token
+router.post("/refresh", validateBody(refreshTokenSchema), async (req, res, next) => {
+  try {
+    const tokens = await rotateRefreshToken(req.body.refreshToken);
+    res.status(200).json(tokens);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /logout - Revokes the current login session
+router.post("/logout", isAuthenticated, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    await revokeSession(req.payload.sid);
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /logout-all - Revokes every login session of the user (log out all devices)
+router.post("/logout-all", isAuthenticated, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    await revokeAllSessions(req.payload.id);
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /verify - Used to verify JWT stored on the client
 router.get("/verify", isAuthenticated, (req : AuthenticatedRequest, res : Response, next : NextFunction) => {
   // If JWT token is valid the payload gets decoded by the
   // isAuthenticated middleware and is made available on `req.payload`
-  console.log(`req.payload`, req.payload);
-
   res.status(200).json(req.payload);
 });
 
@@ -0,0 +1,271 @@
+import express, { Response, NextFunction } from "express";
+import prisma from "../db";
+import isAuthenticated, {
+  AuthenticatedRequest,
+} from "../middleware/isAuthenticated";
+import { canEdit, canView } from "../middleware/shelfAccess";
+import validateBody from "../middleware/validateBody";
+import {
+  createLoanSchema,
+  extendLoanSchema,
+  returnLoanSchema,
+} from "../schemas/loans";
+import { publishEvent } from "../services/events";
+import { actorOf } from "../services/history";
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../error-handling/errors";
+
+const router = express.Router();
+
+// Relations returned with every loan
+const loanInclude = {
+  game: { select: { id: true, title: true, coverImage: true } },
+  player: true,
+};
+
+// Helper function to find a loan of a game on the shelf
+async function findShelfLoan(loanId: string, shelfId: string) {
+  return prisma.loan.findFirst({
+    where: { id: loanId, game: { shelfId, deletedAt: null } },
+  });
+}
+
+// GET /loans - get loans on the shelf (?active=true for games that are still out)
+router.get(
+  "/loans",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
+    const active = req.query.active === "true";
+
+    try {
+      const loans = await prisma.loan.findMany({
+        where: {
+          game: { shelfId, deletedAt: null },
+          ...(active ? { returnedAt: null } : {}),
+        },
+        include: loanInclude,
+        orderBy: { lentAt: "desc" },
+      });
+      res.status(200).json(loans);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /loans/overdue - get loans that are past their due date
+router.get(
+  "/loans/overdue",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
+
+    try {
+      const loans = await prisma.loan.findMany({
+        where: {
+          game: { shelfId, deletedAt: null },
+          returnedAt: null,
+          dueAt: { lt: new Date() },
+        },
+        include: loanInclude,
+        orderBy: { dueAt: "asc" },
+      });
+      res.status(200).json(loans);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /games/:gameId/loans - get the lending history of a game
+router.get(
+  "/games/:gameId/loans",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { gameId } = req.params;
+    const shelfId = req.shelf.id;
+
+    try {
+      const game = await prisma.game.findFirst({
+        where: { id: gameId, shelfId, deletedAt: null },
+      });
+
+      if (!game) {
+        throw new NotFoundError("Game not found");
+      }
+
+      const loans = await prisma.loan.findMany({
+        where: { gameId },
+        include: { player: true },
+        orderBy: { lentAt: "desc" },
+      });
+      res.status(200).json(loans);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /games/:gameId/loans - lend a game
+router.post(
+  "/games/:gameId/loans",
+  isAuthenticated,
+  canEdit,
+  validateBody(createLoanSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { gameId } = req.params;
+    const { playerId, borrowerName, lentAt, dueAt, notes } = req.body;
+    const shelfId = req.shelf.id;
+
+    try {
+      const game = await prisma.game.findFirst({
+        where: { id: gameId, shelfId, deletedAt: null },
+      });
+
+      if (!game) {
+        throw new NotFoundError("Game not found");
+      }
+
+      if (!game.isOwned) {
+        throw new BadRequestError("Only owned games can be lent");
+      }
+
+      let player = null;
+      if (playerId) {
+        player = await prisma.player.findFirst({
+          where: { id: playerId, shelfId, deletedAt: null },
+        });
+        if (!player) {
+          throw new ValidationError("Invalid request body", [
+            { field: "playerId", message: "Player not found" },
+          ]);
+        }
+      }
+
+      // Locking the game row makes a concurrent loan of the same game wait until this
+      // transaction ends, so it sees this loan and the game can't be lent twice
+      const loan = await prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT "id" FROM "Game" WHERE "id" = ${gameId} FOR UPDATE`;
+
+        const activeLoan = await tx.loan.findFirst({
+          where: { gameId, returnedAt: null },
+        });
+        if (activeLoan) {
+          throw new ConflictError(
+            `Game is already lent to ${activeLoan.borrowerName}`
+          );
+        }
+
+        return tx.loan.create({
+          data: {
+            gameId,
+            playerId: player?.id ?? null,
+            borrowerName: player?.name ?? borrowerName,
+            lentAt,
+            dueAt: dueAt ?? null,
+            notes: notes ?? null,
+          },
+          include: loanInclude,
+        });
+      });
+
+      publishEvent(actorOf(req), "loan.created", loan);
+      res.status(201).json(loan);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /loans/:loanId/return - mark a lent game as returned
+router.post(
+  "/loans/:loanId/return",
+  isAuthenticated,
+  canEdit,
+  validateBody(returnLoanSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { loanId } = req.params;
+    const { returnedAt } = req.body;
+    const shelfId = req.shelf.id;
+
+    try {
+      const loan = await findShelfLoan(loanId, shelfId);
+
+      if (!loan) {
+        throw new NotFoundError("Loan not found");
+      }
+
+      if (loan.returnedAt) {
+        throw new BadRequestError("Game was already returned");
+      }
+
+      const date = returnedAt ?? new Date();
+      if (date < loan.lentAt) {
+        throw new ValidationError("Invalid request body", [
+          { field: "returnedAt", message: "Must not be before lentAt" },
+        ]);
+      }
+
+      const updatedLoan = await prisma.loan.update({
+        where: { id: loanId },
+        data: { returnedAt: date },
+        include: loanInclude,
+      });
+      publishEvent(actorOf(req), "loan.updated", updatedLoan);
+      res.status(200).json(updatedLoan);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /loans/:loanId/extend - move the due date of a loan
+router.post(
+  "/loans/:loanId/extend",
+  isAuthenticated,
+  canEdit,
+  validateBody(extendLoanSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { loanId } = req.params;
+    const { dueAt } = req.body;
+    const shelfId = req.shelf.id;
+
+    try {
+      const loan = await findShelfLoan(loanId, shelfId);
+
+      if (!loan) {
+        throw new NotFoundError("Loan not found");
+      }
+
+      if (loan.returnedAt) {
+        throw new BadRequestError("Game was already returned");
+      }
+
+      if (dueAt <= loan.lentAt) {
+        throw new ValidationError("Invalid request body", [
+          { field: "dueAt", message: "Must be after lentAt" },
+        ]);
+      }
+
+      const updatedLoan = await prisma.loan.update({
+        where: { id: loanId },
+        data: { dueAt },
+        include: loanInclude,
+      });
+      publishEvent(actorOf(req), "loan.updated", updatedLoan);
+      res.status(200).json(updatedLoan);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
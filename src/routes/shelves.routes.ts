@@ -0,0 +1,345 @@
+import express, { Response, NextFunction } from "express";
+import crypto from "crypto";
+import prisma from "../db";
+import isAuthenticated, {
+  AuthenticatedRequest,
+} from "../middleware/isAuthenticated";
+import { canView, isShelfOwner } from "../middleware/shelfAccess";
+import validateBody from "../middleware/validateBody";
+import {
+  acceptInvitationSchema,
+  createInvitationSchema,
+  memberRoleSchema,
+  shelfSchema,
+} from "../schemas/shelves";
+import { hashToken } from "../services/auth";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from "../error-handling/errors";
+
+const router = express.Router();
+
+// How long an invitation token can be accepted
+const INVITATION_TTL_DAYS = 7;
+
+// Select used whenever members are returned, so password hashes never leave the server
+const memberInclude = {
+  user: { select: { id: true, email: true } },
+};
+
+// Helper function to make sure a shelf keeps at least one owner
+async function isLastOwner(shelfId: string, userId: string) {
+  const owners = await prisma.shelfMember.findMany({
+    where: { shelfId, role: "owner" },
+  });
+  return owners.length === 1 && owners[0].userId === userId;
+}
+
+// GET /shelves - get the shelves the user is a member of
+router.get(
+  "/shelves",
+  isAuthenticated,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const userId = req.payload.id;
+
+    try {
+      const memberships = await prisma.shelfMember.findMany({
+        where: { userId },
+        include: {
+          shelf: {
+            include: {
+              _count: {
+                select: {
+                  games: { where: { deletedAt: null } },
+                  members: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: "asc" },
+      });
+
+      res.status(200).json(
+        memberships.map(({ shelf, role }) => ({ ...shelf, role }))
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /shelves - create a shelf owned by the user
+router.post(
+  "/shelves",
+  isAuthenticated,
+  validateBody(shelfSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const userId = req.payload.id;
+    const { name, trashRetentionDays } = req.body;
+
+    try {
+      const shelf = await prisma.shelf.create({
+        data: {
+          name,
+          trashRetentionDays,
+          members: { create: { userId, role: "owner" } },
+        },
+      });
+      res.status(201).json({ ...shelf, role: "owner" });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /shelves/:shelfId - rename a shelf or change its trash retention
+router.put(
+  "/shelves/:shelfId",
+  isAuthenticated,
+  isShelfOwner,
+  validateBody(shelfSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { shelfId } = req.params;
+    const { name, trashRetentionDays } = req.body;
+
+    try {
+      const shelf = await prisma.shelf.update({
+        where: { id: shelfId },
+        data: { name, trashRetentionDays },
+      });
+      res.status(200).json(shelf);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /shelves/:shelfId/members - get the members of a shelf
+router.get(
+  "/shelves/:shelfId/members",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { shelfId } = req.params;
+
+    try {
+      const members = await prisma.shelfMember.findMany({
+        where: { shelfId },
+        include: memberInclude,
+        orderBy: { createdAt: "asc" },
+      });
+      res.status(200).json(members);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /shelves/:shelfId/members/:userId - change the role of a member
+router.put(
+  "/shelves/:shelfId/members/:userId",
+  isAuthenticated,
+  isShelfOwner,
+  validateBody(memberRoleSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { shelfId, userId } = req.params;
+    const { role } = req.body;
+
+    try {
+      const member = await prisma.shelfMember.findUnique({
+        where: { shelfId_userId: { shelfId, userId } },
+      });
+
+      if (!member) {
+        throw new NotFoundError("Member not found");
+      }
+
+      if (role !== "owner" && (await isLastOwner(shelfId, userId))) {
+        throw new BadRequestError("A shelf needs at least one owner");
+      }
+
+      const updatedMember = await prisma.shelfMember.update({
+        where: { id: member.id },
+        data: { role },
+        include: memberInclude,
+      });
+      res.status(200).json(updatedMember);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /shelves/:shelfId/members/:userId - remove a member, or leave the shelf
+router.delete(
+  "/shelves/:shelfId/members/:userId",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { shelfId, userId } = req.params;
+
+    try {
+      // Anyone can leave, only owners can remove others
+      if (userId !== req.payload.id && req.shelf.role !== "owner") {
+        throw new ForbiddenError("This action needs the owner role");
+      }
+
+      const member = await prisma.shelfMember.findUnique({
+        where: { shelfId_userId: { shelfId, userId } },
+      });
+
+      if (!member) {
+        throw new NotFoundError("Member not found");
+      }
+
+      if (await isLastOwner(shelfId, userId)) {
+        throw new BadRequestError("A shelf needs at least one owner");
+      }
+
+      await prisma.shelfMember.delete({ where: { id: member.id } });
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /shelves/:shelfId/invitations - invite someone; the token is only returned once
+router.post(
+  "/shelves/:shelfId/invitations",
+  isAuthenticated,
+  isShelfOwner,
+  validateBody(createInvitationSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { shelfId } = req.params;
+    const { email, role } = req.body;
+
+    try {
+      const token = crypto.randomBytes(24).toString("hex");
+      const invitation = await prisma.shelfInvitation.create({
+        data: {
+          shelfId,
+          email: email ? email.toLowerCase() : null,
+          role,
+          tokenHash: hashToken(token),
+          invitedById: req.payload.id,
+          expiresAt: new Date(
+            Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000
+          ),
+        },
+        omit: { tokenHash: true },
+      });
+      res.status(201).json({ ...invitation, token });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /shelves/:shelfId/invitations - get pending invitations
+router.get(
+  "/shelves/:shelfId/invitations",
+  isAuthenticated,
+  isShelfOwner,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { shelfId } = req.params;
+
+    try {
+      const invitations = await prisma.shelfInvitation.findMany({
+        where: { shelfId, acceptedAt: null, expiresAt: { gt: new Date() } },
+        omit: { tokenHash: true },
+        orderBy: { createdAt: "desc" },
+      });
+      res.status(200).json(invitations);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /shelves/:shelfId/invitations/:invitationId - cancel an invitation
+router.delete(
+  "/shelves/:shelfId/invitations/:invitationId",
+  isAuthenticated,
+  isShelfOwner,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { shelfId, invitationId } = req.params;
+
+    try {
+      const invitation = await prisma.shelfInvitation.findFirst({
+        where: { id: invitationId, shelfId },
+      });
+
+      if (!invitation) {
+        throw new NotFoundError("Invitation not found");
+      }
+
+      await prisma.shelfInvitation.delete({ where: { id: invitationId } });
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /invitations/accept - join a shelf with an invitation token
+router.post(
+  "/invitations/accept",
+  isAuthenticated,
+  validateBody(acceptInvitationSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { id: userId, email } = req.payload;
+    const { token } = req.body;
+
+    try {
+      const invitation = await prisma.shelfInvitation.findUnique({
+        where: { tokenHash: hashToken(token) },
+      });
+
+      // Used, expired and other people's invitations look the same as unknown ones
+      if (
+        !invitation ||
+        invitation.acceptedAt ||
+        invitation.expiresAt < new Date() ||
+        (invitation.email && invitation.email !== email.toLowerCase())
+      ) {
+        throw new NotFoundError("Invitation not found");
+      }
+
+      const existingMember = await prisma.shelfMember.findUnique({
+        where: { shelfId_userId: { shelfId: invitation.shelfId, userId } },
+      });
+
+      if (existingMember) {
+        throw new ConflictError("You are already a member of this shelf");
+      }
+
+      const member = await prisma.$transaction(async (tx) => {
+        // Only one of two concurrent requests with the same token can claim the invitation
+        const now = new Date();
+        const { count } = await tx.shelfInvitation.updateMany({
+          where: { id: invitation.id, acceptedAt: null, expiresAt: { gt: now } },
+          data: { acceptedAt: now },
+        });
+        if (count !== 1) {
+          throw new NotFoundError("Invitation not found");
+        }
+
+        return tx.shelfMember.create({
+          data: { shelfId: invitation.shelfId, userId, role: invitation.role },
+          include: { shelf: true },
+        });
+      });
+
+      res.status(201).json(member);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
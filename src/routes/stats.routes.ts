@@ -0,0 +1,50 @@
+import express, { Response, NextFunction } from "express";
+import prisma from "../db";
+import isAuthenticated, {
+  AuthenticatedRequest,
+} from "../middleware/isAuthenticated";
+import { canView } from "../middleware/shelfAccess";
+import { getOverview, parseStatsQuery } from "../services/stats";
+import { NotFoundError, ValidationError } from "../error-handling/errors";
+
+const router = express.Router();
+
+// GET /stats/overview - plays over time, H-index, unplayed games and collection breakdown
+router.get(
+  "/stats/overview",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
+    const { errors, from, until, unplayedMonths, playerId } = parseStatsQuery(
+      req.query
+    );
+
+    if (errors.length > 0) {
+      return next(new ValidationError("Invalid query parameters", errors));
+    }
+
+    try {
+      if (playerId) {
+        const player = await prisma.player.findFirst({
+          where: { id: playerId, shelfId, deletedAt: null },
+        });
+        if (!player) {
+          throw new NotFoundError("Player not found");
+        }
+      }
+
+      const overview = await getOverview(shelfId, {
+        from,
+        until,
+        unplayedMonths,
+        playerId,
+      });
+      res.status(200).json(overview);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
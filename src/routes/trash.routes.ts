@@ -0,0 +1,133 @@
+import express, { Response, NextFunction } from "express";
+import isAuthenticated, {
+  AuthenticatedRequest,
+} from "../middleware/isAuthenticated";
+import { canEdit, canView } from "../middleware/shelfAccess";
+import { publishEvent, ShelfEventType } from "../services/events";
+import { Actor, actorOf } from "../services/history";
+import {
+  emptyTrash,
+  listTrash,
+  purgeFromTrash,
+  restoreFromTrash,
+  TRASH_TYPES,
+  TrashType,
+} from "../services/trash";
+import { ValidationError } from "../error-handling/errors";
+
+const router = express.Router();
+
+// Event prefix of the records of each trash type
+const EVENT_ENTITIES: Record<TrashType, string> = {
+  games: "game",
+  sessions: "session",
+  players: "player",
+};
+
+// Helper function to check the :type route param
+function readTrashType(type: string) {
+  if (!TRASH_TYPES.includes(type as TrashType)) {
+    throw new ValidationError("Invalid route parameters", [
+      { field: "type", message: `Must be one of: ${TRASH_TYPES.join(", ")}` },
+    ]);
+  }
+  return type as TrashType;
+}
+
+// Sessions are sent with their game, like when they are deleted
+function publishPurged(
+  actor: Actor,
+  type: TrashType,
+  record: { id: string; gameId?: string }
+) {
+  const data =
+    type === "sessions" ? { id: record.id, gameId: record.gameId } : { id: record.id };
+  publishEvent(actor, `${EVENT_ENTITIES[type]}.deleted` as ShelfEventType, data);
+}
+
+// GET /trash - get deleted games, sessions and players
+router.get(
+  "/trash",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const trash = await listTrash(req.shelf.id);
+      res.status(200).json(trash);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /trash/:type/:id/restore - move a record out of the trash
+router.post(
+  "/trash/:type/:id/restore",
+  isAuthenticated,
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { type, id } = req.params;
+
+    try {
+      const actor = actorOf(req);
+      const trashType = readTrashType(type);
+      const record = await restoreFromTrash(actor, trashType, id);
+      publishEvent(
+        actor,
+        `${EVENT_ENTITIES[trashType]}.created` as ShelfEventType,
+        record
+      );
+      res.status(200).json(record);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /trash/:type/:id - permanently delete a record in the trash
+router.delete(
+  "/trash/:type/:id",
+  isAuthenticated,
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { type, id } = req.params;
+
+    try {
+      const trashType = readTrashType(type);
+      const record = await purgeFromTrash(req.shelf.id, trashType, id);
+      publishPurged(actorOf(req), trashType, record);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /trash - permanently delete everything in the trash
+router.delete(
+  "/trash",
+  isAuthenticated,
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const actor = actorOf(req);
+      const purged = await emptyTrash(req.shelf.id);
+      for (const type of TRASH_TYPES) {
+        for (const record of purged[type]) {
+          publishPurged(actor, type, record);
+        }
+      }
+      res.status(200).json({
+        purged: {
+          games: purged.games.length,
+          sessions: purged.sessions.length,
+          players: purged.players.length,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,229 @@
+import express, { Response, NextFunction } from "express";
+import path from "path";
+import prisma from "../db";
+import isAuthenticated, {
+  AuthenticatedRequest,
+} from "../middleware/isAuthenticated";
+import { canEdit, canView } from "../middleware/shelfAccess";
+import validateBody from "../middleware/validateBody";
+import uploadSingle, {
+  ATTACHMENT_TYPES,
+  EXTENSIONS,
+  IMAGE_TYPES,
+} from "../middleware/upload";
+import { uploadFileSchema } from "../schemas/files";
+import {
+  newStorageKey,
+  removeBlobs,
+  storage,
+} from "../services/storage";
+import { actorOf, recordChange, takeSnapshot } from "../services/history";
+import { publishEvent } from "../services/events";
+import { uploadedCoverPath } from "../services/games";
+import { NotFoundError } from "../error-handling/errors";
+
+const router = express.Router();
+
+// Streams a stored blob; `downloadName` makes browsers save it instead of showing it
+async function sendBlob(
+  res: Response,
+  key: string,
+  mimeType: string,
+  downloadName?: string
+) {
+  const stream = await storage.open(key);
+  if (!stream) {
+    throw new NotFoundError("Stored file is missing");
+  }
+
+  res.type(mimeType);
+  res.setHeader("Cache-Control", "private, max-age=3600");
+  if (downloadName) {
+    res.attachment(downloadName);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    stream.on("error", reject);
+    stream.on("end", resolve);
+    stream.pipe(res);
+  });
+}
+
+// POST /games/:gameId/files/upload - upload a file (multipart field "file", optional "title")
+router.post(
+  "/games/:gameId/files/upload",
+  isAuthenticated,
+  canEdit,
+  uploadSingle("file", ATTACHMENT_TYPES),
+  validateBody(uploadFileSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { gameId } = req.params;
+    const { title } = req.body;
+    const shelfId = req.shelf.id;
+    const upload = req.file;
+
+    try {
+      const game = await prisma.game.findFirst({
+        where: { id: gameId, shelfId, deletedAt: null },
+      });
+
+      if (!game) {
+        throw new NotFoundError("Game not found");
+      }
+
+      const storageKey = newStorageKey(shelfId, EXTENSIONS[upload.mimetype]);
+      await storage.save(storageKey, upload.buffer);
+
+      let file;
+      try {
+        // The link points at the download route, which needs the new id
+        file = await prisma.$transaction(async (tx) => {
+          const created = await tx.file.create({
+            data: {
+              gameId,
+              title: title ?? upload.originalname,
+              link: "",
+              storageKey,
+              mimeType: upload.mimetype,
+              size: upload.size,
+            },
+          });
+          return tx.file.update({
+            where: { id: created.id },
+            data: { link: `/api/files/${created.id}/download` },
+          });
+        });
+      } catch (error) {
+        await removeBlobs([storageKey]);
+        throw error;
+      }
+
+      const actor = actorOf(req);
+      await recordChange(actor, "file", file.id, null);
+      publishEvent(actor, "file.created", file);
+      res.status(201).json(file);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /files/:fileId/download - download an uploaded file, or follow an external link
+router.get(
+  "/files/:fileId/download",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { fileId } = req.params;
+    const shelfId = req.shelf.id;
+
+    try {
+      const file = await prisma.file.findFirst({
+        where: { id: fileId, game: { shelfId, deletedAt: null } },
+      });
+
+      if (!file) {
+        throw new NotFoundError("File not found");
+      }
+
+      if (!file.storageKey) {
+        return res.redirect(file.link);
+      }
+
+      const extension = path.extname(file.storageKey);
+      const downloadName = file.title.endsWith(extension)
+        ? file.title
+        : `${file.title}${extension}`;
+      await sendBlob(res, file.storageKey, file.mimeType, downloadName);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /games/:gameId/cover - upload a cover image (multipart field "file")
+router.put(
+  "/games/:gameId/cover",
+  isAuthenticated,
+  canEdit,
+  uploadSingle("file", IMAGE_TYPES),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { gameId } = req.params;
+    const shelfId = req.shelf.id;
+    const upload = req.file;
+
+    try {
+      const game = await prisma.game.findFirst({
+        where: { id: gameId, shelfId, deletedAt: null },
+      });
+
+      if (!game) {
+        throw new NotFoundError("Game not found");
+      }
+
+      const storageKey = newStorageKey(shelfId, EXTENSIONS[upload.mimetype]);
+      await storage.save(storageKey, upload.buffer);
+
+      const before = await takeSnapshot("game", gameId);
+
+      let updatedGame;
+      try {
+        updatedGame = await prisma.game.update({
+          where: { id: gameId },
+          data: {
+            coverImage: uploadedCoverPath(gameId),
+            coverImageKey: storageKey,
+          },
+        });
+      } catch (error) {
+        await removeBlobs([storageKey]);
+        throw error;
+      }
+
+      const actor = actorOf(req);
+      await recordChange(actor, "game", gameId, before);
+      await removeBlobs([game.coverImageKey]);
+      publishEvent(actor, "game.updated", updatedGame);
+      res.status(200).json(updatedGame);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /games/:gameId/cover - get the uploaded cover image, or follow the cover url
+router.get(
+  "/games/:gameId/cover",
+  isAuthenticated,
+  canView,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { gameId } = req.params;
+    const shelfId = req.shelf.id;
+
+    try {
+      const game = await prisma.game.findFirst({
+        where: { id: gameId, shelfId, deletedAt: null },
+      });
+
+      if (!game) {
+        throw new NotFoundError("Game not found");
+      }
+
+      if (!game.coverImageKey) {
+        // e.g. restored from a backup, which leaves uploaded images out
+        if (game.coverImage === uploadedCoverPath(gameId)) {
+          throw new NotFoundError("Cover image not found");
+        }
+        return res.redirect(game.coverImage);
+      }
+
+      // The key ends in the extension of the image type
+      const extension = path.extname(game.coverImageKey);
+      await sendBlob(res, game.coverImageKey, extension);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
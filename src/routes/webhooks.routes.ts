@@ -0,0 +1,208 @@
+import express, { Response, NextFunction } from "express";
+import prisma from "../db";
+import { WebhookDeliveryStatus } from "../generated/prisma";
+import isAuthenticated, {
+  AuthenticatedRequest,
+} from "../middleware/isAuthenticated";
+import { isShelfOwner } from "../middleware/shelfAccess";
+import validateBody from "../middleware/validateBody";
+import {
+  createWebhookSchema,
+  updateWebhookSchema,
+} from "../schemas/webhooks";
+import { readNumber, readString } from "../services/queryParams";
+import { actorOf } from "../services/history";
+import {
+  sendTestEvent,
+  webhookOmit,
+  webhookUrlError,
+} from "../services/webhooks";
+import { ErrorDetail, NotFoundError, ValidationError } from "../error-handling/errors";
+
+const router = express.Router();
+
+const DELIVERY_STATUSES = Object.values(WebhookDeliveryStatus);
+
+function assertWebhookUrl(url: string) {
+  const message = webhookUrlError(url);
+  if (message) {
+    throw new ValidationError("Invalid request body", [
+      { field: "url", message },
+    ]);
+  }
+}
+
+// Helper function to find a webhook of the shelf
+async function findShelfWebhook(webhookId: string, shelfId: string) {
+  return prisma.webhook.findFirst({
+    where: { id: webhookId, shelfId },
+    omit: webhookOmit,
+  });
+}
+
+// GET /webhooks - get the webhooks of the shelf
+router.get(
+  "/webhooks",
+  isAuthenticated,
+  isShelfOwner,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
+
+    try {
+      const webhooks = await prisma.webhook.findMany({
+        where: { shelfId },
+        omit: webhookOmit,
+        orderBy: { createdAt: "asc" },
+      });
+      res.status(200).json(webhooks);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /webhooks - register a URL that is sent the shelf's events
+router.post(
+  "/webhooks",
+  isAuthenticated,
+  isShelfOwner,
+  validateBody(createWebhookSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { url, events, secret, isActive } = req.body;
+    const shelfId = req.shelf.id;
+
+    try {
+      assertWebhookUrl(url);
+      const webhook = await prisma.webhook.create({
+        data: { shelfId, url, events: events ?? [], secret, isActive },
+        omit: webhookOmit,
+      });
+      res.status(201).json(webhook);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /webhooks/:webhookId - change the URL, events or secret, or turn a webhook on or off
+router.put(
+  "/webhooks/:webhookId",
+  isAuthenticated,
+  isShelfOwner,
+  validateBody(updateWebhookSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { webhookId } = req.params;
+    const shelfId = req.shelf.id;
+
+    try {
+      const webhook = await findShelfWebhook(webhookId, shelfId);
+
+      if (!webhook) {
+        throw new NotFoundError("Webhook not found");
+      }
+
+      if (req.body.url) {
+        assertWebhookUrl(req.body.url);
+      }
+
+      const updatedWebhook = await prisma.webhook.update({
+        where: { id: webhookId },
+        data: req.body,
+        omit: webhookOmit,
+      });
+      res.status(200).json(updatedWebhook);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /webhooks/:webhookId - delete a webhook and its delivery log
+router.delete(
+  "/webhooks/:webhookId",
+  isAuthenticated,
+  isShelfOwner,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { webhookId } = req.params;
+    const shelfId = req.shelf.id;
+
+    try {
+      const { count } = await prisma.webhook.deleteMany({
+        where: { id: webhookId, shelfId },
+      });
+
+      if (count === 0) {
+        throw new NotFoundError("Webhook not found");
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /webhooks/:webhookId/deliveries - delivery log, newest first (?status=failed&limit=50)
+router.get(
+  "/webhooks/:webhookId/deliveries",
+  isAuthenticated,
+  isShelfOwner,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { webhookId } = req.params;
+    const shelfId = req.shelf.id;
+    const errors: ErrorDetail[] = [];
+    const status = readString(req.query, "status");
+    const limit =
+      readNumber(req.query, "limit", errors, { integer: true, min: 1, max: 200 }) ?? 50;
+
+    if (status && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      errors.push({
+        field: "status",
+        message: `Must be one of: ${DELIVERY_STATUSES.join(", ")}`,
+      });
+    }
+
+    if (errors.length > 0) {
+      return next(new ValidationError("Invalid query parameters", errors));
+    }
+
+    try {
+      const webhook = await findShelfWebhook(webhookId, shelfId);
+
+      if (!webhook) {
+        throw new NotFoundError("Webhook not found");
+      }
+
+      const deliveries = await prisma.webhookDelivery.findMany({
+        where: {
+          webhookId,
+          ...(status ? { status: status as WebhookDeliveryStatus } : {}),
+        },
+        orderBy: { createdAt: "desc" },
+        take: limit,
+      });
+      res.status(200).json(deliveries);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /webhooks/:webhookId/test - send a "webhook.test" event right away and return its delivery
+router.post(
+  "/webhooks/:webhookId/test",
+  isAuthenticated,
+  isShelfOwner,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { webhookId } = req.params;
+
+    try {
+      const delivery = await sendTestEvent(actorOf(req), webhookId);
+      res.status(200).json(delivery);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
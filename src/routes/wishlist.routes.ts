@@ -0,0 +1,271 @@
+import express, { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import prisma from "../db";
+import isAuthenticated, {
+  AuthenticatedRequest,
+} from "../middleware/isAuthenticated";
+import { canEdit, isShelfOwner } from "../middleware/shelfAccess";
+import validateBody from "../middleware/validateBody";
+import {
+  reorderWishlistSchema,
+  unclaimWishlistSchema,
+  updateWishlistSchema,
+} from "../schemas/wishlist";
+import { hashToken } from "../services/auth";
+import { actorOf } from "../services/history";
+import { publishEvent } from "../services/events";
+import {
+  dropFromWishlist,
+  findSharedShelf,
+  updateWishlist,
+  wishlistOmit,
+} from "../services/wishlist";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../error-handling/errors";
+
+const router = express.Router();
+
+// PUT /games/:gameId/wishlist - update priority, target price, notes or reason
+router.put(
+  "/games/:gameId/wishlist",
+  isAuthenticated,
+  canEdit,
+  validateBody(updateWishlistSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { gameId } = req.params;
+
+    try {
+      const actor = actorOf(req);
+      const updatedWishlist = await updateWishlist(actor, gameId, req.body);
+      publishEvent(actor, "wishlist.updated", {
+        gameId,
+        wishlist: updatedWishlist,
+      });
+      res.status(200).json(updatedWishlist);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /games/:gameId/dropWishlist - remove game from wishlist without marking it as owned
+router.post(
+  "/games/:gameId/dropWishlist",
+  isAuthenticated,
+  canEdit,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { gameId } = req.params;
+
+    try {
+      const actor = actorOf(req);
+      await dropFromWishlist(actor, gameId);
+      publishEvent(actor, "wishlist.updated", { gameId, wishlist: null });
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /wishlist/order - set the order of the whole wishlist
+router.put(
+  "/wishlist/order",
+  isAuthenticated,
+  canEdit,
+  validateBody(reorderWishlistSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { gameIds } = req.body;
+    const shelfId = req.shelf.id;
+
+    try {
+      const entries = await prisma.wishlist.findMany({
+        where: { game: { shelfId, deletedAt: null } },
+        select: { gameId: true },
+      });
+      const current = new Set(entries.map((entry) => entry.gameId));
+
+      if (
+        gameIds.length !== current.size ||
+        gameIds.some((id: string) => !current.has(id))
+      ) {
+        throw new ValidationError("Invalid request body", [
+          { field: "gameIds", message: "Must list every game on the wishlist" },
+        ]);
+      }
+
+      await prisma.$transaction(
+        gameIds.map((gameId: string, position: number) =>
+          prisma.wishlist.update({ where: { gameId }, data: { position } })
+        )
+      );
+
+      const wishlistGames = await prisma.game.findMany({
+        where: { id: { in: gameIds } },
+        include: { tags: true, wishlist: { omit: wishlistOmit } },
+        orderBy: { wishlist: { position: "asc" } },
+      });
+      publishEvent(actorOf(req), "wishlist.reordered", { gameIds });
+      res.status(200).json(wishlistGames);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /wishlist/share - create the shared wishlist link, replacing an earlier one; the token is only returned once
+router.post(
+  "/wishlist/share",
+  isAuthenticated,
+  isShelfOwner,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
+
+    try {
+      const token = crypto.randomBytes(24).toString("hex");
+      await prisma.shelf.update({
+        where: { id: shelfId },
+        data: { wishlistShareTokenHash: hashToken(token) },
+      });
+      res.status(201).json({ token });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /wishlist/share - turn off the shared wishlist link
+router.delete(
+  "/wishlist/share",
+  isAuthenticated,
+  isShelfOwner,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const shelfId = req.shelf.id;
+
+    try {
+      await prisma.shelf.update({
+        where: { id: shelfId },
+        data: { wishlistShareTokenHash: null },
+      });
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Endpoints for friends with a shared wishlist link; they don't need an account
+
+// GET /shared/wishlists/:token - get a shared wishlist
+router.get(
+  "/shared/wishlists/:token",
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { token } = req.params;
+
+    try {
+      const shelf = await findSharedShelf(token);
+      const entries = await prisma.wishlist.findMany({
+        where: { game: { shelfId: shelf.id, deletedAt: null } },
+        select: {
+          id: true,
+          priority: true,
+          targetPrice: true,
+          notes: true,
+          claimedAt: true,
+          game: {
+            select: {
+              title: true,
+              publisher: true,
+              yearPublished: true,
+              coverImage: true,
+              bggId: true,
+            },
+          },
+        },
+        orderBy: [{ priority: "desc" }, { position: "asc" }],
+      });
+
+      res.status(200).json({
+        shelf: { name: shelf.name },
+        items: entries.map(({ claimedAt, ...entry }) => ({
+          ...entry,
+          isClaimed: Boolean(claimedAt),
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /shared/wishlists/:token/items/:itemId/claim - claim a game as a gift; the claim token is only returned once
+router.post(
+  "/shared/wishlists/:token/items/:itemId/claim",
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { token, itemId } = req.params;
+
+    try {
+      const shelf = await findSharedShelf(token);
+      const claimToken = crypto.randomBytes(24).toString("hex");
+
+      // Only an unclaimed entry is updated, so two friends can't claim the same game
+      const { count } = await prisma.wishlist.updateMany({
+        where: {
+          id: itemId,
+          claimedAt: null,
+          game: { shelfId: shelf.id, deletedAt: null },
+        },
+        data: { claimedAt: new Date(), claimTokenHash: hashToken(claimToken) },
+      });
+
+      if (count === 0) {
+        const entry = await prisma.wishlist.findFirst({
+          where: { id: itemId, game: { shelfId: shelf.id, deletedAt: null } },
+        });
+        if (!entry) {
+          throw new NotFoundError("Wishlist item not found");
+        }
+        throw new ConflictError("Someone already claimed this game");
+      }
+
+      res.status(201).json({ claimToken });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /shared/wishlists/:token/items/:itemId/unclaim - give up a claim with its claim token
+router.post(
+  "/shared/wishlists/:token/items/:itemId/unclaim",
+  validateBody(unclaimWishlistSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { token, itemId } = req.params;
+    const { claimToken } = req.body;
+
+    try {
+      const shelf = await findSharedShelf(token);
+      const { count } = await prisma.wishlist.updateMany({
+        where: {
+          id: itemId,
+          claimTokenHash: hashToken(claimToken),
+          game: { shelfId: shelf.id },
+        },
+        data: { claimedAt: null, claimTokenHash: null },
+      });
+
+      // A wrong claim token looks the same as an unknown item
+      if (count === 0) {
+        throw new NotFoundError("Claim not found");
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
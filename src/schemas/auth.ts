@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+// Checks that the email is of a valid format
+const email = z
+  .string({ error: "Provide email and password" })
+  .regex(/^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/, "Provide a valid email address.");
+
+export const signupSchema = z.strictObject({
+  email,
+  // Checks password for special characters and minimum length
+  password: z
+    .string({ error: "Provide email and password" })
+    .regex(
+      /(?=.*\d)(?=.*[a-z])(?=.*[A-Z]).{6,}/,
+      "Password must have at least 6 characters and contain at least one number, one lowercase and one uppercase letter."
+    ),
+});
+
+export const loginSchema = z.strictObject({
+  email: z.string({ error: "Provide email and password." }).min(1, "Provide email and password."),
+  password: z.string({ error: "Provide email and password." }).min(1, "Provide email and password."),
+});
+
+export const refreshTokenSchema = z.strictObject({
+  refreshToken: z.string({ error: "Provide a refresh token" }).min(1, "Provide a refresh token"),
+});
@@ -0,0 +1,191 @@
+import { z } from "zod";
+import { httpUrl, isoDate, nonEmptyString } from "./common";
+import { gameFields, playerRangeError, playerRangeIsValid } from "./games";
+import { gameNightFields, rsvpStatus } from "./gameNights";
+import { playerSchema } from "./players";
+import { playerResult, sessionFields } from "./sessions";
+import { tagFields } from "./tags";
+import { wishlistFields } from "./wishlist";
+
+// Version 2 added aliases and user links of players, tag colors and groups,
+// loans and game nights. Version 1 backups can still be merged.
+export const BACKUP_VERSION = 2;
+
+const backupPlayer = playerSchema.extend({
+  id: nonEmptyString,
+  aliases: z.array(nonEmptyString).optional(),
+  // The account is only linked again if its user is a member of the shelf
+  userId: nonEmptyString.nullable().optional(),
+});
+
+// Version 1 backups hold only the titles of tags
+const backupTag = z
+  .union([nonEmptyString, z.strictObject(tagFields)])
+  .transform((tag) => (typeof tag === "string" ? { title: tag } : tag));
+
+const backupLoan = z.strictObject({
+  // null when the borrower isn't a player of the backup
+  playerId: nonEmptyString.nullable(),
+  borrowerName: nonEmptyString,
+  lentAt: isoDate,
+  dueAt: isoDate.nullable(),
+  returnedAt: isoDate.nullable(),
+  notes: z.string().nullable(),
+  createdAt: isoDate,
+});
+
+const backupFile = z.strictObject({
+  title: nonEmptyString,
+  link: z.string(),
+  createdAt: isoDate,
+});
+
+const backupWishlist = z.strictObject({
+  ...wishlistFields,
+  // Missing in backups made before wishlists had an order
+  position: z.int().optional(),
+  createdAt: isoDate,
+});
+
+const backupGame = z
+  .strictObject({
+    ...gameFields,
+    id: nonEmptyString,
+    // Uploaded images are not part of a backup, so an uploaded cover is left out as null
+    coverImage: gameFields.coverImage.nullable(),
+    tags: z.array(nonEmptyString),
+    // Missing in backups made before expansions were tracked
+    baseGameId: nonEmptyString.nullable().optional(),
+    createdAt: isoDate,
+    // Only links; backups made before uploads were left out also hold links
+    // to uploaded files, which are skipped
+    files: z
+      .array(backupFile)
+      .transform((files) =>
+        files.filter((file) => httpUrl.safeParse(file.link).success)
+      ),
+    wishlist: backupWishlist.nullable(),
+    loans: z.array(backupLoan).optional(),
+  })
+  .refine(playerRangeIsValid, playerRangeError);
+
+const backupSession = z.strictObject({
+  ...sessionFields,
+  id: nonEmptyString,
+  gameId: nonEmptyString,
+  gameNightId: nonEmptyString.nullable().optional(),
+  createdAt: isoDate,
+  players: z.array(
+    playerResult.omit({ name: true }).extend({ playerId: nonEmptyString })
+  ),
+});
+
+const backupGameNight = z.strictObject({
+  ...gameNightFields,
+  id: nonEmptyString,
+  completedAt: isoDate.nullable(),
+  createdAt: isoDate,
+  invitees: z.array(
+    z.strictObject({
+      playerId: nonEmptyString,
+      status: rsvpStatus,
+      respondedAt: isoDate.nullable(),
+    })
+  ),
+  candidates: z.array(
+    z.strictObject({
+      gameId: nonEmptyString,
+      createdAt: isoDate,
+      votes: z.array(
+        z.strictObject({ playerId: nonEmptyString, createdAt: isoDate })
+      ),
+    })
+  ),
+});
+
+// A whole shelf as written by GET /backup. Players, games, expansions and game nights
+// are referenced by their ids in the backup, which are remapped on restore.
+export const backupSchema = z
+  .strictObject({
+    version: z.literal([1, BACKUP_VERSION], {
+      error: `Must be 1 or ${BACKUP_VERSION}`,
+    }),
+    exportedAt: isoDate,
+    players: z.array(backupPlayer),
+    tags: z.array(backupTag),
+    games: z.array(backupGame),
+    // Missing in version 1 backups
+    gameNights: z.array(backupGameNight).optional(),
+    sessions: z.array(backupSession),
+  })
+  .superRefine((backup, ctx) => {
+    const playerIds = new Set(backup.players.map((player) => player.id));
+    const gameIds = new Set(backup.games.map((game) => game.id));
+    const gameNightIds = new Set(
+      (backup.gameNights ?? []).map((night) => night.id)
+    );
+    const missing = (path: (string | number)[], message: string) =>
+      ctx.addIssue({ code: "custom", path, message });
+    const checkPlayer = (path: (string | number)[], playerId: string) => {
+      if (!playerIds.has(playerId)) {
+        missing(path, "Must reference a player in the backup");
+      }
+    };
+
+    // A base game may come after its expansions, so every game id is collected first
+    backup.games.forEach((game, i) => {
+      if (game.baseGameId && !gameIds.has(game.baseGameId)) {
+        missing(["games", i, "baseGameId"], "Must reference a game in the backup");
+      }
+      game.loans?.forEach((loan, j) => {
+        if (loan.playerId) {
+          checkPlayer(["games", i, "loans", j, "playerId"], loan.playerId);
+        }
+      });
+    });
+
+    backup.gameNights?.forEach((night, i) => {
+      if (night.hostId) {
+        checkPlayer(["gameNights", i, "hostId"], night.hostId);
+      }
+      night.invitees.forEach((invitee, j) => {
+        checkPlayer(["gameNights", i, "invitees", j, "playerId"], invitee.playerId);
+      });
+      night.candidates.forEach((candidate, j) => {
+        if (!gameIds.has(candidate.gameId)) {
+          missing(
+            ["gameNights", i, "candidates", j, "gameId"],
+            "Must reference a game in the backup"
+          );
+        }
+        candidate.votes.forEach((vote, k) => {
+          checkPlayer(
+            ["gameNights", i, "candidates", j, "votes", k, "playerId"],
+            vote.playerId
+          );
+        });
+      });
+    });
+
+    backup.sessions.forEach((session, i) => {
+      if (!gameIds.has(session.gameId)) {
+        missing(["sessions", i, "gameId"], "Must reference a game in the backup");
+      }
+      if (session.expansionIds?.some((id) => !gameIds.has(id))) {
+        missing(["sessions", i, "expansionIds"], "Must reference games in the backup");
+      }
+      if (session.gameNightId && !gameNightIds.has(session.gameNightId)) {
+        missing(
+          ["sessions", i, "gameNightId"],
+          "Must reference a game night in the backup"
+        );
+      }
+      session.players.forEach((result, j) => {
+        checkPlayer(["sessions", i, "players", j, "playerId"], result.playerId);
+      });
+    });
+  });
+
+// The document as it is written, with dates as ISO strings
+export type BackupDocument = z.input<typeof backupSchema>;
+export type Backup = z.output<typeof backupSchema>;
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+// Only http(s) links are stored, so they can be opened from the frontend
+export const httpUrl = z.url({
+  protocol: /^https?$/,
+  error: "Must be an http or https URL",
+});
+
+// Accepts a full ISO timestamp or a plain YYYY-MM-DD date
+export const isoDate = z
+  .union([z.iso.datetime({ offset: true }), z.iso.date()], {
+    error: "Must be an ISO 8601 date",
+  })
+  .transform((value) => new Date(value));
+
+export const nonEmptyString = z.string().trim().min(1, "Is required");
@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { httpUrl, nonEmptyString } from "./common";
+
+export const createFileSchema = z.strictObject({
+  title: nonEmptyString,
+  link: httpUrl,
+});
+
+// Text fields sent along with a multipart file upload
+export const uploadFileSchema = z.strictObject({
+  title: nonEmptyString.optional(),
+});
+
+export type CreateFileInput = z.infer<typeof createFileSchema>;
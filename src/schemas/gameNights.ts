@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { isoDate, nonEmptyString } from "./common";
+import { createSessionSchema } from "./sessions";
+
+const uniqueIds = z
+  .array(nonEmptyString)
+  .refine((ids) => new Set(ids).size === ids.length, "Each id can only be listed once");
+
+export const gameNightFields = {
+  title: z.string().trim().nullable().optional(),
+  date: isoDate,
+  location: z.string().trim().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  hostId: nonEmptyString.nullable().optional(),
+};
+
+export const createGameNightSchema = z.strictObject({
+  ...gameNightFields,
+  playerIds: uniqueIds.optional(),
+  gameIds: uniqueIds.optional(),
+});
+
+export const updateGameNightSchema = z.strictObject(gameNightFields).partial();
+
+export const inviteesSchema = z.strictObject({
+  playerIds: uniqueIds.min(1, "Is required"),
+});
+
+export const rsvpStatus = z.enum(["pending", "yes", "maybe", "no"], {
+  error: "Must be pending, yes, maybe or no",
+});
+
+export const rsvpSchema = z.strictObject({
+  status: rsvpStatus,
+});
+
+export const candidateSchema = z.strictObject({
+  gameId: nonEmptyString,
+});
+
+export const voteSchema = z.strictObject({
+  playerId: nonEmptyString,
+});
+
+// One session per game played; the date is the game night's and players
+// default to everyone who said yes
+export const completeGameNightSchema = z.strictObject({
+  sessions: z
+    .array(createSessionSchema.omit({ date: true }).extend({ gameId: nonEmptyString }))
+    .min(1, "Is required"),
+});
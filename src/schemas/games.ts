@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { httpUrl, nonEmptyString } from "./common";
+
+const tagInput = z.strictObject({ title: nonEmptyString });
+
+// What PUT /games/:gameId/cover stores as the cover of an uploaded image
+export const UPLOADED_COVER_PATH = /^\/api\/games\/[^/]+\/cover$/;
+
+// The uploaded cover path is accepted so a game can be sent back as it was read
+const coverImage = z
+  .string()
+  .refine(
+    (value) => UPLOADED_COVER_PATH.test(value) || httpUrl.safeParse(value).success,
+    "Must be an http or https URL"
+  );
+
+export const gameFields = {
+  title: nonEmptyString,
+  description: z.string().nullable().optional(),
+  genre: nonEmptyString,
+  minPlayers: z.int().min(1),
+  maxPlayers: z.int().min(1),
+  playTime: z.int().min(1),
+  publisher: nonEmptyString,
+  age: nonEmptyString,
+  rating: z.number().min(0).max(10),
+  myRating: z.int().min(0).max(10).nullable().optional(),
+  coverImage,
+  isOwned: z.boolean(),
+  yearPublished: z.int().nullable().optional(),
+  bggId: z.int().positive().nullable().optional(),
+  tags: z.array(tagInput).optional(),
+  // Makes the game an expansion of another game on the shelf
+  baseGameId: nonEmptyString.nullable().optional(),
+};
+
+export function playerRangeIsValid(game: { minPlayers?: number; maxPlayers?: number }) {
+  return (
+    game.minPlayers === undefined ||
+    game.maxPlayers === undefined ||
+    game.minPlayers <= game.maxPlayers
+  );
+}
+
+export const playerRangeError = {
+  message: "Must not exceed maxPlayers",
+  path: ["minPlayers"],
+};
+
+export const createGameSchema = z
+  .strictObject(gameFields)
+  .refine(playerRangeIsValid, playerRangeError);
+
+// Updates may send any subset of the fields
+export const updateGameSchema = z
+  .strictObject(gameFields)
+  .partial()
+  .refine(playerRangeIsValid, playerRangeError);
+
+export type CreateGameInput = z.infer<typeof createGameSchema>;
+export type UpdateGameInput = z.infer<typeof updateGameSchema>;
+
+// Query parameters of GET /games/, shared by its parser and the OpenAPI document
+export const GAME_SORT_FIELDS = [
+  "title",
+  "rating",
+  "myRating",
+  "plays",
+  "createdAt",
+  "lastPlayed",
+] as const;
+
+// How GET /games/ lists expansions: as games of their own, not at all, or under their base game
+export const EXPANSION_MODES = ["include", "hide", "group"] as const;
+
+export const MAX_GAME_LIMIT = 100;
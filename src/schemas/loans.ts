@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { isoDate, nonEmptyString } from "./common";
+
+// The borrower is either a player of the shelf or just a name
+export const createLoanSchema = z
+  .strictObject({
+    playerId: nonEmptyString.optional(),
+    borrowerName: nonEmptyString.optional(),
+    lentAt: isoDate.optional(),
+    dueAt: isoDate.nullable().optional(),
+    notes: z.string().nullable().optional(),
+  })
+  .refine((loan) => Boolean(loan.playerId) !== Boolean(loan.borrowerName), {
+    message: "Provide either playerId or borrowerName",
+    path: ["borrowerName"],
+  })
+  .refine((loan) => !loan.dueAt || loan.dueAt > (loan.lentAt ?? new Date()), {
+    message: "Must be after lentAt",
+    path: ["dueAt"],
+  });
+
+export const returnLoanSchema = z.strictObject({
+  returnedAt: isoDate.optional(),
+});
+
+export const extendLoanSchema = z.strictObject({
+  dueAt: isoDate,
+});
@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { nonEmptyString } from "./common";
+
+export const playerSchema = z.strictObject({
+  name: nonEmptyString,
+});
+
+export const playerAliasSchema = z.strictObject({
+  alias: nonEmptyString,
+});
+
+// Moves everything the source players took part in to the target and deletes the sources
+export const mergePlayersSchema = z
+  .strictObject({
+    sourcePlayerIds: z
+      .array(nonEmptyString)
+      .min(1, "Is required")
+      .refine(
+        (ids) => new Set(ids).size === ids.length,
+        "Each player can only be listed once"
+      ),
+    targetPlayerId: nonEmptyString,
+  })
+  .refine((merge) => !merge.sourcePlayerIds.includes(merge.targetPlayerId), {
+    message: "Must not be one of sourcePlayerIds",
+    path: ["targetPlayerId"],
+  });
+
+// null unlinks the player from its account
+export const linkPlayerUserSchema = z.strictObject({
+  userId: nonEmptyString.nullable(),
+});
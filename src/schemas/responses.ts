@@ -0,0 +1,275 @@
+import { z } from "zod";
+
+// Response bodies of the REST routes, as they look once serialized to JSON:
+// dates are ISO strings and decimals are strings. Used for the OpenAPI document
+// and by the response validation mode, so extra fields are allowed but missing
+// or retyped ones are reported.
+
+const timestamp = z.iso.datetime();
+
+export const errorResponse = z.object({
+  code: z.string(),
+  message: z.string(),
+  details: z
+    .array(z.object({ field: z.string(), message: z.string() }))
+    .optional(),
+});
+
+export const messageResponse = z.object({ message: z.string() });
+
+export const tagResponse = z.object({
+  id: z.string(),
+  title: z.string(),
+  normalizedTitle: z.string(),
+  color: z.string().nullable(),
+  group: z.string().nullable(),
+  shelfId: z.string(),
+});
+
+export const tagListResponse = z.array(
+  z.object({
+    id: z.string(),
+    title: z.string(),
+    color: z.string().nullable(),
+    group: z.string().nullable(),
+    gameCount: z.int(),
+  })
+);
+
+export const gameResponse = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().nullable(),
+  genre: z.string(),
+  minPlayers: z.int(),
+  maxPlayers: z.int(),
+  playTime: z.int(),
+  publisher: z.string(),
+  age: z.string(),
+  rating: z.number(),
+  myRating: z.int().nullable(),
+  coverImage: z.string(),
+  isOwned: z.boolean(),
+  yearPublished: z.int().nullable(),
+  bggId: z.int().nullable(),
+  baseGameId: z.string().nullable(),
+  shelfId: z.string(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  lastPlayedAt: timestamp.nullable(),
+  playCount: z.int(),
+});
+
+export const wishlistResponse = z.object({
+  id: z.string(),
+  gameId: z.string(),
+  reason: z.string().nullable(),
+  priority: z.enum(["low", "medium", "high"]),
+  position: z.int(),
+  targetPrice: z.string().nullable(),
+  notes: z.string().nullable(),
+  claimedAt: timestamp.nullable(),
+  createdAt: timestamp,
+});
+
+export const playerResponse = z.object({
+  id: z.string(),
+  name: z.string(),
+  normalizedName: z.string(),
+  userId: z.string().nullable(),
+  shelfId: z.string(),
+});
+
+export const playerAliasResponse = z.object({
+  id: z.string(),
+  playerId: z.string(),
+  alias: z.string(),
+  createdAt: timestamp,
+});
+
+const loanStatus = {
+  isLentOut: z.boolean(),
+  currentLoan: z
+    .object({
+      id: z.string(),
+      borrowerName: z.string(),
+      lentAt: timestamp,
+      dueAt: timestamp.nullable(),
+    })
+    .nullable(),
+};
+
+const gameSummary = z.object({ id: z.string(), title: z.string() });
+
+const effectiveRange = z.object({
+  minPlayers: z.int(),
+  maxPlayers: z.int(),
+  playTime: z.int(),
+});
+
+const playCount = z.object({ _count: z.object({ sessions: z.int() }) });
+
+export const gameListResponse = z.object({
+  games: z.array(
+    gameResponse.extend({
+      ...loanStatus,
+      tags: z.array(tagResponse),
+      baseGame: gameSummary.nullable(),
+      _count: playCount.shape._count,
+      // Only with ?expansions=group
+      expansions: z.array(gameResponse).optional(),
+      effectiveRange: effectiveRange.optional(),
+    })
+  ),
+  total: z.int(),
+  nextCursor: z.string().nullable(),
+});
+
+export const gameDetailResponse = gameResponse.extend({
+  ...loanStatus,
+  tags: z.array(tagResponse),
+  wishlist: wishlistResponse.nullable(),
+  baseGame: gameSummary.nullable(),
+  expansions: z.array(gameResponse),
+  effectiveRange,
+});
+
+export const wishlistGamesResponse = z.array(
+  gameResponse.extend({
+    tags: z.array(tagResponse),
+    wishlist: wishlistResponse,
+    _count: playCount.shape._count,
+  })
+);
+
+export const topGamesResponse = z.array(
+  gameResponse.extend({
+    tags: z.array(tagResponse),
+    _count: playCount.shape._count,
+  })
+);
+
+export const recommendationsResponse = z.array(
+  z.object({
+    game: gameResponse,
+    effectiveRange,
+    score: z.number(),
+    explanation: z.string(),
+  })
+);
+
+export const sessionResponse = z.object({
+  id: z.string(),
+  date: timestamp,
+  notes: z.string().nullable(),
+  gameId: z.string(),
+  createdAt: timestamp,
+  isCooperative: z.boolean(),
+  cooperativeWin: z.boolean().nullable(),
+  gameNightId: z.string().nullable(),
+  players: z.array(
+    z.object({
+      id: z.string(),
+      playerId: z.string(),
+      score: z.number().nullable(),
+      position: z.int().nullable(),
+      isWinner: z.boolean(),
+      team: z.string().nullable(),
+      player: playerResponse,
+    })
+  ),
+  expansions: z.array(gameSummary),
+});
+
+export const sessionWithGameResponse = sessionResponse.extend({
+  game: gameResponse,
+});
+
+export const playerListResponse = z.array(
+  playerResponse.extend({
+    sessions: z.array(z.object({ sessionId: z.string() })),
+    aliases: z.array(playerAliasResponse),
+  })
+);
+
+const playerStats = {
+  totalPlays: z.int(),
+  distinctGames: z.int(),
+  lastPlayed: timestamp.nullable(),
+  mostPlayedGames: z.array(
+    z.object({
+      gameId: z.string(),
+      title: z.string(),
+      plays: z.int(),
+      wins: z.int(),
+      lastPlayed: timestamp,
+    })
+  ),
+  streaks: z.object({ unit: z.literal("week") }),
+  wins: z.int(),
+  playsWithResults: z.int(),
+  winRate: z.number().nullable(),
+};
+
+export const playerStatsResponse = z.object({
+  player: playerResponse,
+  ...playerStats,
+});
+
+export const myPlayerResponse = z.object({
+  player: playerResponse.extend({ aliases: z.array(playerAliasResponse) }),
+  ...playerStats,
+  sessions: z.array(sessionWithGameResponse),
+});
+
+export const mergedPlayerResponse = playerResponse.extend({
+  aliases: z.array(playerAliasResponse),
+});
+
+export const headToHeadResponse = z.object({
+  playerA: playerResponse,
+  playerB: playerResponse,
+  sessionsTogether: z.int(),
+  playerAWins: z.int(),
+  playerBWins: z.int(),
+  ties: z.int(),
+  undecided: z.int(),
+  history: z.array(
+    z.object({ winner: z.enum(["playerA", "playerB", "tie"]).nullable() })
+  ),
+});
+
+export const fileResponse = z.object({
+  id: z.string(),
+  title: z.string(),
+  link: z.string(),
+  mimeType: z.string().nullable(),
+  size: z.int().nullable(),
+  gameId: z.string(),
+  createdAt: timestamp,
+});
+
+export const addedWishlistResponse = wishlistResponse.extend({
+  game: gameResponse,
+});
+
+export const signupResponse = z.object({
+  user: z.object({ id: z.string(), email: z.string() }),
+});
+
+export const tokensResponse = z.object({
+  authToken: z.string(),
+  refreshToken: z.string(),
+});
+
+export const tokenPayloadResponse = z.object({
+  id: z.string(),
+  email: z.string(),
+  sid: z.string(),
+});
+
+export const healthResponse = z.object({
+  status: z.enum(["healthy", "unhealthy"]),
+  timestamp,
+  database: z.enum(["connected", "disconnected"]),
+});
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { isoDate, nonEmptyString } from "./common";
+
+export const playerResult = z.strictObject({
+  name: nonEmptyString,
+  score: z.number().nullable().optional(),
+  position: z.int().min(1).nullable().optional(),
+  isWinner: z.boolean().optional(),
+  team: z.string().trim().nullable().optional(),
+});
+
+export const sessionFields = {
+  date: isoDate,
+  notes: z.string().nullable().optional(),
+  isCooperative: z.boolean().optional(),
+  cooperativeWin: z.boolean().nullable().optional(),
+  players: z
+    .array(playerResult)
+    .refine(
+      (players) =>
+        new Set(players.map((player) => player.name.toLowerCase())).size ===
+        players.length,
+      "Each player can only be listed once"
+    )
+    .optional(),
+  // Expansions of the session's game that were played
+  expansionIds: z
+    .array(nonEmptyString)
+    .refine(
+      (ids) => new Set(ids).size === ids.length,
+      "Each expansion can only be listed once"
+    )
+    .optional(),
+};
+
+export const createSessionSchema = z.strictObject(sessionFields);
+
+export const updateSessionSchema = z.strictObject(sessionFields).partial();
+
+export type PlayerResultInput = z.infer<typeof playerResult>;
+export type CreateSessionInput = z.infer<typeof createSessionSchema>;
+export type UpdateSessionInput = z.infer<typeof updateSessionSchema>;
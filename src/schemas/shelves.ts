@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { nonEmptyString } from "./common";
+
+const role = z.enum(["owner", "editor", "viewer"], {
+  error: "Must be owner, editor or viewer",
+});
+
+export const shelfSchema = z.strictObject({
+  name: nonEmptyString,
+  // Days deleted records stay in the trash, null keeps them until purged by hand
+  trashRetentionDays: z.int().min(1).max(3650).nullable().optional(),
+});
+
+export const memberRoleSchema = z.strictObject({
+  role,
+});
+
+export const createInvitationSchema = z.strictObject({
+  // Leave empty to create a link anyone with an account can accept
+  email: z.email({ error: "Must be an email address" }).nullable().optional(),
+  role,
+});
+
+export const acceptInvitationSchema = z.strictObject({
+  token: nonEmptyString,
+});
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { nonEmptyString } from "./common";
+
+export const tagFields = {
+  title: nonEmptyString,
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "Must be a hex color such as #3a7bd5")
+    .nullable()
+    .optional(),
+  // Stored lowercased so "Mechanic" and "mechanic" are one group
+  group: nonEmptyString.toLowerCase().nullable().optional(),
+};
+
+export const createTagSchema = z.strictObject(tagFields);
+
+export const updateTagSchema = z.strictObject(tagFields).partial();
+
+// Moves the games of the source tags to the target tag and deletes the sources
+export const mergeTagsSchema = z
+  .strictObject({
+    sourceTagIds: z
+      .array(nonEmptyString)
+      .min(1, "Is required")
+      .refine(
+        (ids) => new Set(ids).size === ids.length,
+        "Each tag can only be listed once"
+      ),
+    targetTagId: nonEmptyString,
+  })
+  .refine((merge) => !merge.sourceTagIds.includes(merge.targetTagId), {
+    message: "Must not be one of sourceTagIds",
+    path: ["targetTagId"],
+  });
+
+export type CreateTagInput = z.infer<typeof createTagSchema>;
+export type UpdateTagInput = z.infer<typeof updateTagSchema>;
@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { httpUrl } from "./common";
+import { SHELF_EVENT_TYPES } from "../services/events";
+
+const webhookFields = {
+  url: httpUrl,
+  // Leaving it out or empty sends every event
+  events: z
+    .array(
+      z.enum(SHELF_EVENT_TYPES, {
+        error: `Must be one of ${SHELF_EVENT_TYPES.join(", ")}`,
+      })
+    )
+    .refine(
+      (events) => new Set(events).size === events.length,
+      "Each event can only be listed once"
+    )
+    .optional(),
+  secret: z.string().min(16, "Must be at least 16 characters"),
+  isActive: z.boolean().optional(),
+};
+
+export const createWebhookSchema = z.strictObject(webhookFields);
+
+export const updateWebhookSchema = z.strictObject(webhookFields).partial();
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { nonEmptyString } from "./common";
+
+export const wishlistFields = {
+  reason: z.string().trim().nullable().optional(),
+  priority: z
+    .enum(["low", "medium", "high"], { error: "Must be low, medium or high" })
+    .optional(),
+  targetPrice: z
+    .number()
+    .min(0)
+    .max(99999999.99)
+    .multipleOf(0.01, "Must have at most two decimals")
+    .nullable()
+    .optional(),
+  notes: z.string().trim().nullable().optional(),
+};
+
+export const addWishlistSchema = z.strictObject(wishlistFields);
+
+export const updateWishlistSchema = z.strictObject(wishlistFields);
+
+// The whole wishlist in its new order
+export const reorderWishlistSchema = z.strictObject({
+  gameIds: z
+    .array(nonEmptyString)
+    .refine(
+      (ids) => new Set(ids).size === ids.length,
+      "Each game can only be listed once"
+    ),
+});
+
+export const unclaimWishlistSchema = z.strictObject({
+  claimToken: nonEmptyString,
+});
+
+export type WishlistInput = z.infer<typeof addWishlistSchema>;
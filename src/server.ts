@@ -1,4 +1,6 @@
 import app from "./app";
+import { purgeExpiredTrash } from "./services/trash";
+import { startWebhookWorker } from "./services/webhooks";
 
 // ℹ️ Sets the PORT for our app to have access to it. If no env has been set, we hard code it to 5005
 const PORT = process.env.PORT || 5005;
@@ -6,3 +8,22 @@ const PORT = process.env.PORT || 5005;
 app.listen(PORT, () => {
   console.log(`Server listening on http://localhost:${PORT}`);
 });
+
+// Purges trash past each shelf's retention on start and then every hour
+const TRASH_PURGE_INTERVAL = 60 * 60 * 1000;
+
+function purgeTrash() {
+  purgeExpiredTrash()
+    .then((purged) => {
+      if (purged > 0) {
+        console.log(`Purged ${purged} expired records from the trash`);
+      }
+    })
+    .catch((error) => console.error("Trash purge failed:", error));
+}
+
+purgeTrash();
+setInterval(purgeTrash, TRASH_PURGE_INTERVAL).unref();
+
+// Sends queued webhook deliveries, including the ones left pending before a restart
+startWebhookWorker();
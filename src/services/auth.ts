@@ -0,0 +1,121 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import prisma from "../db";
+import { UnauthorizedError } from "../error-handling/errors";
+
+// Access tokens are short-lived; refresh tokens keep the login alive
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || "15m";
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+export function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function signAccessToken(user: { id: string; email: string }, sessionId: string) {
+  const payload = { id: user.id, email: user.email, sid: sessionId };
+  return jwt.sign(payload, process.env.TOKEN_SECRET, {
+    algorithm: "HS256",
+    expiresIn: ACCESS_TOKEN_TTL as jwt.SignOptions["expiresIn"],
+  });
+}
+
+function newRefreshToken() {
+  const token = crypto.randomBytes(32).toString("hex");
+  return {
+    token,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+  };
+}
+
+// Starts a new login session and returns its first pair of tokens
+export async function createAuthSession(user: { id: string; email: string }) {
+  const refresh = newRefreshToken();
+  const session = await prisma.authSession.create({
+    data: {
+      userId: user.id,
+      refreshTokens: {
+        create: { tokenHash: refresh.tokenHash, expiresAt: refresh.expiresAt },
+      },
+    },
+  });
+
+  return {
+    authToken: signAccessToken(user, session.id),
+    refreshToken: refresh.token,
+  };
+}
+
+// Exchanges a refresh token for a new pair. Presenting a token that was already
+// exchanged means it was stolen or replayed, so the whole session is revoked.
+export async function rotateRefreshToken(token: string) {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { session: { include: { user: true } } },
+  });
+
+  if (!stored || stored.session.revokedAt) {
+    throw new UnauthorizedError("Invalid refresh token");
+  }
+
+  if (stored.usedAt) {
+    await revokeSession(stored.sessionId);
+    throw new UnauthorizedError("Refresh token reuse detected");
+  }
+
+  if (stored.expiresAt < new Date()) {
+    throw new UnauthorizedError("Refresh token expired");
+  }
+
+  const refresh = newRefreshToken();
+  const rotated = await prisma.$transaction(async (tx) => {
+    // Only one of two concurrent requests with the same token can mark it used
+    const { count } = await tx.refreshToken.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (count === 0) {
+      return false;
+    }
+    await tx.refreshToken.create({
+      data: {
+        sessionId: stored.sessionId,
+        tokenHash: refresh.tokenHash,
+        expiresAt: refresh.expiresAt,
+      },
+    });
+    return true;
+  });
+
+  if (!rotated) {
+    await revokeSession(stored.sessionId);
+    throw new UnauthorizedError("Refresh token reuse detected");
+  }
+
+  return {
+    authToken: signAccessToken(stored.session.user, stored.sessionId),
+    refreshToken: refresh.token,
+  };
+}
+
+export async function revokeSession(sessionId: string) {
+  await prisma.authSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+// Logs the user out on every device
+export async function revokeAllSessions(userId: string) {
+  await prisma.authSession.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+export async function isSessionActive(sessionId: string, userId: string) {
+  const session = await prisma.authSession.findFirst({
+    where: { id: sessionId, userId, revokedAt: null },
+  });
+  return Boolean(session);
+}
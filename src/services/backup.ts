@@ -0,0 +1,878 @@
+import prisma from "../db";
+import { removeBlobs } from "./storage";
+import { findPlayerByName, normalizePlayerName } from "./players";
+import { normalizeTagTitle } from "./tags";
+import { nextWishlistPosition } from "./wishlist";
+import { uploadedCoverPath } from "./games";
+import {
+  Actor,
+  RecordedChange,
+  recordChange,
+  Snapshot,
+  takeSnapshot,
+} from "./history";
+import { BadRequestError, ConflictError } from "../error-handling/errors";
+import {
+  Backup,
+  BACKUP_VERSION,
+  BackupDocument,
+} from "../schemas/backup";
+import { UPLOADED_COVER_PATH } from "../schemas/games";
+
+// Rows are read and written in batches so large shelves don't sit in memory at once
+const BATCH_SIZE = 100;
+
+type BackupGame = BackupDocument["games"][number];
+type BackupGameNight = NonNullable<BackupDocument["gameNights"]>[number];
+type BackupSession = BackupDocument["sessions"][number];
+
+export type RestoreMode = "merge" | "replace";
+
+type Write = (chunk: string) => void;
+
+// Reads a table batch by batch, ordered by id
+async function eachBatch<T extends { id: string }>(
+  load: (args: { take: number; cursor?: { id: string }; skip?: number }) => Promise<T[]>,
+  handle: (rows: T[]) => void
+) {
+  let cursor: string | undefined;
+  for (;;) {
+    const rows = await load({
+      take: BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (rows.length === 0) {
+      return;
+    }
+    handle(rows);
+    if (rows.length < BATCH_SIZE) {
+      return;
+    }
+    cursor = rows[rows.length - 1].id;
+  }
+}
+
+// Writes the whole shelf as one JSON document
+export async function writeBackup(shelfId: string, write: Write) {
+  // Records in the trash are left out
+  const players = await prisma.player.findMany({
+    where: { shelfId, deletedAt: null },
+    select: {
+      id: true,
+      name: true,
+      userId: true,
+      aliases: { select: { alias: true }, orderBy: { alias: "asc" } },
+    },
+    orderBy: { name: "asc" },
+  });
+  const tags = await prisma.tag.findMany({
+    where: { shelfId },
+    select: { title: true, color: true, group: true },
+    orderBy: { title: "asc" },
+  });
+
+  write(`{"version":${BACKUP_VERSION},"exportedAt":${JSON.stringify(new Date())}`);
+  write(
+    `,"players":${JSON.stringify(
+      players.map((player) => ({
+        ...player,
+        aliases: player.aliases.map(({ alias }) => alias),
+      }))
+    )}`
+  );
+  write(`,"tags":${JSON.stringify(tags)}`);
+
+  write(`,"games":[`);
+  let first = true;
+  await eachBatch(
+    (page) =>
+      prisma.game.findMany({
+        ...page,
+        where: { shelfId, deletedAt: null },
+        orderBy: { id: "asc" },
+        include: {
+          tags: true,
+          files: { where: { storageKey: null } },
+          wishlist: true,
+          baseGame: { select: { deletedAt: true } },
+          loans: {
+            orderBy: { lentAt: "asc" },
+            include: { player: { select: { deletedAt: true } } },
+          },
+        },
+      }),
+    (games) => {
+      for (const game of games) {
+        const entry: BackupGame = {
+          id: game.id,
+          title: game.title,
+          description: game.description,
+          genre: game.genre,
+          minPlayers: game.minPlayers,
+          maxPlayers: game.maxPlayers,
+          playTime: game.playTime,
+          publisher: game.publisher,
+          age: game.age,
+          rating: game.rating,
+          myRating: game.myRating,
+          coverImage: game.coverImageKey ? null : game.coverImage,
+          isOwned: game.isOwned,
+          yearPublished: game.yearPublished,
+          bggId: game.bggId,
+          // A base game in the trash is not exported, so its expansions are exported standalone
+          baseGameId: game.baseGame?.deletedAt ? null : game.baseGameId,
+          createdAt: game.createdAt.toISOString(),
+          tags: game.tags.map((tag) => tag.title),
+          files: game.files.map(({ title, link, createdAt }) => ({
+            title,
+            link,
+            createdAt: createdAt.toISOString(),
+          })),
+          wishlist: game.wishlist
+            ? {
+                reason: game.wishlist.reason,
+                priority: game.wishlist.priority,
+                position: game.wishlist.position,
+                targetPrice: game.wishlist.targetPrice?.toNumber() ?? null,
+                notes: game.wishlist.notes,
+                createdAt: game.wishlist.createdAt.toISOString(),
+              }
+            : null,
+          loans: game.loans.map((loan) => ({
+            // Players in the trash are not exported, so only the borrower's name is kept
+            playerId: loan.player?.deletedAt ? null : loan.playerId,
+            borrowerName: loan.borrowerName,
+            lentAt: loan.lentAt.toISOString(),
+            dueAt: loan.dueAt?.toISOString() ?? null,
+            returnedAt: loan.returnedAt?.toISOString() ?? null,
+            notes: loan.notes,
+            createdAt: loan.createdAt.toISOString(),
+          })),
+        };
+        write((first ? "" : ",") + JSON.stringify(entry));
+        first = false;
+      }
+    }
+  );
+
+  write(`],"gameNights":[`);
+  first = true;
+  await eachBatch(
+    (page) =>
+      prisma.gameNight.findMany({
+        ...page,
+        where: { shelfId },
+        orderBy: { id: "asc" },
+        include: {
+          host: { select: { deletedAt: true } },
+          invitees: { where: { player: { deletedAt: null } } },
+          candidates: {
+            where: { game: { deletedAt: null } },
+            include: { votes: { where: { player: { deletedAt: null } } } },
+          },
+        },
+      }),
+    (nights) => {
+      for (const night of nights) {
+        const entry: BackupGameNight = {
+          id: night.id,
+          title: night.title,
+          date: night.date.toISOString(),
+          location: night.location,
+          notes: night.notes,
+          hostId: night.host?.deletedAt ? null : night.hostId,
+          completedAt: night.completedAt?.toISOString() ?? null,
+          createdAt: night.createdAt.toISOString(),
+          invitees: night.invitees.map(({ playerId, status, respondedAt }) => ({
+            playerId,
+            status,
+            respondedAt: respondedAt?.toISOString() ?? null,
+          })),
+          candidates: night.candidates.map(({ gameId, createdAt, votes }) => ({
+            gameId,
+            createdAt: createdAt.toISOString(),
+            votes: votes.map((vote) => ({
+              playerId: vote.playerId,
+              createdAt: vote.createdAt.toISOString(),
+            })),
+          })),
+        };
+        write((first ? "" : ",") + JSON.stringify(entry));
+        first = false;
+      }
+    }
+  );
+
+  write(`],"sessions":[`);
+  first = true;
+  await eachBatch(
+    (page) =>
+      prisma.session.findMany({
+        ...page,
+        where: { deletedAt: null, game: { shelfId, deletedAt: null } },
+        orderBy: { id: "asc" },
+        include: {
+          players: { where: { player: { deletedAt: null } } },
+          expansions: { where: { deletedAt: null }, select: { id: true } },
+        },
+      }),
+    (sessions) => {
+      for (const session of sessions) {
+        const entry: BackupSession = {
+          id: session.id,
+          gameId: session.gameId,
+          gameNightId: session.gameNightId,
+          date: session.date.toISOString(),
+          notes: session.notes,
+          isCooperative: session.isCooperative,
+          cooperativeWin: session.cooperativeWin,
+          createdAt: session.createdAt.toISOString(),
+          expansionIds: session.expansions.map((expansion) => expansion.id),
+          players: session.players.map(
+            ({ playerId, score, position, isWinner, team }) => ({
+              playerId,
+              score,
+              position,
+              isWinner,
+              team,
+            })
+          ),
+        };
+        write((first ? "" : ",") + JSON.stringify(entry));
+        first = false;
+      }
+    }
+  );
+  write("]}");
+}
+
+function csvValue(value: unknown) {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(values: unknown[]) {
+  return values.map(csvValue).join(",") + "\r\n";
+}
+
+// One row per game, tags joined with "; "
+export async function writeGamesCsv(shelfId: string, write: Write) {
+  write(
+    csvRow([
+      "id",
+      "title",
+      "genre",
+      "publisher",
+      "yearPublished",
+      "minPlayers",
+      "maxPlayers",
+      "playTime",
+      "age",
+      "rating",
+      "myRating",
+      "isOwned",
+      "onWishlist",
+      "tags",
+      "plays",
+      "lastPlayedAt",
+      "createdAt",
+    ])
+  );
+  await eachBatch(
+    (page) =>
+      prisma.game.findMany({
+        ...page,
+        where: { shelfId, deletedAt: null },
+        orderBy: { id: "asc" },
+        include: {
+          tags: true,
+          wishlist: true,
+          _count: { select: { sessions: { where: { deletedAt: null } } } },
+        },
+      }),
+    (games) => {
+      for (const game of games) {
+        write(
+          csvRow([
+            game.id,
+            game.title,
+            game.genre,
+            game.publisher,
+            game.yearPublished,
+            game.minPlayers,
+            game.maxPlayers,
+            game.playTime,
+            game.age,
+            game.rating,
+            game.myRating,
+            game.isOwned,
+            Boolean(game.wishlist),
+            game.tags.map((tag) => tag.title).join("; "),
+            game._count.sessions,
+            game.lastPlayedAt,
+            game.createdAt,
+          ])
+        );
+      }
+    }
+  );
+}
+
+// One row per session, players and winners joined with "; "
+export async function writeSessionsCsv(shelfId: string, write: Write) {
+  write(
+    csvRow([
+      "id",
+      "date",
+      "gameId",
+      "game",
+      "players",
+      "scores",
+      "winners",
+      "isCooperative",
+      "cooperativeWin",
+      "notes",
+    ])
+  );
+  await eachBatch(
+    (page) =>
+      prisma.session.findMany({
+        ...page,
+        where: { deletedAt: null, game: { shelfId, deletedAt: null } },
+        orderBy: { id: "asc" },
+        include: { game: true, players: { include: { player: true } } },
+      }),
+    (sessions) => {
+      for (const session of sessions) {
+        write(
+          csvRow([
+            session.id,
+            session.date,
+            session.gameId,
+            session.game.title,
+            session.players.map((result) => result.player.name).join("; "),
+            session.players
+              .filter((result) => result.score !== null)
+              .map((result) => `${result.player.name}: ${result.score}`)
+              .join("; "),
+            session.players
+              .filter((result) => result.isWinner)
+              .map((result) => result.player.name)
+              .join("; "),
+            session.isCooperative,
+            session.cooperativeWin,
+            session.notes,
+          ])
+        );
+      }
+    }
+  );
+}
+
+// Keeps the first of the entries that map to the same record in this database
+function firstOf<T>(entries: T[], key: (entry: T) => string) {
+  return entries.filter(
+    (entry, i) => entries.findIndex((other) => key(other) === key(entry)) === i
+  );
+}
+
+function wishlistData(wishlist: NonNullable<Backup["games"][number]["wishlist"]>) {
+  return {
+    reason: wishlist.reason ?? null,
+    priority: wishlist.priority,
+    targetPrice: wishlist.targetPrice ?? null,
+    notes: wishlist.notes ?? null,
+  };
+}
+
+// Imports a parsed backup in one transaction; "replace" wipes the shelf first,
+// "merge" reuses players, tags and games (by BGG id or title) that already exist.
+// A replace needs a backup that holds everything it wipes, so it takes only the
+// current version and an empty trash, and deletes uploads only with deleteUploads.
+// Everything created or changed is recorded in the history. Returns the result and
+// the changes, those of the wipe included.
+export async function restoreBackup(
+  actor: Actor,
+  document: Backup,
+  mode: RestoreMode,
+  options: { deleteUploads?: boolean } = {}
+) {
+  const { shelfId } = actor;
+
+  // Uploaded blobs of replaced files, removed once the restore is committed
+  let replacedBlobs: string[] = [];
+  const changes: RecordedChange[] = [];
+  const record = async (...args: Parameters<typeof recordChange>) => {
+    const change = await recordChange(...args);
+    if (change) {
+      changes.push(change);
+    }
+  };
+
+  const result = await prisma.$transaction(
+    async (tx) => {
+      // Gift claims of the replaced wishlist, by the game id the backup knows it under
+      const keptClaims = new Map<
+        string,
+        { claimedAt: Date | null; claimTokenHash: string | null }
+      >();
+
+      if (mode === "replace") {
+        if (document.version !== BACKUP_VERSION) {
+          throw new BadRequestError(
+            `A version ${document.version} backup doesn't hold loans, aliases ` +
+              "or game nights, so it can only be merged"
+          );
+        }
+        const trashed = await Promise.all([
+          tx.game.count({ where: { shelfId, deletedAt: { not: null } } }),
+          tx.player.count({ where: { shelfId, deletedAt: { not: null } } }),
+          tx.session.count({
+            where: { game: { shelfId }, deletedAt: { not: null } },
+          }),
+        ]);
+        if (trashed.some((count) => count > 0)) {
+          throw new ConflictError(
+            "Restore or purge the trash first, a backup doesn't hold it"
+          );
+        }
+
+        // Gift claims are kept out of backups, so they are carried over to the restored entries
+        const claims = await tx.wishlist.findMany({
+          where: { game: { shelfId }, claimedAt: { not: null } },
+          select: { gameId: true, claimedAt: true, claimTokenHash: true },
+        });
+        for (const { gameId, ...claim } of claims) {
+          keptClaims.set(gameId, claim);
+        }
+
+        const replacedFiles = await tx.file.findMany({
+          where: { game: { shelfId }, storageKey: { not: null } },
+          select: { storageKey: true },
+        });
+        const replacedCovers = await tx.game.findMany({
+          where: { shelfId, coverImageKey: { not: null } },
+          select: { coverImageKey: true },
+        });
+        replacedBlobs = [
+          ...replacedFiles.map((file) => file.storageKey),
+          ...replacedCovers.map((game) => game.coverImageKey),
+        ];
+        // Uploads are not part of a backup, so they are only deleted when asked to
+        if (replacedBlobs.length > 0 && !options.deleteUploads) {
+          throw new ConflictError(
+            "The shelf has uploaded files or covers a backup doesn't hold; " +
+              "replace it with deleteUploads=true to delete them"
+          );
+        }
+
+        // The wipe is not recorded in the history, but clients are told what is gone.
+        // Sessions, files and wishlist entries go with their game.
+        const [games, players, tags] = await Promise.all([
+          tx.game.findMany({ where: { shelfId, deletedAt: null }, select: { id: true } }),
+          tx.player.findMany({ where: { shelfId, deletedAt: null }, select: { id: true } }),
+          tx.tag.findMany({ where: { shelfId }, select: { id: true } }),
+        ]);
+        for (const [entityType, records] of [
+          ["game", games],
+          ["player", players],
+          ["tag", tags],
+        ] as const) {
+          for (const { id } of records) {
+            changes.push({
+              entityType,
+              entityId: id,
+              action: "delete",
+              gameId: entityType === "game" ? id : null,
+            });
+          }
+        }
+
+        // Loans, aliases and game nights go too and are restored from the backup
+        await tx.gameNight.deleteMany({ where: { shelfId } });
+        await tx.session.deleteMany({ where: { game: { shelfId } } });
+        await tx.file.deleteMany({ where: { game: { shelfId } } });
+        await tx.wishlist.deleteMany({ where: { game: { shelfId } } });
+        await tx.game.deleteMany({ where: { shelfId } });
+        await tx.player.deleteMany({ where: { shelfId } });
+        await tx.tag.deleteMany({ where: { shelfId } });
+      }
+
+      const counts = {
+        games: 0,
+        sessions: 0,
+        players: 0,
+        tags: 0,
+        files: 0,
+        loans: 0,
+        gameNights: 0,
+      };
+
+      // Old player id -> id in this database
+      const playerIds = new Map<string, string>();
+      for (const player of document.players) {
+        let existing = await findPlayerByName(shelfId, player.name, tx);
+        // Names stay taken while a player is in the trash
+        if (existing?.deletedAt) {
+          throw new BadRequestError(
+            `Player ${player.name} is in the trash, restore them first`
+          );
+        }
+        let before: Snapshot | null = null;
+        if (existing) {
+          before = await takeSnapshot("player", existing.id, tx);
+        } else {
+          existing = await tx.player.create({
+            data: {
+              shelfId,
+              name: player.name,
+              normalizedName: normalizePlayerName(player.name),
+            },
+          });
+          counts.players++;
+        }
+
+        for (const alias of player.aliases ?? []) {
+          const owner = await findPlayerByName(shelfId, alias, tx);
+          if (owner && owner.id !== existing.id) {
+            throw new BadRequestError(
+              `Alias ${alias} of ${player.name} is already used by ${owner.name}`
+            );
+          }
+          if (!owner) {
+            await tx.playerAlias.create({
+              data: {
+                playerId: existing.id,
+                shelfId,
+                alias,
+                normalizedAlias: normalizePlayerName(alias),
+              },
+            });
+          }
+        }
+
+        // An account is linked again only if its user is a member and not linked to another player
+        if (player.userId && !existing.userId) {
+          const member = await tx.shelfMember.findUnique({
+            where: { shelfId_userId: { shelfId, userId: player.userId } },
+          });
+          const linked = await tx.player.findUnique({
+            where: { shelfId_userId: { shelfId, userId: player.userId } },
+          });
+          if (member && !linked) {
+            await tx.player.update({
+              where: { id: existing.id },
+              data: { userId: player.userId },
+            });
+          }
+        }
+
+        await record(actor, "player", existing.id, before, { db: tx });
+        playerIds.set(player.id, existing.id);
+      }
+
+      // Tag title -> id in this database
+      const tagIds = new Map<string, string>();
+      const tags = new Map(document.tags.map((tag) => [tag.title, tag]));
+      for (const title of document.games.flatMap((game) => game.tags)) {
+        if (!tags.has(title)) {
+          tags.set(title, { title });
+        }
+      }
+      for (const [title, { color, group }] of tags) {
+        const normalizedTitle = normalizeTagTitle(title);
+        // A merged tag keeps its own color and group
+        let existing = await tx.tag.findUnique({
+          where: { shelfId_normalizedTitle: { shelfId, normalizedTitle } },
+        });
+        if (!existing) {
+          existing = await tx.tag.create({
+            data: {
+              shelfId,
+              title,
+              normalizedTitle,
+              color: color ?? null,
+              group: group ?? null,
+            },
+          });
+          await record(actor, "tag", existing.id, null, { db: tx });
+          counts.tags++;
+        }
+        tagIds.set(title, existing.id);
+      }
+
+      // Old game id -> id in this database
+      const gameIds = new Map<string, string>();
+      // Snapshots of merged games, recorded once their expansions are linked too
+      const gamesBefore = new Map<string, Snapshot | null>();
+      for (const game of document.games) {
+        const {
+          id,
+          tags,
+          files,
+          wishlist,
+          loans = [],
+          createdAt,
+          baseGameId,
+          coverImage,
+          ...fields
+        } = game;
+        // Covers of older backups may still point to an upload that isn't in the backup
+        const cover =
+          coverImage && !UPLOADED_COVER_PATH.test(coverImage) ? coverImage : null;
+        const data = {
+          ...fields,
+          description: fields.description ?? null,
+          myRating: fields.myRating ?? null,
+          yearPublished: fields.yearPublished ?? null,
+          bggId: fields.bggId ?? null,
+        };
+        const tagConnections = tags.map((title) => ({ id: tagIds.get(title) }));
+
+        let existing = null;
+        if (mode === "merge") {
+          existing = await tx.game.findFirst({
+            where: data.bggId !== null
+              ? { shelfId, bggId: data.bggId }
+              : { shelfId, title: data.title, deletedAt: null },
+            include: { files: true, wishlist: true },
+          });
+          // BGG ids stay taken while a game is in the trash
+          if (existing?.deletedAt) {
+            throw new BadRequestError(
+              `Game ${existing.title} is in the trash, restore or purge it first`
+            );
+          }
+        }
+
+        let gameId: string;
+        let newFiles = files;
+        if (existing) {
+          gameId = existing.id;
+          gamesBefore.set(gameId, await takeSnapshot("game", gameId, tx));
+          // A cover left out of the backup keeps the game's current one
+          await tx.game.update({
+            where: { id: gameId },
+            data: {
+              ...data,
+              ...(cover ? { coverImage: cover } : {}),
+              tags: { connect: tagConnections },
+            },
+          });
+          const links = new Set(existing.files.map((file) => file.link));
+          newFiles = files.filter((file) => !links.has(file.link));
+        } else {
+          const created = await tx.game.create({
+            data: {
+              ...data,
+              coverImage: cover ?? "",
+              shelfId,
+              createdAt,
+              tags: { connect: tagConnections },
+            },
+          });
+          gameId = created.id;
+          gamesBefore.set(gameId, null);
+          // The uploaded cover isn't in the backup; the cover route answers 404 until a new one is uploaded
+          if (!cover) {
+            await tx.game.update({
+              where: { id: gameId },
+              data: { coverImage: uploadedCoverPath(gameId) },
+            });
+          }
+          counts.games++;
+        }
+
+        for (const file of newFiles) {
+          const createdFile = await tx.file.create({
+            data: {
+              gameId,
+              title: file.title,
+              link: file.link,
+              createdAt: existing ? undefined : file.createdAt,
+            },
+          });
+          await record(actor, "file", createdFile.id, null, { db: tx });
+          counts.files++;
+        }
+
+        if (wishlist && !existing?.wishlist) {
+          await tx.wishlist.create({
+            data: {
+              ...wishlistData(wishlist),
+              gameId,
+              // A merged wishlist entry goes after the ones already there
+              position:
+                mode === "replace" && wishlist.position !== undefined
+                  ? wishlist.position
+                  : await nextWishlistPosition(shelfId, tx),
+              createdAt: existing ? undefined : wishlist.createdAt,
+              ...keptClaims.get(id),
+            },
+          });
+          await record(actor, "wishlist", gameId, null, { db: tx });
+        }
+
+        for (const loan of loans) {
+          // A loan the merged game already has is kept once, and a game is only lent out once at a time
+          if (existing) {
+            const duplicate = await tx.loan.findFirst({
+              where: {
+                gameId,
+                OR: [
+                  { lentAt: loan.lentAt, borrowerName: loan.borrowerName },
+                  ...(loan.returnedAt ? [] : [{ returnedAt: null }]),
+                ],
+              },
+            });
+            if (duplicate) {
+              continue;
+            }
+          }
+          await tx.loan.create({
+            data: {
+              ...loan,
+              gameId,
+              playerId: loan.playerId ? playerIds.get(loan.playerId) : null,
+            },
+          });
+          counts.loans++;
+        }
+        gameIds.set(id, gameId);
+      }
+
+      // Expansions are linked once every game has its new id
+      for (const game of document.games) {
+        if (game.baseGameId) {
+          await tx.game.update({
+            where: { id: gameIds.get(game.id) },
+            data: { baseGameId: gameIds.get(game.baseGameId) },
+          });
+        }
+      }
+      for (const [gameId, before] of gamesBefore) {
+        await record(actor, "game", gameId, before, { db: tx });
+      }
+
+      // Old game night id -> id in this database
+      const gameNightIds = new Map<string, string>();
+      for (const night of document.gameNights ?? []) {
+        const { id, hostId, invitees, candidates, ...fields } = night;
+        const title = fields.title ?? null;
+
+        // The same night restored twice in merge mode is kept once
+        if (mode === "merge") {
+          const duplicate = await tx.gameNight.findFirst({
+            where: { shelfId, date: fields.date, title },
+          });
+          if (duplicate) {
+            gameNightIds.set(id, duplicate.id);
+            continue;
+          }
+        }
+
+        const created = await tx.gameNight.create({
+          data: {
+            ...fields,
+            date: fields.date,
+            title,
+            shelfId,
+            hostId: hostId ? playerIds.get(hostId) : null,
+            invitees: {
+              create: firstOf(invitees, (invitee) =>
+                playerIds.get(invitee.playerId)
+              ).map((invitee) => ({
+                ...invitee,
+                playerId: playerIds.get(invitee.playerId),
+              })),
+            },
+            candidates: {
+              create: firstOf(candidates, (candidate) =>
+                gameIds.get(candidate.gameId)
+              ).map(({ gameId, createdAt, votes }) => ({
+                gameId: gameIds.get(gameId),
+                createdAt,
+                votes: {
+                  create: firstOf(votes, (vote) => playerIds.get(vote.playerId)).map(
+                    (vote) => ({ ...vote, playerId: playerIds.get(vote.playerId) })
+                  ),
+                },
+              })),
+            },
+          },
+        });
+        gameNightIds.set(id, created.id);
+        counts.gameNights++;
+      }
+
+      for (const session of document.sessions) {
+        const gameId = gameIds.get(session.gameId);
+
+        // The same play restored twice in merge mode is kept once
+        if (mode === "merge") {
+          const duplicate = await tx.session.findFirst({
+            where: { gameId, date: session.date, deletedAt: null },
+          });
+          if (duplicate) {
+            continue;
+          }
+        }
+
+        const created = await tx.session.create({
+          data: {
+            gameId,
+            date: session.date,
+            notes: session.notes ?? null,
+            isCooperative: Boolean(session.isCooperative),
+            cooperativeWin: session.cooperativeWin ?? null,
+            gameNightId: session.gameNightId
+              ? gameNightIds.get(session.gameNightId)
+              : null,
+            createdAt: session.createdAt,
+            expansions: {
+              connect: (session.expansionIds ?? []).map((id) => ({
+                id: gameIds.get(id),
+              })),
+            },
+            players: {
+              // Players of the backup that now resolve to one player keep their first result
+              create: firstOf(session.players, (result) =>
+                playerIds.get(result.playerId)
+              ).map((result) => ({
+                  playerId: playerIds.get(result.playerId),
+                  score: result.score ?? null,
+                  position: result.position ?? null,
+                  isWinner: Boolean(result.isWinner),
+                  team: result.team ?? null,
+                })),
+            },
+          },
+        });
+        await record(actor, "session", created.id, null, { db: tx });
+        counts.sessions++;
+      }
+
+      await tx.$executeRaw`
+        UPDATE "Game" g
+        SET "lastPlayedAt" = (
+          SELECT MAX(s."date") FROM "Session" s
+          WHERE s."gameId" = g."id" AND s."deletedAt" IS NULL
+        ),
+        "playCount" = (
+          SELECT COUNT(*) FROM "Session" s
+          WHERE s."gameId" = g."id" AND s."deletedAt" IS NULL
+        )
+        WHERE g."shelfId" = ${shelfId}
+      `;
+
+      return { mode, created: counts };
+    },
+    { timeout: 120000 }
+  );
+
+  await removeBlobs(replacedBlobs);
+  return { result, changes };
+}
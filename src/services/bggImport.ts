@@ -0,0 +1,287 @@
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import prisma from "../db";
+import { nextWishlistPosition } from "./wishlist";
+import { Actor, RecordedChange, recordChange, takeSnapshot } from "./history";
+
+// A BoardGameGeek collection item mapped to Game fields
+interface BggItem {
+  bggId: number;
+  title: string;
+  yearPublished: number | null;
+  minPlayers: number;
+  maxPlayers: number;
+  playTime: number;
+  rating: number;
+  myRating: number | null;
+  coverImage: string;
+  isOwned: boolean;
+  isWishlisted: boolean;
+  wishlistReason: string | null;
+}
+
+// A text element, which the parser turns into an object when it has attributes
+type XmlText = string | { "#text"?: string; sortindex?: string };
+
+// A collection item as read by the parser; attribute values stay strings
+interface BggXmlItem {
+  objectid?: string;
+  name?: XmlText[];
+  yearpublished?: XmlText;
+  image?: XmlText;
+  thumbnail?: XmlText;
+  wishlistcomment?: XmlText;
+  status?: { own?: string; wishlist?: string };
+  stats?: {
+    minplayers?: string;
+    maxplayers?: string;
+    playingtime?: string;
+    maxplaytime?: string;
+    rating?: { value?: string; average?: { value?: string } };
+  };
+}
+
+interface BggXmlDocument {
+  items?: { item?: BggXmlItem[] };
+}
+
+export interface ImportEntry {
+  bggId: number | null;
+  title: string | null;
+  reason?: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  created: ImportEntry[];
+  updated: ImportEntry[];
+  skipped: ImportEntry[];
+}
+
+// Fields a BGG export has no data for get these values on new games
+const DEFAULT_GENRE = "Unknown";
+const DEFAULT_PUBLISHER = "Unknown";
+const DEFAULT_AGE = "Unknown";
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  parseTagValue: false,
+  parseAttributeValue: false,
+  isArray: (name) => name === "item" || name === "name",
+});
+
+function toNumber(value: unknown) {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function text(value: XmlText | undefined): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const content = typeof value === "object" ? value["#text"] : value;
+  return content === undefined ? null : String(content).trim() || null;
+}
+
+// BGG sends protocol-relative image urls
+function imageUrl(value: XmlText | undefined) {
+  const url = text(value);
+  return url && url.startsWith("//") ? `https:${url}` : url;
+}
+
+function mapItem(item: BggXmlItem): BggItem | ImportEntry {
+  const bggId = toNumber(item.objectid);
+  const names = item.name ?? [];
+  const primary =
+    names.find((name) => typeof name === "object" && name.sortindex !== undefined) ??
+    names[0];
+  const title = text(primary);
+
+  if (bggId === null || !title) {
+    return { bggId, title, reason: "Missing BGG id or name" };
+  }
+
+  const status = item.status ?? {};
+  const isOwned = status.own === "1";
+  const isWishlisted = status.wishlist === "1";
+  if (!isOwned && !isWishlisted) {
+    return { bggId, title, reason: "Neither owned nor on the wishlist" };
+  }
+
+  const stats = item.stats;
+  const minPlayers = toNumber(stats?.minplayers);
+  const maxPlayers = toNumber(stats?.maxplayers);
+  // BGG reports 0 when the playing time isn't known
+  const playTime = [stats?.playingtime, stats?.maxplaytime]
+    .map(toNumber)
+    .find((minutes) => minutes !== null && minutes > 0);
+  if (!stats || !minPlayers || !maxPlayers || !playTime) {
+    return {
+      bggId,
+      title,
+      reason: "Missing player count or playing time (export with stats=1)",
+    };
+  }
+
+  const userRating = toNumber(stats.rating?.value);
+  const coverImage = imageUrl(item.image) ?? imageUrl(item.thumbnail);
+  if (!coverImage) {
+    return { bggId, title, reason: "Missing cover image" };
+  }
+
+  return {
+    bggId,
+    title,
+    yearPublished: toNumber(text(item.yearpublished)),
+    minPlayers,
+    maxPlayers: Math.max(minPlayers, maxPlayers),
+    playTime,
+    rating: toNumber(stats.rating?.average?.value) ?? 0,
+    myRating: userRating === null ? null : Math.round(userRating),
+    coverImage,
+    isOwned,
+    isWishlisted: isWishlisted && !isOwned,
+    wishlistReason: text(item.wishlistcomment),
+  };
+}
+
+// Returns null when the document is not a BGG collection export
+export function parseBggCollection(xml: string) {
+  if (typeof xml !== "string" || XMLValidator.validate(xml) !== true) {
+    return null;
+  }
+
+  const document: BggXmlDocument = parser.parse(xml);
+  if (!document?.items) {
+    return null;
+  }
+
+  const items: BggItem[] = [];
+  const invalid: ImportEntry[] = [];
+  for (const item of document.items.item ?? []) {
+    const mapped = mapItem(item);
+    if ("reason" in mapped) {
+      invalid.push(mapped);
+    } else {
+      items.push(mapped as BggItem);
+    }
+  }
+  return { items, invalid };
+}
+
+// Creates or updates the shelf's games by BGG id, recording each change in the history.
+// A dry run only reports what would change. Returns the report and the recorded changes.
+export async function importBggCollection(
+  actor: Actor,
+  collection: { items: BggItem[]; invalid: ImportEntry[] },
+  dryRun: boolean
+): Promise<{ report: ImportReport; changes: RecordedChange[] }> {
+  const { shelfId } = actor;
+  const report: ImportReport = {
+    dryRun,
+    created: [],
+    updated: [],
+    skipped: [...collection.invalid],
+  };
+  const changes: RecordedChange[] = [];
+  const record = async (...args: Parameters<typeof recordChange>) => {
+    const change = await recordChange(...args);
+    if (change) {
+      changes.push(change);
+    }
+  };
+
+  await prisma.$transaction(
+    async (tx) => {
+      const seen = new Set<number>();
+      for (const item of collection.items) {
+        const entry = { bggId: item.bggId, title: item.title };
+        if (seen.has(item.bggId)) {
+          report.skipped.push({ ...entry, reason: "Duplicate item in export" });
+          continue;
+        }
+        seen.add(item.bggId);
+
+        const { isWishlisted, wishlistReason, ...fields } = item;
+        const existing = await tx.game.findFirst({
+          where: { shelfId, bggId: item.bggId },
+          include: { wishlist: true },
+        });
+
+        if (existing?.deletedAt) {
+          report.skipped.push({ ...entry, reason: "In the trash" });
+          continue;
+        }
+
+        if (!existing) {
+          report.created.push(entry);
+          if (!dryRun) {
+            const game = await tx.game.create({
+              data: {
+                ...fields,
+                genre: DEFAULT_GENRE,
+                publisher: DEFAULT_PUBLISHER,
+                age: DEFAULT_AGE,
+                shelfId,
+                wishlist: isWishlisted
+                  ? {
+                      create: {
+                        reason: wishlistReason,
+                        position: await nextWishlistPosition(shelfId, tx),
+                      },
+                    }
+                  : undefined,
+              },
+            });
+            await record(actor, "game", game.id, null, { db: tx });
+            if (isWishlisted) {
+              await record(actor, "wishlist", game.id, null, { db: tx });
+            }
+          }
+          continue;
+        }
+
+        const changed =
+          (Object.keys(fields) as (keyof typeof fields)[]).some(
+            (key) => existing[key] !== fields[key]
+          ) || Boolean(existing.wishlist) !== isWishlisted;
+        if (!changed) {
+          report.skipped.push({ ...entry, reason: "Unchanged" });
+          continue;
+        }
+
+        report.updated.push(entry);
+        if (!dryRun) {
+          const before = await takeSnapshot("game", existing.id, tx);
+          await tx.game.update({
+            where: { id: existing.id },
+            data: fields,
+          });
+          await record(actor, "game", existing.id, before, { db: tx });
+
+          const wishlistBefore = await takeSnapshot("wishlist", existing.id, tx);
+          if (isWishlisted && !existing.wishlist) {
+            await tx.wishlist.create({
+              data: {
+                gameId: existing.id,
+                reason: wishlistReason,
+                position: await nextWishlistPosition(shelfId, tx),
+              },
+            });
+          } else if (!isWishlisted && existing.wishlist) {
+            await tx.wishlist.delete({ where: { gameId: existing.id } });
+          }
+          await record(actor, "wishlist", existing.id, wishlistBefore, {
+            db: tx,
+          });
+        }
+      }
+    },
+    { timeout: 60000 }
+  );
+
+  return { report, changes };
+}
@@ -0,0 +1,140 @@
+import { HistoryEntity } from "../generated/prisma";
+import prisma from "../db";
+import { Actor, RecordedChange } from "./history";
+import { sessionInclude } from "./sessions";
+import { wishlistOmit } from "./wishlist";
+
+// Changes on a shelf that open clients and webhooks are told about
+export const SHELF_EVENT_TYPES = [
+  "game.created",
+  "game.updated",
+  "game.deleted",
+  "session.created",
+  "session.updated",
+  "session.deleted",
+  "player.created",
+  "player.updated",
+  "player.deleted",
+  "player.merged",
+  "tag.created",
+  "tag.updated",
+  "tag.deleted",
+  "tag.merged",
+  "wishlist.updated",
+  "wishlist.reordered",
+  "file.created",
+  "file.updated",
+  "file.deleted",
+  "loan.created",
+  "loan.updated",
+] as const;
+export type ShelfEventType = (typeof SHELF_EVENT_TYPES)[number];
+
+export interface ShelfEvent {
+  id: string;
+  type: ShelfEventType;
+  shelfId: string;
+  // Who made the change, so clients can skip their own
+  userId: string;
+  data: unknown;
+  createdAt: string;
+}
+
+type Listener = (event: ShelfEvent) => void;
+
+// How many recent events are kept for streams that resume with Last-Event-ID
+const REPLAY_BUFFER_SIZE = 1000;
+
+// Event ids restart with the process. The prefix tells a stream resuming with an
+// id from before a restart that it missed events.
+const BOOT_ID = Date.now().toString(36);
+let sequence = 0;
+
+const recent: ShelfEvent[] = [];
+const listeners = new Set<Listener>();
+
+// Tells every listener about a change. Call it after the write succeeded; a
+// failing listener is logged and doesn't fail the request that made the change.
+export function publishEvent(actor: Actor, type: ShelfEventType, data: unknown) {
+  sequence += 1;
+  const event: ShelfEvent = {
+    id: `${BOOT_ID}-${sequence}`,
+    type,
+    shelfId: actor.shelfId,
+    userId: actor.userId,
+    // Sent as JSON, so dates become ISO strings
+    data: JSON.parse(JSON.stringify(data ?? null)),
+    createdAt: new Date().toISOString(),
+  };
+
+  recent.push(event);
+  if (recent.length > REPLAY_BUFFER_SIZE) {
+    recent.shift();
+  }
+
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("Event listener failed:", type, error);
+    }
+  }
+}
+
+// Calls the listener for every event from now on. Returns the unsubscribe function.
+export function subscribe(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Events of the shelf published after the given event, or null when that event
+// is no longer kept (or is from before a restart) and some may have been missed
+export function eventsSince(shelfId: string, lastEventId: string) {
+  const index = recent.findIndex((event) => event.id === lastEventId);
+  if (index === -1) {
+    return null;
+  }
+  return recent
+    .slice(index + 1)
+    .filter((event) => event.shelfId === shelfId);
+}
+
+// Loads a changed record the way its REST route returns it
+const RECORD_LOADERS: Record<HistoryEntity, (id: string) => Promise<unknown>> = {
+  game: (id) => prisma.game.findUnique({ where: { id } }),
+  session: (id) => prisma.session.findUnique({ where: { id }, include: sessionInclude }),
+  player: (id) => prisma.player.findUnique({ where: { id } }),
+  tag: (id) => prisma.tag.findUnique({ where: { id } }),
+  file: (id) => prisma.file.findUnique({ where: { id } }),
+  wishlist: (gameId) =>
+    prisma.wishlist.findUnique({ where: { gameId }, omit: wishlistOmit }),
+};
+
+const ACTION_EVENTS = { create: "created", update: "updated", delete: "deleted" } as const;
+
+// Publishes the events of changes made in bulk, such as restores and imports.
+// Call it once the transaction that made them has committed.
+export async function publishChanges(actor: Actor, changes: RecordedChange[]) {
+  for (const { entityType, entityId, action, gameId } of changes) {
+    if (entityType === "wishlist") {
+      const wishlist = action === "delete" ? null : await RECORD_LOADERS.wishlist(entityId);
+      publishEvent(actor, "wishlist.updated", { gameId: entityId, wishlist });
+      continue;
+    }
+
+    const type = `${entityType}.${ACTION_EVENTS[action]}` as ShelfEventType;
+    if (action === "delete") {
+      const hasGame = entityType === "session" || entityType === "file";
+      publishEvent(actor, type, hasGame ? { id: entityId, gameId } : { id: entityId });
+      continue;
+    }
+
+    // A record changed again later in the same request is sent as it is now
+    const record = await RECORD_LOADERS[entityType](entityId);
+    if (record) {
+      publishEvent(actor, type, record);
+    }
+  }
+}
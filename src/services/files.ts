@@ -0,0 +1,48 @@
+import prisma from "../db";
+import { NotFoundError } from "../error-handling/errors";
+import { CreateFileInput } from "../schemas/files";
+import { findShelfGame } from "./games";
+import { Actor, recordChange, takeSnapshot } from "./history";
+import { removeBlobs } from "./storage";
+
+// Adds a linked file to a game; uploads go through POST /games/:gameId/files/upload
+export async function createFile(
+  actor: Actor,
+  gameId: string,
+  input: CreateFileInput,
+) {
+  const game = await findShelfGame(gameId, actor.shelfId);
+  if (!game) {
+    throw new NotFoundError("Game not found");
+  }
+
+  const file = await prisma.file.create({
+    data: {
+      title: input.title,
+      link: input.link,
+      game: { connect: { id: gameId } },
+    },
+  });
+  await recordChange(actor, "file", file.id, null);
+  return file;
+}
+
+// Deletes a file along with its uploaded blob
+export async function deleteFile(actor: Actor, fileId: string) {
+  const file = await prisma.file.findFirst({
+    where: { id: fileId, game: { shelfId: actor.shelfId, deletedAt: null } },
+  });
+
+  if (!file) {
+    throw new NotFoundError("File not found");
+  }
+
+  const before = await takeSnapshot("file", fileId);
+
+  await prisma.file.delete({
+    where: { id: fileId },
+  });
+  await recordChange(actor, "file", fileId, before);
+  await removeBlobs([file.storageKey]);
+  return file;
+}
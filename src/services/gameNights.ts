@@ -0,0 +1,242 @@
+import { Player, Prisma } from "../generated/prisma";
+import prisma from "../db";
+import {
+  BadRequestError,
+  ConflictError,
+  ValidationError,
+} from "../error-handling/errors";
+import { updatePlayStats, validateSessionExpansions } from "./games";
+import { Actor, recordChange } from "./history";
+import { normalizePlayerName } from "./players";
+import { createPlayerResults, publishNewPlayers } from "./sessions";
+import { PlayerResultInput } from "../schemas/sessions";
+
+// Relations returned with every game night; trashed players and games are left out
+export const gameNightInclude = {
+  host: true,
+  invitees: {
+    where: { player: { deletedAt: null as Date | null } },
+    include: { player: true },
+    orderBy: { player: { name: "asc" as const } },
+  },
+  candidates: {
+    where: { game: { deletedAt: null as Date | null } },
+    include: {
+      game: {
+        select: {
+          id: true,
+          title: true,
+          coverImage: true,
+          minPlayers: true,
+          maxPlayers: true,
+          playTime: true,
+        },
+      },
+      votes: { include: { player: true } },
+    },
+  },
+};
+
+type GameNightWithRelations = Prisma.GameNightGetPayload<{
+  include: typeof gameNightInclude;
+}>;
+
+// Adds the confirmed headcount and flags shortlisted games that don't fit it.
+// Candidates are listed with the most votes first.
+export function withHeadcount(night: GameNightWithRelations) {
+  const headcount = night.invitees.filter(
+    (invitee) => invitee.status === "yes"
+  ).length;
+
+  const candidates = night.candidates
+    .map((candidate) => ({
+      ...candidate,
+      voteCount: candidate.votes.length,
+      // Nothing to check until someone has said yes
+      fitsHeadcount:
+        headcount === 0
+          ? null
+          : candidate.game.minPlayers <= headcount &&
+            headcount <= candidate.game.maxPlayers,
+    }))
+    .sort(
+      (a, b) =>
+        b.voteCount - a.voteCount || a.game.title.localeCompare(b.game.title)
+    );
+
+  return { ...night, headcount, candidates };
+}
+
+export async function findShelfGameNight(nightId: string, shelfId: string) {
+  return prisma.gameNight.findFirst({ where: { id: nightId, shelfId } });
+}
+
+export function assertNotCompleted(night: { completedAt: Date | null }) {
+  if (night.completedAt) {
+    throw new BadRequestError("Game night is already completed");
+  }
+}
+
+// Checks that every id belongs to a player on the shelf who is not in the trash
+export async function assertShelfPlayers(
+  playerIds: string[],
+  shelfId: string,
+  field: string
+) {
+  const found = await prisma.player.count({
+    where: { id: { in: playerIds }, shelfId, deletedAt: null },
+  });
+  if (found !== playerIds.length) {
+    throw new ValidationError("Invalid request body", [
+      { field, message: "Player not found" },
+    ]);
+  }
+}
+
+// Checks that every id belongs to a game on the shelf that is not in the trash
+export async function assertShelfGames(
+  gameIds: string[],
+  shelfId: string,
+  field: string
+) {
+  const found = await prisma.game.count({
+    where: { id: { in: gameIds }, shelfId, deletedAt: null },
+  });
+  if (found !== gameIds.length) {
+    throw new ValidationError("Invalid request body", [
+      { field, message: "Game not found" },
+    ]);
+  }
+}
+
+interface PlayedGame {
+  gameId: string;
+  notes?: string | null;
+  isCooperative?: boolean;
+  cooperativeWin?: boolean | null;
+  players?: PlayerResultInput[];
+  expansionIds?: string[];
+}
+
+// Records a session for every game played on the night and marks it completed
+export async function completeGameNight(
+  actor: Actor,
+  nightId: string,
+  played: PlayedGame[]
+) {
+  const { shelfId } = actor;
+  const night = await prisma.gameNight.findFirst({
+    where: { id: nightId, shelfId },
+    include: {
+      invitees: {
+        where: { status: "yes", player: { deletedAt: null } },
+        include: { player: true },
+      },
+    },
+  });
+  if (!night) {
+    return null;
+  }
+  assertNotCompleted(night);
+
+  await assertShelfGames(
+    [...new Set(played.map((game) => game.gameId))],
+    shelfId,
+    "sessions"
+  );
+  for (const [i, game] of played.entries()) {
+    if (game.expansionIds && game.expansionIds.length > 0) {
+      const error = await validateSessionExpansions(
+        game.expansionIds,
+        game.gameId,
+        shelfId
+      );
+      if (error) {
+        throw new ValidationError("Invalid request body", [
+          { ...error, field: `sessions.${i}.${error.field}` },
+        ]);
+      }
+    }
+  }
+
+  // Checked up front so a trashed player can't leave the night half recorded
+  const names = played
+    .flatMap((game) => game.players ?? [])
+    .map((p) => normalizePlayerName(p.name));
+  const trashedPlayer = await prisma.player.findFirst({
+    where: {
+      shelfId,
+      deletedAt: { not: null },
+      OR: [
+        { normalizedName: { in: names } },
+        { aliases: { some: { normalizedAlias: { in: names } } } },
+      ],
+    },
+  });
+  if (trashedPlayer) {
+    throw new BadRequestError(
+      `Player ${trashedPlayer.name} is in the trash, restore them first`
+    );
+  }
+
+  const attendees = night.invitees.map((invitee) => ({
+    name: invitee.player.name,
+  }));
+
+  // Everything is recorded in one transaction, so a failing session leaves the
+  // night open to be completed again
+  const { sessionIds, newPlayers } = await prisma.$transaction(async (tx) => {
+    // Claiming the night first keeps two requests from recording it twice
+    const { count } = await tx.gameNight.updateMany({
+      where: { id: nightId, completedAt: null },
+      data: { completedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new ConflictError("Game night is already completed");
+    }
+
+    const ids: string[] = [];
+    const newPlayers: Player[] = [];
+    for (const game of played) {
+      const coopResult = game.isCooperative ? game.cooperativeWin ?? null : null;
+      const created = await createPlayerResults(
+        actor,
+        game.players ?? attendees,
+        coopResult,
+        tx
+      );
+      newPlayers.push(...created.newPlayers);
+      const session = await tx.session.create({
+        data: {
+          date: night.date,
+          notes: game.notes,
+          isCooperative: Boolean(game.isCooperative),
+          cooperativeWin: coopResult,
+          game: { connect: { id: game.gameId } },
+          gameNight: { connect: { id: nightId } },
+          players: { create: created.results },
+          expansions: {
+            connect: (game.expansionIds ?? []).map((id) => ({ id })),
+          },
+        },
+      });
+      await recordChange(actor, "session", session.id, null, { db: tx });
+      ids.push(session.id);
+    }
+
+    for (const gameId of new Set(played.map((game) => game.gameId))) {
+      await updatePlayStats(gameId, tx);
+    }
+    return { sessionIds: ids, newPlayers };
+  });
+  publishNewPlayers(actor, newPlayers);
+
+  return prisma.session.findMany({
+    where: { id: { in: sessionIds } },
+    include: {
+      players: { include: { player: true } },
+      game: true,
+      expansions: { select: { id: true, title: true } },
+    },
+  });
+}
@@ -0,0 +1,458 @@
+import { Prisma } from "../generated/prisma";
+import prisma from "../db";
+import {
+  readBoolean,
+  readList,
+  readNumber,
+  readString,
+} from "./queryParams";
+import {
+  ErrorDetail,
+  NotFoundError,
+  ValidationError,
+} from "../error-handling/errors";
+import {
+  CreateGameInput,
+  EXPANSION_MODES,
+  GAME_SORT_FIELDS,
+  MAX_GAME_LIMIT,
+  UPLOADED_COVER_PATH,
+  UpdateGameInput,
+} from "../schemas/games";
+import { Actor, recordChange, takeSnapshot } from "./history";
+import { removeBlobs } from "./storage";
+import { normalizeTagTitle, resolveTagIds } from "./tags";
+
+type SortField = (typeof GAME_SORT_FIELDS)[number];
+export type ExpansionMode = (typeof EXPANSION_MODES)[number];
+
+const DEFAULT_LIMIT = 20;
+
+type Db = Prisma.TransactionClient;
+
+// Recalculates Game.lastPlayedAt and Game.playCount after its sessions were created, changed or deleted.
+// Sessions in the trash don't count.
+export async function updatePlayStats(gameId: string, db: Db = prisma) {
+  const stats = await db.session.aggregate({
+    where: { gameId, deletedAt: null },
+    _max: { date: true },
+    _count: true,
+  });
+  await db.game.update({
+    where: { id: gameId },
+    data: { lastPlayedAt: stats._max.date, playCount: stats._count },
+  });
+}
+
+// The cover of a game with an uploaded cover image, served by GET /games/:gameId/cover
+export function uploadedCoverPath(gameId: string) {
+  return `/api/games/${gameId}/cover`;
+}
+
+// Only the game's own uploaded cover path can be sent, and only while the game has it
+function coverImageError(
+  coverImage: string | undefined,
+  current?: string
+): ErrorDetail | null {
+  if (
+    coverImage !== undefined &&
+    coverImage !== current &&
+    UPLOADED_COVER_PATH.test(coverImage)
+  ) {
+    return { field: "coverImage", message: "Must be an http or https URL" };
+  }
+  return null;
+}
+
+// Include for the loan a game is currently out on, if any
+export const activeLoanInclude: Prisma.GameInclude = {
+  loans: {
+    where: { returnedAt: null },
+    include: { player: true },
+    take: 1,
+  },
+};
+
+// Replaces the active loan list with a currentLoan field and an isLentOut flag
+export function withLoanStatus<T extends { loans: unknown[] }>(game: T) {
+  const { loans, ...rest } = game;
+  const currentLoan = loans[0] ?? null;
+  return { ...rest, isLentOut: currentLoan !== null, currentLoan };
+}
+
+// Player count and play time of a game played with all of its owned expansions
+export function effectiveRange(
+  game: { minPlayers: number; maxPlayers: number; playTime: number },
+  expansions: {
+    minPlayers: number;
+    maxPlayers: number;
+    playTime: number;
+    isOwned: boolean;
+  }[]
+) {
+  const all = [game, ...expansions.filter((expansion) => expansion.isOwned)];
+  return {
+    minPlayers: Math.min(...all.map((entry) => entry.minPlayers)),
+    maxPlayers: Math.max(...all.map((entry) => entry.maxPlayers)),
+    playTime: Math.max(...all.map((entry) => entry.playTime)),
+  };
+}
+
+// Checks the base game a game should become an expansion of. Expansions only go one
+// level deep, so the base can't be an expansion and a game with expansions can't become one.
+export async function validateBaseGame(
+  baseGameId: string,
+  shelfId: string,
+  gameId?: string
+): Promise<ErrorDetail | null> {
+  const field = "baseGameId";
+  if (baseGameId === gameId) {
+    return { field, message: "A game can't be its own expansion" };
+  }
+
+  const baseGame = await prisma.game.findFirst({
+    where: { id: baseGameId, shelfId, deletedAt: null },
+  });
+  if (!baseGame) {
+    return { field, message: "Game not found" };
+  }
+  if (baseGame.baseGameId) {
+    return { field, message: "Must be a base game, not an expansion" };
+  }
+
+  if (gameId) {
+    const expansions = await prisma.game.count({ where: { baseGameId: gameId } });
+    if (expansions > 0) {
+      return { field, message: "A game with expansions can't be an expansion" };
+    }
+  }
+  return null;
+}
+
+// Checks that every expansion played in a session belongs to the session's game
+export async function validateSessionExpansions(
+  expansionIds: string[],
+  gameId: string,
+  shelfId: string
+): Promise<ErrorDetail | null> {
+  const found = await prisma.game.count({
+    where: { id: { in: expansionIds }, baseGameId: gameId, shelfId, deletedAt: null },
+  });
+  if (found !== expansionIds.length) {
+    return { field: "expansionIds", message: "Must be expansions of the session's game" };
+  }
+  return null;
+}
+
+function buildOrderBy(
+  sort: SortField,
+  order: Prisma.SortOrder
+): Prisma.GameOrderByWithRelationInput[] {
+  switch (sort) {
+    case "title":
+      return [{ title: order }];
+    case "rating":
+      return [{ rating: order }];
+    case "myRating":
+      return [{ myRating: { sort: order, nulls: "last" } }];
+    case "plays":
+      return [{ playCount: order }];
+    case "createdAt":
+      return [{ createdAt: order }];
+    case "lastPlayed":
+      return [{ lastPlayedAt: { sort: order, nulls: "last" } }];
+  }
+}
+
+// Turns the GET /games/ query string into Prisma arguments, collecting every invalid parameter
+export function parseGameListQuery(
+  query: Record<string, unknown>,
+  shelfId: string
+) {
+  const errors: ErrorDetail[] = [];
+  const and: Prisma.GameWhereInput[] = [{ shelfId, deletedAt: null }];
+
+  const genre = readString(query, "genre");
+  if (genre) {
+    and.push({ genre: { equals: genre, mode: "insensitive" } });
+  }
+
+  // A game must carry every requested tag
+  for (const title of [...readList(query.tags), ...readList(query.tag)]) {
+    and.push({
+      tags: { some: { normalizedTitle: normalizeTagTitle(title) } },
+    });
+  }
+
+  const isOwned = readBoolean(query, "isOwned", errors);
+  if (isOwned !== undefined) {
+    and.push({ isOwned });
+  }
+
+  const wishlist = readBoolean(query, "wishlist", errors);
+  if (wishlist !== undefined) {
+    and.push({ wishlist: wishlist ? { isNot: null } : { is: null } });
+  }
+
+  const expansions = readString(query, "expansions") ?? "include";
+  if (!EXPANSION_MODES.includes(expansions as ExpansionMode)) {
+    errors.push({
+      field: "expansions",
+      message: `Must be one of ${EXPANSION_MODES.join(", ")}`,
+    });
+  }
+  if (expansions !== "include") {
+    // Expansions of a base game in the trash are listed as games of their own
+    and.push({
+      OR: [{ baseGameId: null }, { baseGame: { deletedAt: { not: null } } }],
+    });
+  }
+
+  const players = readNumber(query, "players", errors, { integer: true, min: 1 });
+  if (players !== undefined) {
+    const fits = { minPlayers: { lte: players }, maxPlayers: { gte: players } };
+    // Without expansions in the list, an owned expansion can make its base game fit
+    and.push(
+      expansions === "include"
+        ? fits
+        : {
+            OR: [
+              fits,
+              { expansions: { some: { ...fits, isOwned: true, deletedAt: null } } },
+            ],
+          }
+    );
+  }
+
+  const maxPlayTime = readNumber(query, "maxPlayTime", errors, {
+    integer: true,
+    min: 1,
+  });
+  if (maxPlayTime !== undefined) {
+    and.push({ playTime: { lte: maxPlayTime } });
+  }
+
+  const minRating = readNumber(query, "minRating", errors, { min: 0, max: 10 });
+  const maxRating = readNumber(query, "maxRating", errors, { min: 0, max: 10 });
+  if (minRating !== undefined || maxRating !== undefined) {
+    and.push({ rating: { gte: minRating, lte: maxRating } });
+  }
+
+  const minMyRating = readNumber(query, "minMyRating", errors, {
+    integer: true,
+    min: 0,
+    max: 10,
+  });
+  const maxMyRating = readNumber(query, "maxMyRating", errors, {
+    integer: true,
+    min: 0,
+    max: 10,
+  });
+  if (minMyRating !== undefined || maxMyRating !== undefined) {
+    and.push({ myRating: { gte: minMyRating, lte: maxMyRating } });
+  }
+  if (
+    minRating !== undefined &&
+    maxRating !== undefined &&
+    minRating > maxRating
+  ) {
+    errors.push({ field: "minRating", message: "Must not exceed maxRating" });
+  }
+  if (
+    minMyRating !== undefined &&
+    maxMyRating !== undefined &&
+    minMyRating > maxMyRating
+  ) {
+    errors.push({ field: "minMyRating", message: "Must not exceed maxMyRating" });
+  }
+
+  const search = readString(query, "q");
+  if (search) {
+    and.push({
+      OR: [
+        { title: { contains: search, mode: "insensitive" } },
+        { publisher: { contains: search, mode: "insensitive" } },
+      ],
+    });
+  }
+
+  const sort = readString(query, "sort") ?? "title";
+  if (!GAME_SORT_FIELDS.includes(sort as SortField)) {
+    errors.push({
+      field: "sort",
+      message: `Must be one of ${GAME_SORT_FIELDS.join(", ")}`,
+    });
+  }
+
+  const order = readString(query, "order") ?? "asc";
+  if (order !== "asc" && order !== "desc") {
+    errors.push({ field: "order", message: "Must be asc or desc" });
+  }
+
+  const limit =
+    readNumber(query, "limit", errors, {
+      integer: true,
+      min: 1,
+      max: MAX_GAME_LIMIT,
+    }) ?? DEFAULT_LIMIT;
+
+  const cursor = readString(query, "cursor");
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const where: Prisma.GameWhereInput = { AND: and };
+  return {
+    errors,
+    where,
+    limit,
+    cursor,
+    expansions: expansions as ExpansionMode,
+    orderBy: [
+      ...buildOrderBy(sort as SortField, order as Prisma.SortOrder),
+      // Ties are broken by id so cursor pagination stays stable
+      { id: "asc" as Prisma.SortOrder },
+    ],
+  };
+}
+
+// Helper function to find a game on the shelf that is not in the trash
+export async function findShelfGame(gameId: string, shelfId: string) {
+  return prisma.game.findFirst({
+    where: { id: gameId, shelfId, deletedAt: null },
+  });
+}
+
+export async function createGame(actor: Actor, input: CreateGameInput) {
+  const { tags, ...gameDetail } = input;
+  const { shelfId } = actor;
+
+  const coverError = coverImageError(gameDetail.coverImage);
+  if (coverError) {
+    throw new ValidationError("Invalid request body", [coverError]);
+  }
+
+  if (gameDetail.baseGameId) {
+    const baseGameError = await validateBaseGame(gameDetail.baseGameId, shelfId);
+    if (baseGameError) {
+      throw new ValidationError("Invalid request body", [baseGameError]);
+    }
+  }
+
+  let tagConnections: { connect: { id: string }[] } | undefined;
+
+  if (tags && tags.length > 0) {
+    // "Coop" and "coop" are the same tag
+    const tagIds = await resolveTagIds(
+      tags.map((tag) => tag.title),
+      actor
+    );
+    tagConnections = { connect: tagIds };
+  }
+
+  const newGame = await prisma.game.create({
+    data: {
+      ...gameDetail,
+      shelfId,
+      tags: tagConnections,
+    },
+  });
+  await recordChange(actor, "game", newGame.id, null);
+  return newGame;
+}
+
+export async function updateGame(
+  actor: Actor,
+  gameId: string,
+  input: UpdateGameInput
+) {
+  const { tags, ...gameDetail } = input;
+  const { shelfId } = actor;
+
+  const existingGame = await findShelfGame(gameId, shelfId);
+  if (!existingGame) {
+    throw new NotFoundError("Game not found");
+  }
+
+  // The schema only compares the fields sent, so check them against the stored ones too
+  const minPlayers = gameDetail.minPlayers ?? existingGame.minPlayers;
+  const maxPlayers = gameDetail.maxPlayers ?? existingGame.maxPlayers;
+  if (minPlayers > maxPlayers) {
+    throw new ValidationError("Invalid request body", [
+      { field: "minPlayers", message: "Must not exceed maxPlayers" },
+    ]);
+  }
+
+  const coverError = coverImageError(
+    gameDetail.coverImage,
+    existingGame.coverImage
+  );
+  if (coverError) {
+    throw new ValidationError("Invalid request body", [coverError]);
+  }
+
+  if (gameDetail.baseGameId) {
+    const baseGameError = await validateBaseGame(
+      gameDetail.baseGameId,
+      shelfId,
+      gameId
+    );
+    if (baseGameError) {
+      throw new ValidationError("Invalid request body", [baseGameError]);
+    }
+  }
+
+  // Tags are only replaced when sent; an empty list removes them all
+  let tagConnections: { set: { id: string }[] } | undefined;
+
+  if (tags) {
+    // "Coop" and "coop" are the same tag
+    const tagIds = await resolveTagIds(
+      tags.map((tag) => tag.title),
+      actor
+    );
+    tagConnections = { set: tagIds };
+  }
+
+  const before = await takeSnapshot("game", gameId);
+
+  // A new cover url replaces an uploaded cover image
+  const replacesCover =
+    gameDetail.coverImage !== undefined &&
+    gameDetail.coverImage !== existingGame.coverImage &&
+    existingGame.coverImageKey;
+
+  const updatedGame = await prisma.game.update({
+    where: { id: gameId },
+    data: {
+      ...gameDetail,
+      ...(replacesCover ? { coverImageKey: null } : {}),
+      tags: tagConnections,
+    },
+  });
+
+  await recordChange(actor, "game", gameId, before);
+
+  if (replacesCover) {
+    await removeBlobs([existingGame.coverImageKey]);
+  }
+  return updatedGame;
+}
+
+// Moves a game to the trash
+export async function trashGame(actor: Actor, gameId: string) {
+  const game = await findShelfGame(gameId, actor.shelfId);
+  if (!game) {
+    throw new NotFoundError("Game not found");
+  }
+
+  const before = await takeSnapshot("game", gameId);
+
+  // The game and everything that belongs to it stay in the trash until purged
+  await prisma.game.update({
+    where: { id: gameId },
+    data: { deletedAt: new Date() },
+  });
+  await recordChange(actor, "game", gameId, before);
+}
@@ -0,0 +1,509 @@
+import { HistoryEntity, HistoryEntry, Prisma } from "../generated/prisma";
+import prisma from "../db";
+import { AuthenticatedRequest } from "../middleware/isAuthenticated";
+import { BadRequestError, NotFoundError } from "../error-handling/errors";
+import { updatePlayStats } from "./games";
+import { removeBlobs, storage } from "./storage";
+import { findOrCreateTag, normalizeTagTitle } from "./tags";
+import { nextWishlistPosition } from "./wishlist";
+import { findPlayerByName, normalizePlayerName } from "./players";
+
+type Db = Prisma.TransactionClient;
+export type Snapshot = Prisma.JsonObject;
+
+// Who made a change, and on which shelf
+export interface Actor {
+  shelfId: string;
+  userId: string;
+}
+
+export function actorOf(req: AuthenticatedRequest): Actor {
+  return { shelfId: req.shelf.id, userId: req.payload.id };
+}
+
+// What publishChanges needs to know about a recorded change
+export type RecordedChange = Pick<
+  HistoryEntry,
+  "entityType" | "entityId" | "action" | "gameId"
+>;
+
+// Snapshots are stored as JSON, so dates become ISO strings
+function plain(value: object): Snapshot {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Loads the fields of a record that are tracked and can be restored.
+// Records in the trash have no snapshot, so moving one there is recorded as a delete.
+const SNAPSHOTS: Record<
+  HistoryEntity,
+  (db: Db, id: string) => Promise<Snapshot | null>
+> = {
+  game: async (db, id) => {
+    const game = await db.game.findFirst({
+      where: { id, deletedAt: null },
+      select: {
+        title: true,
+        description: true,
+        genre: true,
+        minPlayers: true,
+        maxPlayers: true,
+        playTime: true,
+        publisher: true,
+        age: true,
+        rating: true,
+        myRating: true,
+        coverImage: true,
+        coverImageKey: true,
+        isOwned: true,
+        yearPublished: true,
+        bggId: true,
+        baseGameId: true,
+        tags: { select: { title: true }, orderBy: { title: "asc" } },
+      },
+    });
+    return game
+      ? plain({ ...game, tags: game.tags.map((tag) => tag.title) })
+      : null;
+  },
+  session: async (db, id) => {
+    const session = await db.session.findFirst({
+      where: { id, deletedAt: null },
+      select: {
+        gameId: true,
+        date: true,
+        notes: true,
+        isCooperative: true,
+        cooperativeWin: true,
+        players: {
+          select: {
+            playerId: true,
+            score: true,
+            position: true,
+            isWinner: true,
+            team: true,
+          },
+          orderBy: { playerId: "asc" },
+        },
+        expansions: { select: { id: true }, orderBy: { id: "asc" } },
+      },
+    });
+    return session
+      ? plain({
+          ...session,
+          expansions: session.expansions.map((expansion) => expansion.id),
+        })
+      : null;
+  },
+  player: async (db, id) => {
+    const player = await db.player.findFirst({
+      where: { id, deletedAt: null },
+      select: {
+        name: true,
+        userId: true,
+        aliases: { select: { alias: true }, orderBy: { alias: "asc" } },
+      },
+    });
+    return player
+      ? plain({ ...player, aliases: player.aliases.map(({ alias }) => alias) })
+      : null;
+  },
+  tag: async (db, id) => {
+    const tag = await db.tag.findUnique({
+      where: { id },
+      select: {
+        title: true,
+        color: true,
+        group: true,
+        games: { select: { id: true }, orderBy: { id: "asc" } },
+      },
+    });
+    if (!tag) {
+      return null;
+    }
+    const { games, ...fields } = tag;
+    return plain({ ...fields, gameIds: games.map((game) => game.id) });
+  },
+  file: async (db, id) => {
+    const file = await db.file.findUnique({
+      where: { id },
+      select: {
+        gameId: true,
+        title: true,
+        link: true,
+        storageKey: true,
+        mimeType: true,
+        size: true,
+      },
+    });
+    return file ? plain(file) : null;
+  },
+  // A game has at most one wishlist entry, so the game id identifies it
+  wishlist: async (db, gameId) => {
+    const wishlist = await db.wishlist.findUnique({
+      where: { gameId },
+      // The order and gift claims are left out
+      select: {
+        gameId: true,
+        reason: true,
+        priority: true,
+        targetPrice: true,
+        notes: true,
+      },
+    });
+    return wishlist ? plain(wishlist) : null;
+  },
+};
+
+// Field of a snapshot that holds the key of an uploaded blob
+const BLOB_FIELDS: Partial<Record<HistoryEntity, string>> = {
+  game: "coverImageKey",
+  file: "storageKey",
+};
+
+export async function takeSnapshot(
+  entityType: HistoryEntity,
+  entityId: string,
+  db: Db = prisma
+) {
+  return SNAPSHOTS[entityType](db, entityId);
+}
+
+// Lists every field whose value differs between two snapshots
+export function diffSnapshots(before: Snapshot | null, after: Snapshot | null) {
+  const changes: Prisma.JsonObject = {};
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  for (const field of fields) {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { before: from, after: to };
+    }
+  }
+  return changes;
+}
+
+function gameIdOf(entityType: HistoryEntity, entityId: string, snapshot: Snapshot) {
+  if (entityType === "game" || entityType === "wishlist") {
+    return entityId;
+  }
+  return typeof snapshot.gameId === "string" ? snapshot.gameId : null;
+}
+
+// Records a change of one record. Pass the snapshot taken before the write (null
+// for new records); the one after it is taken here, so call this once the write
+// is done. Updates that changed nothing are not recorded.
+export async function recordChange(
+  actor: Actor,
+  entityType: HistoryEntity,
+  entityId: string,
+  before: Snapshot | null,
+  options: { db?: Db; restoredFromId?: string } = {}
+) {
+  const db = options.db ?? prisma;
+  const after = await takeSnapshot(entityType, entityId, db);
+  const changes = diffSnapshots(before, after);
+  if (Object.keys(changes).length === 0) {
+    return null;
+  }
+
+  return db.historyEntry.create({
+    data: {
+      shelfId: actor.shelfId,
+      userId: actor.userId,
+      entityType,
+      entityId,
+      gameId: gameIdOf(entityType, entityId, after ?? before),
+      action: !before ? "create" : !after ? "delete" : "update",
+      before: before ?? Prisma.DbNull,
+      after: after ?? Prisma.DbNull,
+      changes,
+      restoredFromId: options.restoredFromId ?? null,
+    },
+  });
+}
+
+// Uploaded blobs are removed when their record moves on, so old revisions may point to nothing
+async function assertBlobExists(key: unknown) {
+  if (typeof key !== "string") {
+    return;
+  }
+  const stream = await storage.open(key);
+  if (!stream) {
+    throw new BadRequestError(
+      "The uploaded file of this revision no longer exists"
+    );
+  }
+  stream.destroy();
+}
+
+async function findShelfGameOrFail(db: Db, gameId: unknown, shelfId: string) {
+  const game = await db.game.findFirst({
+    where: { id: String(gameId), shelfId, deletedAt: null },
+  });
+  if (!game) {
+    throw new BadRequestError("The game of this revision no longer exists");
+  }
+  return game;
+}
+
+// The fields each snapshot holds, as they are written back
+interface Revisions {
+  game: Pick<
+    Prisma.GameUncheckedCreateInput,
+    | "title"
+    | "description"
+    | "genre"
+    | "minPlayers"
+    | "maxPlayers"
+    | "playTime"
+    | "publisher"
+    | "age"
+    | "rating"
+    | "myRating"
+    | "coverImage"
+    | "coverImageKey"
+    | "isOwned"
+    | "yearPublished"
+    | "bggId"
+    | "baseGameId"
+  > & { tags: string[] };
+  session: Pick<
+    Prisma.SessionUncheckedCreateInput,
+    "gameId" | "date" | "notes" | "isCooperative" | "cooperativeWin"
+  > & {
+    players: Pick<
+      Prisma.SessionPlayerUncheckedCreateWithoutSessionInput,
+      "playerId" | "score" | "position" | "isWinner" | "team"
+    >[];
+    // Missing in revisions from before expansions
+    expansions?: string[];
+  };
+  // Missing in revisions from before aliases and links were tracked
+  player: Pick<Prisma.PlayerUncheckedCreateInput, "name"> &
+    Partial<Pick<Prisma.PlayerUncheckedCreateInput, "userId">> & {
+      aliases?: string[];
+    };
+  tag: Pick<Prisma.TagUncheckedCreateInput, "title" | "color" | "group"> & {
+    gameIds: string[];
+  };
+  file: Pick<
+    Prisma.FileUncheckedCreateInput,
+    "gameId" | "title" | "link" | "storageKey" | "mimeType" | "size"
+  >;
+  wishlist: Pick<
+    Prisma.WishlistUncheckedCreateInput,
+    "gameId" | "reason" | "priority" | "targetPrice" | "notes"
+  >;
+}
+
+// Writes a snapshot back, recreating the record under its old id if it was purged
+// and taking it out of the trash if it is there
+const RESTORERS: {
+  [E in HistoryEntity]: (
+    db: Db,
+    shelfId: string,
+    id: string,
+    target: Revisions[E]
+  ) => Promise<unknown>;
+} = {
+  game: async (db, shelfId, id, { tags, ...fields }) => {
+    await assertBlobExists(fields.coverImageKey);
+
+    // A base game deleted or trashed since the revision leaves the game standalone
+    if (fields.baseGameId) {
+      const baseGame = await db.game.findFirst({
+        where: { id: fields.baseGameId, shelfId, deletedAt: null },
+      });
+      if (!baseGame) {
+        fields.baseGameId = null;
+      }
+    }
+
+    const tagIds: { id: string }[] = [];
+    for (const title of tags) {
+      const tag = await findOrCreateTag(shelfId, title, { db });
+      tagIds.push({ id: tag.id });
+    }
+
+    return db.game.upsert({
+      where: { id },
+      create: { ...fields, id, shelfId, tags: { connect: tagIds } },
+      update: { ...fields, deletedAt: null, tags: { set: tagIds } },
+    });
+  },
+  session: async (
+    db,
+    shelfId,
+    id,
+    { gameId, date, players, expansions = [], ...fields }
+  ) => {
+    await findShelfGameOrFail(db, gameId, shelfId);
+
+    const playerIds = players.map((result) => result.playerId);
+    const knownPlayers = await db.player.count({
+      where: { id: { in: playerIds }, shelfId },
+    });
+    if (knownPlayers !== playerIds.length) {
+      throw new BadRequestError(
+        "A player of this revision no longer exists"
+      );
+    }
+
+    // Expansions deleted or trashed since the revision are left out
+    const expansionIds = await db.game.findMany({
+      where: { id: { in: expansions }, baseGameId: gameId, deletedAt: null },
+      select: { id: true },
+    });
+
+    await db.sessionPlayer.deleteMany({ where: { sessionId: id } });
+    const data = {
+      ...fields,
+      date: new Date(date),
+      deletedAt: null as Date | null,
+      players: { create: players },
+    };
+    return db.session.upsert({
+      where: { id },
+      create: { ...data, id, gameId, expansions: { connect: expansionIds } },
+      update: { ...data, expansions: { set: expansionIds } },
+    });
+  },
+  player: async (db, shelfId, id, { name, userId, aliases }) => {
+    const normalizedName = normalizePlayerName(name);
+    const player = await db.player.upsert({
+      where: { id },
+      create: { id, shelfId, name, normalizedName },
+      update: { name, normalizedName, deletedAt: null },
+    });
+
+    if (aliases) {
+      await db.playerAlias.deleteMany({ where: { playerId: id } });
+      for (const alias of aliases) {
+        const owner = await findPlayerByName(shelfId, alias, db);
+        if (owner) {
+          throw new BadRequestError(`${alias} is now used by ${owner.name}`);
+        }
+        await db.playerAlias.create({
+          data: {
+            playerId: id,
+            shelfId,
+            alias,
+            normalizedAlias: normalizePlayerName(alias),
+          },
+        });
+      }
+    }
+
+    if (userId !== undefined) {
+      // An account that left the shelf or was linked to another player since stays unlinked
+      const member = userId
+        ? await db.shelfMember.findUnique({
+            where: { shelfId_userId: { shelfId, userId } },
+          })
+        : null;
+      const linked = userId
+        ? await db.player.findUnique({
+            where: { shelfId_userId: { shelfId, userId } },
+          })
+        : null;
+      const keepLink = member && (!linked || linked.id === id);
+      return db.player.update({
+        where: { id },
+        data: { userId: keepLink ? userId : null },
+      });
+    }
+    return player;
+  },
+  tag: async (db, shelfId, id, { gameIds, ...fields }) => {
+    // Games deleted or trashed since the revision are left out
+    const games = await db.game.findMany({
+      where: { id: { in: gameIds }, shelfId, deletedAt: null },
+      select: { id: true },
+    });
+    const data = { ...fields, normalizedTitle: normalizeTagTitle(fields.title) };
+    return db.tag.upsert({
+      where: { id },
+      create: { ...data, id, shelfId, games: { connect: games } },
+      update: { ...data, games: { set: games } },
+    });
+  },
+  file: async (db, shelfId, id, { gameId, ...fields }) => {
+    await findShelfGameOrFail(db, gameId, shelfId);
+    await assertBlobExists(fields.storageKey);
+    return db.file.upsert({
+      where: { id },
+      create: { ...fields, id, gameId },
+      update: fields,
+    });
+  },
+  wishlist: async (db, shelfId, gameId, { gameId: _, ...fields }) => {
+    const game = await findShelfGameOrFail(db, gameId, shelfId);
+    if (game.isOwned) {
+      throw new BadRequestError("Cannot add owned game to wishlist");
+    }
+    return db.wishlist.upsert({
+      where: { gameId },
+      create: {
+        ...fields,
+        gameId,
+        position: await nextWishlistPosition(shelfId, db),
+      },
+      update: fields,
+    });
+  },
+};
+
+// Snapshots are written by SNAPSHOTS, so their fields match the entity's revision
+function restore<E extends HistoryEntity>(
+  entityType: E,
+  db: Db,
+  shelfId: string,
+  id: string,
+  target: Snapshot
+) {
+  return RESTORERS[entityType](db, shelfId, id, target as unknown as Revisions[E]);
+}
+
+// Reverts a record to the revision of a history entry: the state right after it,
+// or for a delete the state right before it. The restore is recorded as a change.
+export async function restoreRevision(actor: Actor, entryId: string) {
+  const entry = await prisma.historyEntry.findFirst({
+    where: { id: entryId, shelfId: actor.shelfId },
+  });
+
+  if (!entry) {
+    throw new NotFoundError("History entry not found");
+  }
+
+  const target = (entry.action === "delete" ? entry.before : entry.after) as Snapshot;
+  const { entityType, entityId } = entry;
+
+  const { before, change } = await prisma.$transaction(async (tx) => {
+    const before = await takeSnapshot(entityType, entityId, tx);
+    await restore(entityType, tx, actor.shelfId, entityId, target);
+    const change = await recordChange(actor, entityType, entityId, before, {
+      db: tx,
+      restoredFromId: entry.id,
+    });
+    return { before, change };
+  });
+
+  if (!change) {
+    throw new BadRequestError("The record is already at this revision");
+  }
+
+  if (entityType === "session") {
+    await updatePlayStats(String(target.gameId));
+  }
+
+  // The blob the record pointed to until now is no longer used
+  const blobField = BLOB_FIELDS[entityType];
+  if (blobField && before?.[blobField] && before[blobField] !== target[blobField]) {
+    await removeBlobs([String(before[blobField])]);
+  }
+
+  return change;
+}
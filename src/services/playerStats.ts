@@ -0,0 +1,194 @@
+import { Prisma } from "../generated/prisma";
+import prisma from "../db";
+
+// Sessions in the trash, and sessions of games in the trash, are left out of every statistic
+export const NOT_TRASHED = `s."deletedAt" IS NULL AND g."deletedAt" IS NULL`;
+
+// A session counts towards the win rate only when some result was recorded for it
+const RESULT_RECORDED = `
+  EXISTS (
+    SELECT 1 FROM "SessionPlayer" r
+    WHERE r."sessionId" = sp."sessionId"
+      AND (r."isWinner" OR r."position" IS NOT NULL OR r."score" IS NOT NULL)
+  )
+`;
+
+// Totals, favorite games, streaks and win rate for one player
+export async function getPlayerStats(playerId: string) {
+  const [totals] = await prisma.$queryRawUnsafe<
+    {
+      totalPlays: number;
+      distinctGames: number;
+      lastPlayed: Date | null;
+      playsWithResults: number;
+      wins: number;
+    }[]
+  >(
+    `
+    SELECT
+      COUNT(*)::int AS "totalPlays",
+      COUNT(DISTINCT s."gameId")::int AS "distinctGames",
+      MAX(s."date") AS "lastPlayed",
+      COUNT(*) FILTER (WHERE ${RESULT_RECORDED})::int AS "playsWithResults",
+      COUNT(*) FILTER (WHERE sp."isWinner")::int AS "wins"
+    FROM "SessionPlayer" sp
+    JOIN "Session" s ON s."id" = sp."sessionId"
+    JOIN "Game" g ON g."id" = s."gameId"
+    WHERE sp."playerId" = $1 AND ${NOT_TRASHED}
+    `,
+    playerId
+  );
+
+  const mostPlayedGames = await prisma.$queryRaw<
+    { gameId: string; title: string; plays: number; wins: number; lastPlayed: Date }[]
+  >`
+    SELECT
+      g."id" AS "gameId",
+      g."title",
+      COUNT(*)::int AS "plays",
+      COUNT(*) FILTER (WHERE sp."isWinner")::int AS "wins",
+      MAX(s."date") AS "lastPlayed"
+    FROM "SessionPlayer" sp
+    JOIN "Session" s ON s."id" = sp."sessionId"
+    JOIN "Game" g ON g."id" = s."gameId"
+    WHERE sp."playerId" = ${playerId} AND ${Prisma.raw(NOT_TRASHED)}
+    GROUP BY g."id", g."title"
+    ORDER BY "plays" DESC, "lastPlayed" DESC
+    LIMIT 5
+  `;
+
+  // Streaks are counted in consecutive calendar weeks with at least one play
+  const [streaks] = await prisma.$queryRaw<
+    { longestStreak: number; currentStreak: number }[]
+  >`
+    WITH weeks AS (
+      SELECT DISTINCT date_trunc('week', s."date") AS week
+      FROM "SessionPlayer" sp
+      JOIN "Session" s ON s."id" = sp."sessionId"
+      JOIN "Game" g ON g."id" = s."gameId"
+      WHERE sp."playerId" = ${playerId} AND ${Prisma.raw(NOT_TRASHED)}
+    ),
+    runs AS (
+      SELECT week, week - (ROW_NUMBER() OVER (ORDER BY week)) * INTERVAL '1 week' AS run
+      FROM weeks
+    ),
+    lengths AS (
+      SELECT run, COUNT(*)::int AS length, MAX(week) AS "lastWeek"
+      FROM runs
+      GROUP BY run
+    )
+    SELECT
+      COALESCE(MAX(length), 0)::int AS "longestStreak",
+      COALESCE(MAX(length) FILTER (
+        WHERE "lastWeek" >= date_trunc('week', NOW()) - INTERVAL '1 week'
+      ), 0)::int AS "currentStreak"
+    FROM lengths
+  `;
+
+  return {
+    totalPlays: totals.totalPlays,
+    distinctGames: totals.distinctGames,
+    lastPlayed: totals.lastPlayed,
+    mostPlayedGames,
+    streaks: { unit: "week", ...streaks },
+    wins: totals.wins,
+    playsWithResults: totals.playsWithResults,
+    winRate:
+      totals.playsWithResults > 0
+        ? totals.wins / totals.playsWithResults
+        : null,
+  };
+}
+
+// Sessions two players shared, with a summary of who came out ahead
+export async function getHeadToHead(playerAId: string, playerBId: string) {
+  // A beats B by winning when B didn't, otherwise by a better position, otherwise by a higher score
+  const outcome = `
+    CASE
+      WHEN a."isWinner" AND NOT b."isWinner" THEN 1
+      WHEN b."isWinner" AND NOT a."isWinner" THEN -1
+      WHEN a."position" IS NOT NULL AND b."position" IS NOT NULL AND a."position" <> b."position"
+        THEN CASE WHEN a."position" < b."position" THEN 1 ELSE -1 END
+      WHEN a."score" IS NOT NULL AND b."score" IS NOT NULL AND a."score" <> b."score"
+        THEN CASE WHEN a."score" > b."score" THEN 1 ELSE -1 END
+      WHEN a."isWinner" OR a."position" IS NOT NULL OR a."score" IS NOT NULL
+        OR b."isWinner" OR b."position" IS NOT NULL OR b."score" IS NOT NULL
+        THEN 0
+      ELSE NULL
+    END
+  `;
+
+  const shared = `
+    FROM "SessionPlayer" a
+    JOIN "SessionPlayer" b ON b."sessionId" = a."sessionId"
+    JOIN "Session" s ON s."id" = a."sessionId"
+    JOIN "Game" g ON g."id" = s."gameId"
+    WHERE a."playerId" = $1 AND b."playerId" = $2 AND ${NOT_TRASHED}
+  `;
+
+  const [summary] = await prisma.$queryRawUnsafe<
+    {
+      sessionsTogether: number;
+      playerAWins: number;
+      playerBWins: number;
+      ties: number;
+      undecided: number;
+      cooperativeWins: number;
+      cooperativeLosses: number;
+    }[]
+  >(
+    `
+    SELECT
+      COUNT(*)::int AS "sessionsTogether",
+      COUNT(*) FILTER (WHERE NOT s."isCooperative" AND ${outcome} = 1)::int AS "playerAWins",
+      COUNT(*) FILTER (WHERE NOT s."isCooperative" AND ${outcome} = -1)::int AS "playerBWins",
+      COUNT(*) FILTER (WHERE NOT s."isCooperative" AND ${outcome} = 0)::int AS "ties",
+      COUNT(*) FILTER (WHERE NOT s."isCooperative" AND ${outcome} IS NULL)::int AS "undecided",
+      COUNT(*) FILTER (WHERE s."isCooperative" AND s."cooperativeWin")::int AS "cooperativeWins",
+      COUNT(*) FILTER (WHERE s."isCooperative" AND s."cooperativeWin" = false)::int AS "cooperativeLosses"
+    ${shared}
+    `,
+    playerAId,
+    playerBId
+  );
+
+  const history = await prisma.$queryRawUnsafe<
+    {
+      sessionId: string;
+      date: Date;
+      gameId: string;
+      gameTitle: string;
+      isCooperative: boolean;
+      cooperativeWin: boolean | null;
+      playerA: { score: number | null; position: number | null; isWinner: boolean; team: string | null };
+      playerB: { score: number | null; position: number | null; isWinner: boolean; team: string | null };
+      outcome: number | null;
+    }[]
+  >(
+    `
+    SELECT
+      s."id" AS "sessionId",
+      s."date",
+      g."id" AS "gameId",
+      g."title" AS "gameTitle",
+      s."isCooperative",
+      s."cooperativeWin",
+      json_build_object('score', a."score", 'position', a."position", 'isWinner', a."isWinner", 'team', a."team") AS "playerA",
+      json_build_object('score', b."score", 'position', b."position", 'isWinner', b."isWinner", 'team', b."team") AS "playerB",
+      CASE WHEN s."isCooperative" THEN NULL ELSE ${outcome} END AS "outcome"
+    ${shared}
+    ORDER BY s."date" DESC
+    `,
+    playerAId,
+    playerBId
+  );
+
+  return {
+    ...summary,
+    history: history.map(({ outcome, ...session }) => ({
+      ...session,
+      winner:
+        outcome === 1 ? "playerA" : outcome === -1 ? "playerB" : outcome === 0 ? "tie" : null,
+    })),
+  };
+}
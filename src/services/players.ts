@@ -0,0 +1,333 @@
+import { Prisma } from "../generated/prisma";
+import prisma from "../db";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../error-handling/errors";
+import { Actor, recordChange, takeSnapshot } from "./history";
+
+type Db = Prisma.TransactionClient;
+
+// Players are matched on their lowercased name with whitespace collapsed
+export function normalizePlayerName(name: string) {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Finds the player a name belongs to, by their own name or one of their aliases.
+// Players in the trash are found too, so their names stay taken.
+export async function findPlayerByName(
+  shelfId: string,
+  name: string,
+  db: Db = prisma
+) {
+  const normalized = normalizePlayerName(name);
+  const player = await db.player.findUnique({
+    where: { shelfId_normalizedName: { shelfId, normalizedName: normalized } },
+  });
+  if (player) {
+    return player;
+  }
+
+  const alias = await db.playerAlias.findUnique({
+    where: { shelfId_normalizedAlias: { shelfId, normalizedAlias: normalized } },
+    include: { player: true },
+  });
+  return alias?.player ?? null;
+}
+
+// A name can only belong to one player, either as their name or as an alias
+export async function assertNameAvailable(
+  shelfId: string,
+  name: string,
+  exceptPlayerId?: string
+) {
+  const owner = await findPlayerByName(shelfId, name);
+  if (owner && owner.id !== exceptPlayerId) {
+    throw new ConflictError(`${name.trim()} is already used by ${owner.name}`);
+  }
+}
+
+// Moves everything the source players took part in to the target player and deletes the sources.
+// Their names become aliases of the target, so sessions logged under them keep resolving.
+export async function mergePlayers(
+  actor: Actor,
+  sourcePlayerIds: string[],
+  targetPlayerId: string
+) {
+  const found = await prisma.player.count({
+    where: {
+      id: { in: [...sourcePlayerIds, targetPlayerId] },
+      shelfId: actor.shelfId,
+      deletedAt: null,
+    },
+  });
+
+  if (found !== sourcePlayerIds.length + 1) {
+    throw new NotFoundError("Player not found");
+  }
+
+  // The merged player can only be linked to one user account
+  const linked = await prisma.player.findMany({
+    where: {
+      id: { in: [...sourcePlayerIds, targetPlayerId] },
+      userId: { not: null },
+    },
+    orderBy: { name: "asc" },
+  });
+  if (linked.length > 1) {
+    const names = linked.map((player) => player.name).join(", ");
+    throw new ConflictError(
+      `${names} are linked to different users; unlink all but one before merging`
+    );
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const targetBefore = await takeSnapshot("player", targetPlayerId, tx);
+    const target = await tx.player.findUniqueOrThrow({
+      where: { id: targetPlayerId },
+    });
+    const sources = await tx.player.findMany({
+      where: { id: { in: sourcePlayerIds } },
+    });
+
+    let userId = target.userId;
+    for (const source of sources) {
+      const before = await takeSnapshot("player", source.id, tx);
+
+      // Where both played the same session, the target's own result is kept
+      const results = await tx.sessionPlayer.findMany({
+        where: { playerId: source.id },
+      });
+      for (const result of results) {
+        const { count } = await tx.sessionPlayer.deleteMany({
+          where: {
+            id: result.id,
+            session: { players: { some: { playerId: targetPlayerId } } },
+          },
+        });
+        if (count === 0) {
+          await tx.sessionPlayer.update({
+            where: { id: result.id },
+            data: { playerId: targetPlayerId },
+          });
+        }
+      }
+
+      await tx.loan.updateMany({
+        where: { playerId: source.id },
+        data: { playerId: targetPlayerId },
+      });
+      await tx.gameNight.updateMany({
+        where: { hostId: source.id },
+        data: { hostId: targetPlayerId },
+      });
+
+      // Invites and votes the target already has win over the source's
+      await tx.gameNightInvitee.deleteMany({
+        where: {
+          playerId: source.id,
+          gameNight: { invitees: { some: { playerId: targetPlayerId } } },
+        },
+      });
+      await tx.gameNightInvitee.updateMany({
+        where: { playerId: source.id },
+        data: { playerId: targetPlayerId },
+      });
+      await tx.gameNightVote.deleteMany({
+        where: {
+          playerId: source.id,
+          candidate: { votes: { some: { playerId: targetPlayerId } } },
+        },
+      });
+      await tx.gameNightVote.updateMany({
+        where: { playerId: source.id },
+        data: { playerId: targetPlayerId },
+      });
+
+      await tx.playerAlias.updateMany({
+        where: { playerId: source.id },
+        data: { playerId: targetPlayerId },
+      });
+      // Only one of the players is linked, so the target takes over the source's link
+      if (source.userId) {
+        userId = source.userId;
+      }
+
+      await tx.player.delete({ where: { id: source.id } });
+      await tx.playerAlias.create({
+        data: {
+          playerId: targetPlayerId,
+          shelfId: actor.shelfId,
+          alias: source.name,
+          normalizedAlias: source.normalizedName,
+        },
+      });
+      await recordChange(actor, "player", source.id, before, { db: tx });
+    }
+
+    const player = await tx.player.update({
+      where: { id: targetPlayerId },
+      data: { userId },
+      include: { aliases: { orderBy: { alias: "asc" } } },
+    });
+    await recordChange(actor, "player", targetPlayerId, targetBefore, {
+      db: tx,
+    });
+    return player;
+  });
+}
+
+// Helper function to find a player on the shelf that is not in the trash
+export async function findShelfPlayer(playerId: string, shelfId: string) {
+  return prisma.player.findFirst({
+    where: { id: playerId, shelfId, deletedAt: null },
+  });
+}
+
+export async function createPlayer(actor: Actor, name: string) {
+  await assertNameAvailable(actor.shelfId, name);
+  const player = await prisma.player.create({
+    data: {
+      name,
+      normalizedName: normalizePlayerName(name),
+      shelfId: actor.shelfId,
+    },
+  });
+  await recordChange(actor, "player", player.id, null);
+  return player;
+}
+
+export async function updatePlayer(
+  actor: Actor,
+  playerId: string,
+  name: string
+) {
+  const player = await findShelfPlayer(playerId, actor.shelfId);
+
+  if (!player) {
+    throw new NotFoundError("Player not found");
+  }
+
+  await assertNameAvailable(actor.shelfId, name, playerId);
+  const before = await takeSnapshot("player", playerId);
+
+  const updatedPlayer = await prisma.player.update({
+    where: { id: playerId },
+    data: { name, normalizedName: normalizePlayerName(name) },
+  });
+  await recordChange(actor, "player", playerId, before);
+  return updatedPlayer;
+}
+
+// Moves a player to the trash
+export async function trashPlayer(actor: Actor, playerId: string) {
+  const player = await findShelfPlayer(playerId, actor.shelfId);
+
+  if (!player) {
+    throw new NotFoundError("Player not found");
+  }
+
+  const before = await takeSnapshot("player", playerId);
+
+  // Their session results stay, so restoring the player brings their history back
+  await prisma.player.update({
+    where: { id: playerId },
+    data: { deletedAt: new Date() },
+  });
+  await recordChange(actor, "player", playerId, before);
+}
+
+// Adds another name the player is logged under
+export async function addPlayerAlias(
+  actor: Actor,
+  playerId: string,
+  alias: string
+) {
+  const player = await findShelfPlayer(playerId, actor.shelfId);
+
+  if (!player) {
+    throw new NotFoundError("Player not found");
+  }
+
+  await assertNameAvailable(actor.shelfId, alias);
+  const before = await takeSnapshot("player", playerId);
+
+  const playerAlias = await prisma.playerAlias.create({
+    data: {
+      playerId,
+      shelfId: actor.shelfId,
+      alias,
+      normalizedAlias: normalizePlayerName(alias),
+    },
+  });
+  await recordChange(actor, "player", playerId, before);
+  return playerAlias;
+}
+
+export async function removePlayerAlias(
+  actor: Actor,
+  playerId: string,
+  aliasId: string
+) {
+  const player = await findShelfPlayer(playerId, actor.shelfId);
+
+  if (!player) {
+    throw new NotFoundError("Player not found");
+  }
+
+  const before = await takeSnapshot("player", playerId);
+
+  const { count } = await prisma.playerAlias.deleteMany({
+    where: { id: aliasId, playerId, shelfId: actor.shelfId },
+  });
+
+  if (count === 0) {
+    throw new NotFoundError("Alias not found");
+  }
+
+  await recordChange(actor, "player", playerId, before);
+}
+
+// Links a player to the account of a shelf member, or unlinks it with null
+export async function linkPlayerUser(
+  actor: Actor,
+  playerId: string,
+  userId: string | null
+) {
+  const { shelfId } = actor;
+  const player = await findShelfPlayer(playerId, shelfId);
+
+  if (!player) {
+    throw new NotFoundError("Player not found");
+  }
+
+  if (userId) {
+    const member = await prisma.shelfMember.findUnique({
+      where: { shelfId_userId: { shelfId, userId } },
+    });
+    if (!member) {
+      throw new ValidationError("Invalid request body", [
+        { field: "userId", message: "Must be a member of the shelf" },
+      ]);
+    }
+
+    const linked = await prisma.player.findUnique({
+      where: { shelfId_userId: { shelfId, userId } },
+    });
+    if (linked && linked.id !== playerId) {
+      throw new ConflictError(
+        `This account is already linked to ${linked.name}`
+      );
+    }
+  }
+
+  const before = await takeSnapshot("player", playerId);
+
+  const updatedPlayer = await prisma.player.update({
+    where: { id: playerId },
+    data: { userId },
+  });
+  await recordChange(actor, "player", playerId, before);
+  return updatedPlayer;
+}
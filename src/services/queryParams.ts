@@ -0,0 +1,87 @@
+import { ErrorDetail } from "../error-handling/errors";
+
+// Query values may be repeated (?tag=a&tag=b) or comma separated (?tags=a,b)
+export function readList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((item): item is string => typeof item === "string")
+    .flatMap((item) => item.split(","))
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
+
+export function readString(query: Record<string, unknown>, field: string) {
+  const value = query[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? String(value[value.length - 1]) : undefined;
+  }
+  return String(value).trim() || undefined;
+}
+
+export function readNumber(
+  query: Record<string, unknown>,
+  field: string,
+  errors: ErrorDetail[],
+  { integer = false, min = -Infinity, max = Infinity } = {}
+) {
+  const raw = readString(query, field);
+  if (raw === undefined) {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (
+    Number.isNaN(value) ||
+    (integer && !Number.isInteger(value)) ||
+    value < min ||
+    value > max
+  ) {
+    let message = integer ? "Must be an integer" : "Must be a number";
+    if (min > -Infinity && max < Infinity) {
+      message += ` between ${min} and ${max}`;
+    } else if (min > -Infinity) {
+      message += ` of at least ${min}`;
+    } else if (max < Infinity) {
+      message += ` of at most ${max}`;
+    }
+    errors.push({ field, message });
+    return undefined;
+  }
+  return value;
+}
+
+export function readBoolean(
+  query: Record<string, unknown>,
+  field: string,
+  errors: ErrorDetail[]
+) {
+  const raw = readString(query, field);
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (raw !== "true" && raw !== "false") {
+    errors.push({ field, message: "Must be true or false" });
+    return undefined;
+  }
+  return raw === "true";
+}
+
+// Accepts an ISO 8601 date or date-time, like the isoDate body schema
+export function readDate(
+  query: Record<string, unknown>,
+  field: string,
+  errors: ErrorDetail[]
+) {
+  const raw = readString(query, field);
+  if (raw === undefined) {
+    return undefined;
+  }
+  const value = new Date(raw);
+  if (!/^\d{4}-\d{2}-\d{2}/.test(raw) || Number.isNaN(value.getTime())) {
+    errors.push({ field, message: "Must be an ISO 8601 date" });
+    return undefined;
+  }
+  return value;
+}
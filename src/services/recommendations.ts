@@ -0,0 +1,171 @@
+import { Prisma } from "../generated/prisma";
+import prisma from "../db";
+import { effectiveRange } from "./games";
+import { readList, readNumber } from "./queryParams";
+import { ErrorDetail } from "../error-handling/errors";
+
+// Weights of the score parts; each part is between 0 and 1 before weighting
+const RATING_WEIGHT = 3;
+const RECENCY_WEIGHT = 2;
+const FAMILIARITY_WEIGHT = 1;
+// Added to games that were never played, can be overridden with ?unplayedBoost=
+const DEFAULT_UNPLAYED_BOOST = 1.5;
+// Games not played for this long get the full recency score
+const RECENCY_CAP_DAYS = 180;
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseRecommendQuery(query: Record<string, unknown>) {
+  const errors: ErrorDetail[] = [];
+
+  const players = readNumber(query, "players", errors, {
+    integer: true,
+    min: 1,
+  });
+  if (players === undefined && !errors.some((e) => e.field === "players")) {
+    errors.push({ field: "players", message: "Is required" });
+  }
+
+  const minutes = readNumber(query, "minutes", errors, {
+    integer: true,
+    min: 1,
+  });
+  const unplayedBoost =
+    readNumber(query, "unplayedBoost", errors, { min: 0, max: 10 }) ??
+    DEFAULT_UNPLAYED_BOOST;
+  const limit =
+    readNumber(query, "limit", errors, {
+      integer: true,
+      min: 1,
+      max: MAX_LIMIT,
+    }) ?? DEFAULT_LIMIT;
+  const playerIds = [...new Set(readList(query.playerIds))];
+
+  return { errors, players, minutes, unplayedBoost, limit, playerIds };
+}
+
+function describeAge(days: number) {
+  if (days < 14) {
+    return `played ${days} day${days === 1 ? "" : "s"} ago`;
+  }
+  if (days < 60) {
+    return `not played for ${Math.floor(days / 7)} weeks`;
+  }
+  return `not played for ${Math.floor(days / 30)} months`;
+}
+
+// Ranks owned games that fit the table, with their owned expansions, and the time available
+export async function recommendGames(
+  shelfId: string,
+  options: {
+    players: number;
+    minutes?: number;
+    unplayedBoost: number;
+    limit: number;
+    playerIds: string[];
+  }
+) {
+  const fits = {
+    minPlayers: { lte: options.players },
+    maxPlayers: { gte: options.players },
+  };
+  const ownedExpansions: Prisma.GameWhereInput = { isOwned: true, deletedAt: null };
+  const games = await prisma.game.findMany({
+    where: {
+      shelfId,
+      deletedAt: null,
+      isOwned: true,
+      playTime: options.minutes ? { lte: options.minutes } : undefined,
+      AND: [
+        // Expansions are suggested with their base game, unless it is in the trash
+        { OR: [{ baseGameId: null }, { baseGame: { deletedAt: { not: null } } }] },
+        // An owned expansion can make its base game fit the table
+        { OR: [fits, { expansions: { some: { ...fits, ...ownedExpansions } } }] },
+      ],
+    },
+    include: {
+      _count: { select: { sessions: { where: { deletedAt: null } } } },
+      expansions: { where: ownedExpansions, orderBy: { title: "asc" } },
+    },
+  });
+
+  // How many of the people present have played each game
+  const familiarity = new Map<string, number>();
+  if (options.playerIds.length > 0 && games.length > 0) {
+    const rows = await prisma.$queryRaw<{ gameId: string; players: number }[]>`
+      SELECT s."gameId", COUNT(DISTINCT sp."playerId")::int AS "players"
+      FROM "SessionPlayer" sp
+      JOIN "Session" s ON s."id" = sp."sessionId"
+      WHERE sp."playerId" IN (${Prisma.join(options.playerIds)})
+        AND s."deletedAt" IS NULL
+        AND s."gameId" IN (${Prisma.join(games.map((game) => game.id))})
+      GROUP BY s."gameId"
+    `;
+    for (const row of rows) {
+      familiarity.set(row.gameId, row.players);
+    }
+  }
+
+  const now = Date.now();
+  const ranked = games.map(({ expansions, ...game }) => {
+    const reasons: string[] = [];
+    let score = 0;
+
+    if (
+      game.minPlayers > options.players ||
+      game.maxPlayers < options.players
+    ) {
+      const needed = expansions.filter(
+        (expansion) =>
+          expansion.minPlayers <= options.players &&
+          expansion.maxPlayers >= options.players
+      );
+      reasons.push(
+        `fits ${options.players} players with ${needed
+          .map((expansion) => expansion.title)
+          .join(" or ")}`
+      );
+    }
+
+    const rating = game.myRating ?? game.rating;
+    score += (Math.min(Math.max(rating, 0), 10) / 10) * RATING_WEIGHT;
+    reasons.push(
+      game.myRating !== null
+        ? `you rated it ${game.myRating}/10`
+        : `rated ${game.rating}/10`
+    );
+
+    if (game.lastPlayedAt) {
+      const days = Math.floor((now - game.lastPlayedAt.getTime()) / DAY_MS);
+      score += (Math.min(days, RECENCY_CAP_DAYS) / RECENCY_CAP_DAYS) * RECENCY_WEIGHT;
+      reasons.push(describeAge(days));
+    } else {
+      score += options.unplayedBoost;
+      reasons.push("never played yet");
+    }
+
+    if (options.playerIds.length > 0) {
+      const known = familiarity.get(game.id) ?? 0;
+      score += (known / options.playerIds.length) * FAMILIARITY_WEIGHT;
+      reasons.push(
+        known === 0
+          ? "new to everyone present"
+          : `${known} of ${options.playerIds.length} players have played it`
+      );
+    }
+
+    const explanation = reasons.join(", ");
+    return {
+      game,
+      effectiveRange: effectiveRange(game, expansions),
+      score: Math.round(score * 100) / 100,
+      explanation: explanation.charAt(0).toUpperCase() + explanation.slice(1),
+    };
+  });
+
+  ranked.sort((a, b) => b.score - a.score);
+  return ranked.slice(0, options.limit);
+}
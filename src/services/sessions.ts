@@ -0,0 +1,257 @@
+import { Player, Prisma } from "../generated/prisma";
+import prisma from "../db";
+import {
+  BadRequestError,
+  NotFoundError,
+  ValidationError,
+} from "../error-handling/errors";
+import {
+  CreateSessionInput,
+  PlayerResultInput,
+  UpdateSessionInput,
+} from "../schemas/sessions";
+import {
+  findShelfGame,
+  updatePlayStats,
+  validateSessionExpansions,
+} from "./games";
+import { publishEvent } from "./events";
+import { Actor, recordChange, takeSnapshot } from "./history";
+import { findPlayerByName, normalizePlayerName } from "./players";
+
+type Db = Prisma.TransactionClient;
+
+// Relations returned with every session
+export const sessionInclude = {
+  players: { include: { player: true } },
+  game: true,
+  expansions: { select: { id: true, title: true } },
+};
+
+// Creates the players of a session that are new to the shelf and returns their result rows,
+// along with the new players. Names are matched case-insensitively and through aliases.
+export async function createPlayerResults(
+  actor: Actor,
+  players: PlayerResultInput[] | undefined,
+  cooperativeWin?: boolean | null,
+  db: Db = prisma
+) {
+  const { shelfId } = actor;
+  const results = [];
+  const newPlayers: Player[] = [];
+  const seen = new Set<string>();
+  if (players && players.length > 0) {
+    for (const player of players) {
+      let existingPlayer = await findPlayerByName(shelfId, player.name, db);
+
+      // Names stay taken while a player is in the trash
+      if (existingPlayer?.deletedAt) {
+        throw new BadRequestError(
+          `Player ${player.name} is in the trash, restore them first`
+        );
+      }
+
+      if (!existingPlayer) {
+        existingPlayer = await db.player.create({
+          data: {
+            name: player.name.trim(),
+            normalizedName: normalizePlayerName(player.name),
+            shelfId,
+          },
+        });
+        await recordChange(actor, "player", existingPlayer.id, null, { db });
+        newPlayers.push(existingPlayer);
+      }
+
+      // e.g. a player listed once by name and once by an alias
+      if (seen.has(existingPlayer.id)) {
+        throw new BadRequestError(
+          `${player.name} is listed more than once in this session`
+        );
+      }
+      seen.add(existingPlayer.id);
+
+      results.push({
+        player: { connect: { id: existingPlayer.id } },
+        score: player.score ?? null,
+        position: player.position ?? null,
+        // In a cooperative game the whole table wins or loses together
+        isWinner:
+          typeof cooperativeWin === "boolean"
+            ? cooperativeWin
+            : Boolean(player.isWinner),
+        team: player.team ?? null,
+      });
+    }
+  }
+  return { results, newPlayers };
+}
+
+// Players created while logging sessions are published once their transaction has committed
+export function publishNewPlayers(actor: Actor, newPlayers: Player[]) {
+  for (const player of newPlayers) {
+    publishEvent(actor, "player.created", player);
+  }
+}
+
+// Helper function to find a session on the shelf that is not in the trash
+async function findShelfSession(sessionId: string, shelfId: string) {
+  return prisma.session.findFirst({
+    where: {
+      id: sessionId,
+      deletedAt: null,
+      game: { shelfId, deletedAt: null },
+    },
+  });
+}
+
+export async function createSession(
+  actor: Actor,
+  gameId: string,
+  input: CreateSessionInput
+) {
+  const { date, notes, players, isCooperative, cooperativeWin, expansionIds } =
+    input;
+  const { shelfId } = actor;
+
+  const game = await findShelfGame(gameId, shelfId);
+
+  if (!game) {
+    throw new NotFoundError("Game not found");
+  }
+
+  if (expansionIds && expansionIds.length > 0) {
+    const expansionError = await validateSessionExpansions(
+      expansionIds,
+      gameId,
+      shelfId
+    );
+    if (expansionError) {
+      throw new ValidationError("Invalid request body", [expansionError]);
+    }
+  }
+
+  const coopResult = isCooperative ? cooperativeWin ?? null : null;
+
+  // New players are created in the same transaction, so a failing session leaves none behind
+  const { session, newPlayers } = await prisma.$transaction(async (tx) => {
+    const { results, newPlayers } = await createPlayerResults(
+      actor,
+      players,
+      coopResult,
+      tx
+    );
+    const session = await tx.session.create({
+      data: {
+        date,
+        notes,
+        isCooperative: Boolean(isCooperative),
+        cooperativeWin: coopResult,
+        game: { connect: { id: gameId } },
+        players: { create: results },
+        expansions: {
+          connect: (expansionIds ?? []).map((id) => ({ id })),
+        },
+      },
+      include: sessionInclude,
+    });
+    await updatePlayStats(gameId, tx);
+    await recordChange(actor, "session", session.id, null, { db: tx });
+    return { session, newPlayers };
+  });
+
+  publishNewPlayers(actor, newPlayers);
+  return session;
+}
+
+export async function updateSession(
+  actor: Actor,
+  sessionId: string,
+  input: UpdateSessionInput
+) {
+  const { date, notes, players, isCooperative, cooperativeWin, expansionIds } =
+    input;
+  const { shelfId } = actor;
+
+  const session = await findShelfSession(sessionId, shelfId);
+
+  if (!session) {
+    throw new NotFoundError("Session not found");
+  }
+
+  if (expansionIds && expansionIds.length > 0) {
+    const expansionError = await validateSessionExpansions(
+      expansionIds,
+      session.gameId,
+      shelfId
+    );
+    if (expansionError) {
+      throw new ValidationError("Invalid request body", [expansionError]);
+    }
+  }
+
+  const cooperative = isCooperative ?? session.isCooperative;
+  const coopResult = cooperative
+    ? cooperativeWin !== undefined
+      ? cooperativeWin
+      : session.cooperativeWin
+    : null;
+
+  const { updatedSession, newPlayers } = await prisma.$transaction(async (tx) => {
+    const before = await takeSnapshot("session", sessionId, tx);
+
+    let playerUpdates;
+    let newPlayers: Player[] = [];
+    if (players) {
+      // Results are replaced as a whole when players are sent
+      const created = await createPlayerResults(actor, players, coopResult, tx);
+      newPlayers = created.newPlayers;
+      playerUpdates = { deleteMany: {}, create: created.results };
+    } else if (typeof coopResult === "boolean") {
+      playerUpdates = {
+        updateMany: { where: {}, data: { isWinner: coopResult } },
+      };
+    }
+
+    const updatedSession = await tx.session.update({
+      where: { id: sessionId },
+      data: {
+        date,
+        // null clears the notes, undefined leaves them as they are
+        notes,
+        isCooperative: cooperative,
+        cooperativeWin: coopResult,
+        players: playerUpdates,
+        expansions: expansionIds
+          ? { set: expansionIds.map((id) => ({ id })) }
+          : undefined,
+      },
+      include: sessionInclude,
+    });
+    await updatePlayStats(session.gameId, tx);
+    await recordChange(actor, "session", sessionId, before, { db: tx });
+    return { updatedSession, newPlayers };
+  });
+
+  publishNewPlayers(actor, newPlayers);
+  return updatedSession;
+}
+
+// Moves a session to the trash
+export async function trashSession(actor: Actor, sessionId: string) {
+  const session = await findShelfSession(sessionId, actor.shelfId);
+
+  if (!session) {
+    throw new NotFoundError("Session not found");
+  }
+
+  const before = await takeSnapshot("session", sessionId);
+
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { deletedAt: new Date() },
+  });
+  await updatePlayStats(session.gameId);
+  await recordChange(actor, "session", sessionId, before);
+  return session;
+}
@@ -0,0 +1,188 @@
+import { Prisma } from "../generated/prisma";
+import prisma from "../db";
+import { ErrorDetail } from "../error-handling/errors";
+import { NOT_TRASHED } from "./playerStats";
+import { readDate, readNumber, readString } from "./queryParams";
+
+const DEFAULT_UNPLAYED_MONTHS = 12;
+
+export function parseStatsQuery(query: Record<string, unknown>) {
+  const errors: ErrorDetail[] = [];
+
+  const from = readDate(query, "from", errors);
+  const to = readDate(query, "to", errors);
+  // A plain date as the end of the range includes that whole day
+  const until =
+    to && /^\d{4}-\d{2}-\d{2}$/.test(readString(query, "to"))
+      ? new Date(to.getTime() + 24 * 60 * 60 * 1000)
+      : to;
+  if (from && to && from > to) {
+    errors.push({ field: "from", message: "Must not be after to" });
+  }
+
+  const unplayedMonths =
+    readNumber(query, "unplayedMonths", errors, {
+      integer: true,
+      min: 1,
+      max: 120,
+    }) ?? DEFAULT_UNPLAYED_MONTHS;
+  const playerId = readString(query, "playerId");
+
+  return { errors, from, until, unplayedMonths, playerId };
+}
+
+// The largest h such that h games were each played at least h times
+function hIndex(playsPerGame: number[]) {
+  const sorted = [...playsPerGame].sort((a, b) => b - a);
+  let h = 0;
+  while (h < sorted.length && sorted[h] >= h + 1) {
+    h++;
+  }
+  return h;
+}
+
+function hours(minutes: number) {
+  return Math.round((minutes / 60) * 10) / 10;
+}
+
+// Plays, hours and collection statistics of a shelf. The date range limits sessions
+// by their date and the collection by when games were added; with a player only
+// their sessions count. Expansions are left out of the collection statistics.
+export async function getOverview(
+  shelfId: string,
+  options: {
+    from?: Date;
+    until?: Date;
+    unplayedMonths: number;
+    playerId?: string;
+  }
+) {
+  const { from, until, unplayedMonths, playerId } = options;
+
+  const conditions = [
+    Prisma.sql`g."shelfId" = ${shelfId}`,
+    Prisma.raw(NOT_TRASHED),
+  ];
+  if (from) {
+    conditions.push(Prisma.sql`s."date" >= ${from}`);
+  }
+  if (until) {
+    conditions.push(Prisma.sql`s."date" < ${until}`);
+  }
+  if (playerId) {
+    conditions.push(Prisma.sql`
+      EXISTS (
+        SELECT 1 FROM "SessionPlayer" sp
+        WHERE sp."sessionId" = s."id" AND sp."playerId" = ${playerId}
+      )
+    `);
+  }
+  const sessions = Prisma.sql`
+    FROM "Session" s
+    JOIN "Game" g ON g."id" = s."gameId"
+    WHERE ${Prisma.join(conditions, " AND ")}
+  `;
+
+  const byPeriod = (unit: string, format: string) =>
+    prisma.$queryRaw<
+      { period: string; plays: number; distinctGames: number; minutes: number }[]
+    >`
+      SELECT
+        to_char(date_trunc(${unit}, s."date"), ${format}) AS "period",
+        COUNT(*)::int AS "plays",
+        COUNT(DISTINCT s."gameId")::int AS "distinctGames",
+        COALESCE(SUM(g."playTime"), 0)::int AS "minutes"
+      ${sessions}
+      GROUP BY "period"
+      ORDER BY "period"
+    `;
+
+  const [playsByMonth, playsByYear, playsPerGame] = await Promise.all([
+    byPeriod("month", "YYYY-MM"),
+    byPeriod("year", "YYYY"),
+    prisma.$queryRaw<
+      { gameId: string; title: string; plays: number; lastPlayed: Date }[]
+    >`
+      SELECT
+        g."id" AS "gameId",
+        g."title",
+        COUNT(*)::int AS "plays",
+        MAX(s."date") AS "lastPlayed"
+      ${sessions}
+      GROUP BY g."id", g."title"
+    `,
+  ]);
+
+  // Games last played before this are not played recently
+  const cutoff = new Date(until ?? Date.now());
+  cutoff.setMonth(cutoff.getMonth() - unplayedMonths);
+
+  const collection: Prisma.GameWhereInput = {
+    shelfId,
+    deletedAt: null,
+    isOwned: true,
+    baseGameId: null,
+    createdAt: { gte: from, lt: until },
+  };
+  const playedGameIds = new Set(playsPerGame.map((game) => game.gameId));
+
+  const [games, genres, tags] = await Promise.all([
+    prisma.game.findMany({
+      where: collection,
+      select: { id: true, title: true, coverImage: true, createdAt: true },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.game.groupBy({
+      by: ["genre"],
+      where: collection,
+      _count: { _all: true },
+      orderBy: { _count: { genre: "desc" } },
+    }),
+    prisma.tag.findMany({
+      where: { shelfId },
+      select: {
+        title: true,
+        _count: { select: { games: { where: collection } } },
+      },
+    }),
+  ]);
+
+  const ownedGameIds = new Set(games.map((game) => game.id));
+  const minutes = playsByYear.reduce((sum, year) => sum + year.minutes, 0);
+  const withHours = ({ minutes, ...period }: (typeof playsByMonth)[number]) => ({
+    ...period,
+    estimatedHours: hours(minutes),
+  });
+
+  return {
+    range: { from: from ?? null, to: until ?? null },
+    totals: {
+      plays: playsByYear.reduce((sum, year) => sum + year.plays, 0),
+      distinctGames: playsPerGame.length,
+      estimatedHours: hours(minutes),
+      hIndex: hIndex(playsPerGame.map((game) => game.plays)),
+    },
+    playsByMonth: playsByMonth.map(withHours),
+    playsByYear: playsByYear.map(withHours),
+    shelfOfShame: games.filter((game) => !playedGameIds.has(game.id)),
+    notPlayedRecently: {
+      months: unplayedMonths,
+      games: playsPerGame
+        .filter(
+          (game) => game.lastPlayed < cutoff && ownedGameIds.has(game.gameId)
+        )
+        .sort((a, b) => a.lastPlayed.getTime() - b.lastPlayed.getTime()),
+    },
+    collection: {
+      games: games.length,
+      genres: genres.map((genre) => ({
+        genre: genre.genre,
+        games: genre._count._all,
+      })),
+      tags: tags
+        .map((tag) => ({ tag: tag.title, games: tag._count.games }))
+        .filter((tag) => tag.games > 0)
+        .sort((a, b) => b.games - a.games || a.tag.localeCompare(b.tag)),
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+
+// Where uploaded blobs live. Other backends (S3, ...) only need to implement this.
+export interface BlobStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  // Resolves to null when the blob does not exist
+  open(key: string): Promise<Readable | null>;
+  // Deleting a missing blob is not an error
+  remove(key: string): Promise<void>;
+}
+
+// Keeps blobs as files below a directory on the server
+export class LocalDiskStorage implements BlobStorage {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  // Keys are generated by the server, but never let one point outside the root
+  private resolve(key: string) {
+    const fullPath = path.resolve(this.root, key);
+    if (!fullPath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  }
+
+  async save(key: string, data: Buffer) {
+    const fullPath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.promises.writeFile(fullPath, data);
+  }
+
+  async open(key: string) {
+    const fullPath = this.resolve(key);
+    try {
+      await fs.promises.access(fullPath, fs.constants.R_OK);
+    } catch {
+      return null;
+    }
+    return fs.createReadStream(fullPath);
+  }
+
+  async remove(key: string) {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+function createStorage(): BlobStorage {
+  const driver = process.env.STORAGE_DRIVER || "local";
+  switch (driver) {
+    case "local":
+      return new LocalDiskStorage(process.env.UPLOAD_DIR || "uploads");
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
+
+export const storage = createStorage();
+
+// New blobs are grouped by shelf and get a random name
+export function newStorageKey(shelfId: string, extension: string) {
+  return `${shelfId}/${crypto.randomUUID()}${extension}`;
+}
+
+// Removes blobs whose rows are already gone. A failure only leaves an orphaned
+// blob behind, so it is logged instead of failing the request.
+export async function removeBlobs(keys: (string | null)[]) {
+  for (const key of keys) {
+    if (!key) {
+      continue;
+    }
+    try {
+      await storage.remove(key);
+    } catch (error) {
+      console.error("Could not remove blob", key, error);
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { Prisma } from "../generated/prisma";
+import prisma from "../db";
+import { ConflictError, NotFoundError } from "../error-handling/errors";
+import { CreateTagInput, UpdateTagInput } from "../schemas/tags";
+import { Actor, recordChange, takeSnapshot } from "./history";
+
+type Db = Prisma.TransactionClient;
+
+// Tags are matched on their lowercased title with whitespace collapsed
+export function normalizeTagTitle(title: string) {
+  return title.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Finds a tag on the shelf by title, whatever its casing, or creates it.
+// Pass an actor to record newly created tags in the history.
+export async function findOrCreateTag(
+  shelfId: string,
+  title: string,
+  options: { db?: Db; actor?: Actor } = {}
+) {
+  const db = options.db ?? prisma;
+  const normalizedTitle = normalizeTagTitle(title);
+
+  const existing = await db.tag.findUnique({
+    where: { shelfId_normalizedTitle: { shelfId, normalizedTitle } },
+  });
+  if (existing) {
+    return existing;
+  }
+
+  const tag = await db.tag.create({
+    data: { shelfId, title: title.trim(), normalizedTitle },
+  });
+  if (options.actor) {
+    await recordChange(options.actor, "tag", tag.id, null, { db });
+  }
+  return tag;
+}
+
+// Ids of the tags with these titles, created where missing; casing variants become one tag
+export async function resolveTagIds(
+  titles: string[],
+  actor: Actor
+): Promise<{ id: string }[]> {
+  const ids = new Set<string>();
+  for (const title of titles) {
+    const tag = await findOrCreateTag(actor.shelfId, title, { actor });
+    ids.add(tag.id);
+  }
+  return [...ids].map((id) => ({ id }));
+}
+
+// Moves every game of the source tags to the target tag and deletes the sources,
+// recording each change in the history
+export async function mergeTags(
+  actor: Actor,
+  sourceTagIds: string[],
+  targetTagId: string
+) {
+  const found = await prisma.tag.count({
+    where: { id: { in: [...sourceTagIds, targetTagId] }, shelfId: actor.shelfId },
+  });
+
+  if (found !== sourceTagIds.length + 1) {
+    throw new NotFoundError("Tag not found");
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const targetBefore = await takeSnapshot("tag", targetTagId, tx);
+    const sources = await tx.tag.findMany({
+      where: { id: { in: sourceTagIds } },
+      include: { games: { select: { id: true } } },
+    });
+
+    for (const source of sources) {
+      const before = await takeSnapshot("tag", source.id, tx);
+      await tx.tag.update({
+        where: { id: targetTagId },
+        data: { games: { connect: source.games } },
+      });
+      await tx.tag.delete({ where: { id: source.id } });
+      await recordChange(actor, "tag", source.id, before, { db: tx });
+    }
+
+    await recordChange(actor, "tag", targetTagId, targetBefore, { db: tx });
+    return tx.tag.findUnique({ where: { id: targetTagId } });
+  });
+}
+
+export async function createTag(actor: Actor, input: CreateTagInput) {
+  const { title, color, group } = input;
+  const { shelfId } = actor;
+
+  const normalizedTitle = normalizeTagTitle(title);
+  const existingTag = await prisma.tag.findUnique({
+    where: { shelfId_normalizedTitle: { shelfId, normalizedTitle } },
+  });
+
+  if (existingTag) {
+    throw new ConflictError(`Tag ${existingTag.title} already exists`);
+  }
+
+  const tag = await prisma.tag.create({
+    data: {
+      shelfId,
+      title,
+      normalizedTitle,
+      color: color ?? null,
+      group: group ?? null,
+    },
+  });
+  await recordChange(actor, "tag", tag.id, null);
+  return tag;
+}
+
+// Renames a tag or changes its color or group
+export async function updateTag(
+  actor: Actor,
+  tagId: string,
+  input: UpdateTagInput
+) {
+  const { shelfId } = actor;
+  const tag = await prisma.tag.findFirst({
+    where: { id: tagId, shelfId },
+  });
+
+  if (!tag) {
+    throw new NotFoundError("Tag not found");
+  }
+
+  const normalizedTitle = input.title
+    ? normalizeTagTitle(input.title)
+    : undefined;
+  if (normalizedTitle && normalizedTitle !== tag.normalizedTitle) {
+    const otherTag = await prisma.tag.findUnique({
+      where: { shelfId_normalizedTitle: { shelfId, normalizedTitle } },
+    });
+    if (otherTag) {
+      throw new ConflictError(
+        `Tag ${otherTag.title} already exists, merge the tags instead`
+      );
+    }
+  }
+
+  const before = await takeSnapshot("tag", tagId);
+  const updatedTag = await prisma.tag.update({
+    where: { id: tagId },
+    data: { ...input, normalizedTitle },
+  });
+  await recordChange(actor, "tag", tagId, before);
+  return updatedTag;
+}
+
+export async function deleteTag(actor: Actor, tagId: string) {
+  const tag = await prisma.tag.findFirst({
+    where: { id: tagId, shelfId: actor.shelfId },
+  });
+
+  if (!tag) {
+    throw new NotFoundError("Tag not found");
+  }
+
+  const before = await takeSnapshot("tag", tagId);
+
+  await prisma.tag.delete({
+    where: { id: tagId },
+  });
+  await recordChange(actor, "tag", tagId, before);
+}
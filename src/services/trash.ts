@@ -0,0 +1,182 @@
+import { Prisma } from "../generated/prisma";
+import prisma from "../db";
+import { BadRequestError, NotFoundError } from "../error-handling/errors";
+import { updatePlayStats } from "./games";
+import { Actor, recordChange } from "./history";
+import { removeBlobs } from "./storage";
+
+export const TRASH_TYPES = ["games", "sessions", "players"] as const;
+export type TrashType = (typeof TRASH_TYPES)[number];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Records in the trash, newest first. Sessions of a trashed game stay with the
+// game and are only listed when they were deleted on their own.
+export async function listTrash(shelfId: string) {
+  const inTrash = { deletedAt: { not: null } as Prisma.DateTimeNullableFilter };
+  const [games, sessions, players] = await Promise.all([
+    prisma.game.findMany({
+      where: { shelfId, ...inTrash },
+      orderBy: { deletedAt: "desc" },
+    }),
+    prisma.session.findMany({
+      where: { game: { shelfId, deletedAt: null }, ...inTrash },
+      include: {
+        game: { select: { id: true, title: true } },
+        players: { include: { player: true } },
+      },
+      orderBy: { deletedAt: "desc" },
+    }),
+    prisma.player.findMany({
+      where: { shelfId, ...inTrash },
+      orderBy: { deletedAt: "desc" },
+    }),
+  ]);
+  return { games, sessions, players };
+}
+
+async function findTrashed(type: TrashType, id: string, shelfId: string) {
+  const inTrash = { id, deletedAt: { not: null } as Prisma.DateTimeNullableFilter };
+  switch (type) {
+    case "games":
+      return prisma.game.findFirst({ where: { ...inTrash, shelfId } });
+    case "sessions":
+      return prisma.session.findFirst({
+        where: { ...inTrash, game: { shelfId } },
+        include: { game: true },
+      });
+    case "players":
+      return prisma.player.findFirst({ where: { ...inTrash, shelfId } });
+  }
+}
+
+// Moves a record out of the trash; the history records it as created again
+export async function restoreFromTrash(actor: Actor, type: TrashType, id: string) {
+  const record = await findTrashed(type, id, actor.shelfId);
+  if (!record) {
+    throw new NotFoundError("Record not found in trash");
+  }
+
+  const restore = { where: { id }, data: { deletedAt: null as Date | null } };
+  switch (type) {
+    case "games":
+      await prisma.game.update(restore);
+      await recordChange(actor, "game", id, null);
+      return prisma.game.findUnique({ where: { id } });
+    case "sessions": {
+      const { game } = record as { game: { id: string; deletedAt: Date | null } };
+      if (game.deletedAt) {
+        throw new BadRequestError("Restore the game of this session first");
+      }
+      await prisma.session.update(restore);
+      await updatePlayStats(game.id);
+      await recordChange(actor, "session", id, null);
+      return prisma.session.findUnique({
+        where: { id },
+        include: { players: { include: { player: true } }, game: true },
+      });
+    }
+    case "players":
+      await prisma.player.update(restore);
+      await recordChange(actor, "player", id, null);
+      return prisma.player.findUnique({ where: { id } });
+  }
+}
+
+// Deletes a game for good, with everything that belongs to it
+async function purgeGame(id: string) {
+  const files = await prisma.file.findMany({
+    where: { gameId: id },
+    select: { storageKey: true },
+  });
+
+  const game = await prisma.$transaction(async (tx) => {
+    await tx.session.deleteMany({ where: { gameId: id } });
+    await tx.wishlist.deleteMany({ where: { gameId: id } });
+    // Files and loans are removed by cascade
+    return tx.game.delete({ where: { id } });
+  });
+
+  await removeBlobs([game.coverImageKey, ...files.map((file) => file.storageKey)]);
+}
+
+async function purgeRecord(type: TrashType, id: string) {
+  switch (type) {
+    case "games":
+      return purgeGame(id);
+    case "sessions":
+      await prisma.session.delete({ where: { id } });
+      return;
+    case "players":
+      // Their session results go with them, loans keep the borrower name
+      await prisma.player.delete({ where: { id } });
+      return;
+  }
+}
+
+// Permanently deletes a record that is in the trash and returns it
+export async function purgeFromTrash(shelfId: string, type: TrashType, id: string) {
+  const record = await findTrashed(type, id, shelfId);
+  if (!record) {
+    throw new NotFoundError("Record not found in trash");
+  }
+  await purgeRecord(type, id);
+  return record;
+}
+
+// Permanently deletes everything in a shelf's trash and returns what was purged
+export async function emptyTrash(shelfId: string) {
+  const { games, sessions, players } = await listTrash(shelfId);
+  // Sessions first, so a trashed player's results are gone before the player
+  for (const session of sessions) {
+    await purgeRecord("sessions", session.id);
+  }
+  for (const game of games) {
+    await purgeRecord("games", game.id);
+  }
+  for (const player of players) {
+    await purgeRecord("players", player.id);
+  }
+  return { games, sessions, players };
+}
+
+// Purges trash older than each shelf's retention setting
+export async function purgeExpiredTrash() {
+  const shelves = await prisma.shelf.findMany({
+    where: { trashRetentionDays: { not: null } },
+    select: { id: true, trashRetentionDays: true },
+  });
+
+  let purged = 0;
+  for (const shelf of shelves) {
+    const expired = {
+      deletedAt: { lt: new Date(Date.now() - shelf.trashRetentionDays * DAY) },
+    };
+    const [sessions, games, players] = await Promise.all([
+      prisma.session.findMany({
+        where: { ...expired, game: { shelfId: shelf.id } },
+        select: { id: true },
+      }),
+      prisma.game.findMany({
+        where: { ...expired, shelfId: shelf.id },
+        select: { id: true },
+      }),
+      prisma.player.findMany({
+        where: { ...expired, shelfId: shelf.id },
+        select: { id: true },
+      }),
+    ]);
+
+    for (const session of sessions) {
+      await purgeRecord("sessions", session.id);
+    }
+    for (const game of games) {
+      await purgeRecord("games", game.id);
+    }
+    for (const player of players) {
+      await purgeRecord("players", player.id);
+    }
+    purged += sessions.length + games.length + players.length;
+  }
+  return purged;
+}
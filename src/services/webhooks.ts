@@ -0,0 +1,347 @@
+import crypto from "crypto";
+import dns from "dns";
+import net from "net";
+import { Prisma } from "../generated/prisma";
+import prisma from "../db";
+import { NotFoundError } from "../error-handling/errors";
+import { Actor } from "./history";
+import { ShelfEvent, subscribe } from "./events";
+
+// A delivery is tried this many times, waiting twice as long after every failure
+const MAX_ATTEMPTS = 8;
+const FIRST_RETRY_MS = 30 * 1000;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const POLL_INTERVAL_MS = 5 * 1000;
+const BATCH_SIZE = 20;
+
+// How much of the receiver's answer is kept in the delivery log
+const RESPONSE_BODY_LIMIT = 1000;
+
+// Finished deliveries are removed from the log after this many days
+const DELIVERY_LOG_DAYS = 30;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// The secret only signs deliveries and is never sent back
+export const webhookOmit = { secret: true } as const;
+
+export const TEST_EVENT_TYPE = "webhook.test";
+
+function isPrivateIp(ip: string): boolean {
+  if (net.isIPv4(ip)) {
+    const [a, b] = ip.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+  const lower = ip.toLowerCase();
+  if (lower.startsWith("::ffff:")) {
+    return isPrivateIp(lower.slice("::ffff:".length));
+  }
+  return (
+    lower === "::" ||
+    lower === "::1" ||
+    lower.startsWith("fc") ||
+    lower.startsWith("fd") ||
+    lower.startsWith("fe80")
+  );
+}
+
+const PRIVATE_ADDRESS_ERROR = "Must not point to a local or private address";
+
+function allowsPrivateUrls() {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true";
+}
+
+function hostnameOf(url: string) {
+  return new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, "");
+}
+
+// Webhooks can't reach the server's own network, unless WEBHOOK_ALLOW_PRIVATE_URLS=true
+// (e.g. to test against a local receiver). This checks the URL as it is saved; what
+// its name resolves to is checked before every delivery by resolvedUrlError.
+export function webhookUrlError(url: string) {
+  if (allowsPrivateUrls()) {
+    return null;
+  }
+  const hostname = hostnameOf(url);
+  const isLocalName =
+    hostname === "localhost" ||
+    hostname.endsWith(".localhost") ||
+    hostname.endsWith(".local") ||
+    hostname.endsWith(".internal");
+  return isLocalName || (net.isIP(hostname) && isPrivateIp(hostname))
+    ? PRIVATE_ADDRESS_ERROR
+    : null;
+}
+
+// Resolves the URL's name and rejects it when any of its addresses is private, so a
+// public name can't be pointed at the server's network after the webhook was saved
+async function resolvedUrlError(url: string) {
+  const urlError = webhookUrlError(url);
+  const hostname = hostnameOf(url);
+  if (urlError || allowsPrivateUrls() || net.isIP(hostname)) {
+    return urlError;
+  }
+
+  try {
+    const addresses = await dns.promises.lookup(hostname, { all: true });
+    return addresses.some(({ address }) => isPrivateIp(address))
+      ? PRIVATE_ADDRESS_ERROR
+      : null;
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+}
+
+// The X-Webhook-Signature header: "sha256=" and the hex HMAC-SHA256 of
+// "<X-Webhook-Timestamp>.<raw body>" with the webhook's secret
+export function signPayload(secret: string, timestamp: string, body: string) {
+  const hmac = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${hmac}`;
+}
+
+function payloadOf(event: ShelfEvent) {
+  return {
+    id: event.id,
+    type: event.type,
+    shelfId: event.shelfId,
+    userId: event.userId,
+    createdAt: event.createdAt,
+    data: event.data,
+  } as Prisma.InputJsonObject;
+}
+
+// Queues a delivery of the event for every active webhook of the shelf that wants it
+// and returns how many were queued
+export async function queueDeliveries(event: ShelfEvent) {
+  const webhooks = await prisma.webhook.findMany({
+    where: {
+      shelfId: event.shelfId,
+      isActive: true,
+      OR: [{ events: { isEmpty: true } }, { events: { has: event.type } }],
+    },
+    select: { id: true },
+  });
+
+  if (webhooks.length === 0) {
+    return 0;
+  }
+
+  const { count } = await prisma.webhookDelivery.createMany({
+    data: webhooks.map((webhook) => ({
+      webhookId: webhook.id,
+      eventId: event.id,
+      eventType: event.type,
+      payload: payloadOf(event),
+    })),
+  });
+  return count;
+}
+
+// Takes a due delivery by pushing its next attempt past the request timeout.
+// If the server stops mid-delivery, the delivery is due again once that passes.
+async function claimDelivery(deliveryId: string) {
+  const now = Date.now();
+  const { count } = await prisma.webhookDelivery.updateMany({
+    where: {
+      id: deliveryId,
+      status: "pending",
+      nextAttemptAt: { lte: new Date(now) },
+    },
+    data: { nextAttemptAt: new Date(now + 2 * DELIVERY_TIMEOUT_MS) },
+  });
+  return count === 1;
+}
+
+// Sends a claimed delivery once and records the outcome. Failed deliveries are
+// retried with exponential backoff until MAX_ATTEMPTS, unless `retry` is false.
+async function attemptDelivery(deliveryId: string, { retry = true } = {}) {
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { webhook: true },
+  });
+  const { webhook } = delivery;
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  // Test events are sent to disabled webhooks too, so a webhook can be checked before turning it on
+  const isEnabled = webhook.isActive || delivery.eventType === TEST_EVENT_TYPE;
+  if (!isEnabled) {
+    error = "Webhook is disabled";
+  } else {
+    error = await resolvedUrlError(webhook.url);
+  }
+
+  if (!error) {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    try {
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "board-game-shelf-webhooks",
+          "X-Webhook-Id": webhook.id,
+          "X-Webhook-Delivery": delivery.id,
+          "X-Webhook-Event": delivery.eventType,
+          "X-Webhook-Timestamp": timestamp,
+          "X-Webhook-Signature": signPayload(webhook.secret, timestamp, body),
+        },
+        body,
+        // A redirect could lead to a private address
+        redirect: "manual",
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+      if (!response.ok) {
+        error = `Receiver answered with status ${response.status}`;
+      }
+    } catch (fetchError) {
+      error =
+        fetchError instanceof Error ? fetchError.message : String(fetchError);
+    }
+  }
+
+  const succeeded = error === null;
+  const willRetry =
+    !succeeded && retry && isEnabled && attempts < MAX_ATTEMPTS;
+
+  return prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attempts,
+      lastAttemptAt: new Date(),
+      responseStatus,
+      responseBody,
+      error,
+      status: succeeded ? "succeeded" : willRetry ? "pending" : "failed",
+      nextAttemptAt: willRetry
+        ? new Date(Date.now() + FIRST_RETRY_MS * 2 ** (attempts - 1))
+        : null,
+    },
+  });
+}
+
+let delivering = false;
+
+// Sends every delivery that is due, a batch at a time, and returns how many were sent.
+// Calls while a run is going on return right away; that run picks up their deliveries.
+export async function deliverDueWebhooks() {
+  if (delivering) {
+    return 0;
+  }
+  delivering = true;
+
+  try {
+    let sent = 0;
+    for (;;) {
+      const due = await prisma.webhookDelivery.findMany({
+        where: { status: "pending", nextAttemptAt: { lte: new Date() } },
+        orderBy: { nextAttemptAt: "asc" },
+        take: BATCH_SIZE,
+        select: { id: true },
+      });
+
+      if (due.length === 0) {
+        return sent;
+      }
+
+      await Promise.all(
+        due.map(async ({ id }) => {
+          if (await claimDelivery(id)) {
+            await attemptDelivery(id);
+            sent += 1;
+          }
+        })
+      );
+    }
+  } finally {
+    delivering = false;
+  }
+}
+
+// Sends a "webhook.test" event to the webhook right away, once, and returns the delivery
+export async function sendTestEvent(actor: Actor, webhookId: string) {
+  const webhook = await prisma.webhook.findFirst({
+    where: { id: webhookId, shelfId: actor.shelfId },
+  });
+
+  if (!webhook) {
+    throw new NotFoundError("Webhook not found");
+  }
+
+  const eventId = `test-${crypto.randomUUID()}`;
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      webhookId,
+      eventId,
+      eventType: TEST_EVENT_TYPE,
+      payload: {
+        id: eventId,
+        type: TEST_EVENT_TYPE,
+        shelfId: actor.shelfId,
+        userId: actor.userId,
+        createdAt: new Date().toISOString(),
+        data: { webhookId },
+      },
+      // Sent here and never picked up by the background deliveries
+      nextAttemptAt: null,
+    },
+  });
+
+  return attemptDelivery(delivery.id, { retry: false });
+}
+
+// Removes finished deliveries older than DELIVERY_LOG_DAYS and returns how many
+export async function pruneDeliveryLog() {
+  const cutoff = new Date(Date.now() - DELIVERY_LOG_DAYS * 24 * 60 * 60 * 1000);
+  const { count } = await prisma.webhookDelivery.deleteMany({
+    where: { status: { not: "pending" }, createdAt: { lt: cutoff } },
+  });
+  return count;
+}
+
+function runDeliveries() {
+  deliverDueWebhooks().catch((error) =>
+    console.error("Webhook deliveries failed:", error)
+  );
+}
+
+// Queues deliveries for every published event and sends due deliveries in the background.
+// Deliveries are stored, so the ones still pending are sent after a restart.
+export function startWebhookWorker() {
+  subscribe((event) => {
+    queueDeliveries(event)
+      .then((queued) => {
+        if (queued > 0) {
+          runDeliveries();
+        }
+      })
+      .catch((error) =>
+        console.error("Queueing webhook deliveries failed:", error)
+      );
+  });
+
+  runDeliveries();
+  setInterval(runDeliveries, POLL_INTERVAL_MS).unref();
+
+  setInterval(() => {
+    pruneDeliveryLog().catch((error) =>
+      console.error("Pruning the webhook delivery log failed:", error)
+    );
+  }, PRUNE_INTERVAL_MS).unref();
+}
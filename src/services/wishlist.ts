@@ -0,0 +1,190 @@
+import { Prisma } from "../generated/prisma";
+import prisma from "../db";
+import {
+  BadRequestError,
+  ErrorDetail,
+  NotFoundError,
+} from "../error-handling/errors";
+import { WishlistInput } from "../schemas/wishlist";
+import { hashToken } from "./auth";
+import { findShelfGame } from "./games";
+import { Actor, recordChange, takeSnapshot } from "./history";
+import { readString } from "./queryParams";
+
+type Db = Prisma.TransactionClient;
+
+// The shelf never learns who claimed a gift, so the claim token stays hidden
+export const wishlistOmit = { claimTokenHash: true } as const;
+
+const SORTS = ["createdAt", "priority", "order"];
+const ORDERS = ["asc", "desc"];
+
+export function parseWishlistQuery(query: Record<string, unknown>) {
+  const errors: ErrorDetail[] = [];
+
+  const sort = readString(query, "sort") ?? "createdAt";
+  if (!SORTS.includes(sort)) {
+    errors.push({ field: "sort", message: `Must be one of ${SORTS.join(", ")}` });
+  }
+  // Newest first and highest priority first unless asked otherwise
+  const order = (readString(query, "order") ??
+    (sort === "order" ? "asc" : "desc")) as Prisma.SortOrder;
+  if (!ORDERS.includes(order)) {
+    errors.push({ field: "order", message: "Must be asc or desc" });
+  }
+
+  const orderBy: Prisma.GameOrderByWithRelationInput[] =
+    sort === "priority"
+      ? [
+          { wishlist: { priority: order } },
+          { wishlist: { position: "asc" } },
+        ]
+      : sort === "order"
+      ? [{ wishlist: { position: order } }, { wishlist: { createdAt: "asc" } }]
+      : [{ wishlist: { createdAt: order } }];
+
+  return { errors, orderBy };
+}
+
+// New entries go to the end of the user-defined order
+export async function nextWishlistPosition(shelfId: string, db: Db = prisma) {
+  const { _max } = await db.wishlist.aggregate({
+    where: { game: { shelfId } },
+    _max: { position: true },
+  });
+  return (_max.position ?? -1) + 1;
+}
+
+// Finds the shelf a shared wishlist link belongs to
+export async function findSharedShelf(token: string) {
+  const shelf = await prisma.shelf.findUnique({
+    where: { wishlistShareTokenHash: hashToken(token) },
+    select: { id: true, name: true },
+  });
+  if (!shelf) {
+    throw new NotFoundError("Wishlist not found");
+  }
+  return shelf;
+}
+
+// Helper function to find the wishlist entry of a game on the shelf
+async function findShelfWishlist(gameId: string, shelfId: string) {
+  return prisma.wishlist.findFirst({
+    where: { gameId, game: { shelfId, deletedAt: null } },
+  });
+}
+
+export async function addToWishlist(
+  actor: Actor,
+  gameId: string,
+  input: WishlistInput
+) {
+  const { reason, priority, targetPrice, notes } = input;
+  const { shelfId } = actor;
+
+  const game = await findShelfGame(gameId, shelfId);
+
+  if (!game) {
+    throw new NotFoundError("Game not found");
+  }
+
+  if (game.isOwned) {
+    throw new BadRequestError("Cannot add owned game to wishlist");
+  }
+
+  // Check if already in wishlist
+  const existingWishlist = await prisma.wishlist.findUnique({
+    where: { gameId },
+  });
+
+  if (existingWishlist) {
+    throw new BadRequestError("Game is already in wishlist");
+  }
+
+  const wishlist = await prisma.wishlist.create({
+    data: {
+      gameId,
+      reason: reason || "",
+      priority,
+      targetPrice: targetPrice ?? null,
+      notes: notes ?? null,
+      position: await nextWishlistPosition(shelfId),
+    },
+    include: {
+      game: true,
+    },
+    omit: wishlistOmit,
+  });
+  await recordChange(actor, "wishlist", gameId, null);
+  return wishlist;
+}
+
+// Changes the priority, target price, notes or reason of a wishlist entry
+export async function updateWishlist(
+  actor: Actor,
+  gameId: string,
+  input: WishlistInput
+) {
+  const wishlist = await findShelfWishlist(gameId, actor.shelfId);
+
+  if (!wishlist) {
+    throw new NotFoundError("Game is not in wishlist");
+  }
+
+  const before = await takeSnapshot("wishlist", gameId);
+  const updatedWishlist = await prisma.wishlist.update({
+    where: { gameId },
+    data: input,
+    omit: wishlistOmit,
+  });
+  await recordChange(actor, "wishlist", gameId, before);
+  return updatedWishlist;
+}
+
+// Removes a game from the wishlist without marking it as owned
+export async function dropFromWishlist(actor: Actor, gameId: string) {
+  const wishlist = await findShelfWishlist(gameId, actor.shelfId);
+
+  if (!wishlist) {
+    throw new BadRequestError("Game is not in wishlist");
+  }
+
+  const before = await takeSnapshot("wishlist", gameId);
+  await prisma.wishlist.delete({ where: { gameId } });
+  await recordChange(actor, "wishlist", gameId, before);
+}
+
+// Removes a game from the wishlist and marks it as owned
+export async function markWishlistOwned(actor: Actor, gameId: string) {
+  const game = await prisma.game.findFirst({
+    where: { id: gameId, shelfId: actor.shelfId, deletedAt: null },
+    include: {
+      wishlist: true,
+    },
+  });
+
+  if (!game) {
+    throw new NotFoundError("Game not found");
+  }
+
+  if (!game.wishlist) {
+    throw new BadRequestError("Game is not in wishlist");
+  }
+
+  const wishlistBefore = await takeSnapshot("wishlist", gameId);
+  const gameBefore = await takeSnapshot("game", gameId);
+
+  const [, updatedGame] = await prisma.$transaction([
+    prisma.wishlist.delete({
+      where: { gameId },
+    }),
+    prisma.game.update({
+      where: { id: gameId },
+      data: { isOwned: true },
+    }),
+  ]);
+
+  await recordChange(actor, "wishlist", gameId, wishlistBefore);
+  await recordChange(actor, "game", gameId, gameBefore);
+  return updatedGame;
+}
@@ -0,0 +1,166 @@
+import bcrypt from "bcrypt";
+import http from "http";
+import { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import prismaClient from "../src/db";
+import app from "../src/app";
+import { hashToken } from "../src/services/auth";
+import { FakePrisma } from "./fakePrisma";
+
+vi.mock("../src/db", async () => {
+  const { createFakePrisma } = await import("./fakePrisma");
+  return { default: createFakePrisma() };
+});
+
+const prisma = prismaClient as unknown as FakePrisma;
+
+const EMAIL = "kate@example.com";
+const PASSWORD = "a-long-password";
+
+interface Tokens {
+  authToken: string;
+  refreshToken: string;
+}
+
+let api: http.Server;
+let apiUrl: string;
+let userId: string;
+
+function post(path: string, body?: object, token?: string) {
+  return fetch(`${apiUrl}/api${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+function verify(token: string) {
+  return fetch(`${apiUrl}/api/verify`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+}
+
+async function login(): Promise<Tokens> {
+  const response = await post("/login", { email: EMAIL, password: PASSWORD });
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+async function refresh(refreshToken: string) {
+  return post("/refresh", { refreshToken });
+}
+
+beforeAll(async () => {
+  api = http.createServer(app);
+  await new Promise<void>((resolve) => api.listen(0, "127.0.0.1", resolve));
+  apiUrl = `http://127.0.0.1:${(api.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => api.close(resolve));
+});
+
+beforeEach(async () => {
+  prisma.reset();
+  const user = await prisma.user.create({
+    data: { email: EMAIL, password: bcrypt.hashSync(PASSWORD, 4) },
+  });
+  userId = user.id;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("login", () => {
+  it("signs an access token without the password hash", async () => {
+    const { authToken } = await login();
+
+    const response = await verify(authToken);
+    expect(response.status).toBe(200);
+    const payload = await response.json();
+    expect(payload).toMatchObject({ id: userId, email: EMAIL });
+    expect(payload).not.toHaveProperty("password");
+  });
+});
+
+describe("refresh tokens", () => {
+  it("are exchanged for a new pair once", async () => {
+    const first = await login();
+
+    const response = await refresh(first.refreshToken);
+    expect(response.status).toBe(200);
+    const second: Tokens = await response.json();
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect((await verify(second.authToken)).status).toBe(200);
+
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(first.refreshToken) },
+    });
+    expect(stored.usedAt).toBeInstanceOf(Date);
+  });
+
+  it("revoke the whole session when a used one is presented again", async () => {
+    const first = await login();
+    const second: Tokens = await (await refresh(first.refreshToken)).json();
+
+    const replayed = await refresh(first.refreshToken);
+    expect(replayed.status).toBe(401);
+    expect(await replayed.json()).toMatchObject({
+      message: "Refresh token reuse detected",
+    });
+
+    // The tokens handed out after the stolen one stop working too
+    expect((await verify(second.authToken)).status).toBe(401);
+    const rotated = await refresh(second.refreshToken);
+    expect(rotated.status).toBe(401);
+    expect(await rotated.json()).toMatchObject({ message: "Invalid refresh token" });
+  });
+
+  it("leave other login sessions alone when one is revoked", async () => {
+    const stolen = await login();
+    const other = await login();
+    await refresh(stolen.refreshToken);
+    await refresh(stolen.refreshToken);
+
+    expect((await verify(other.authToken)).status).toBe(200);
+    expect((await refresh(other.refreshToken)).status).toBe(200);
+  });
+
+  it("expire", async () => {
+    const { refreshToken } = await login();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 31 * 24 * 60 * 60 * 1000);
+
+    const response = await refresh(refreshToken);
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ message: "Refresh token expired" });
+  });
+});
+
+describe("logout", () => {
+  it("revokes the current session only", async () => {
+    const current = await login();
+    const other = await login();
+
+    expect((await post("/logout", undefined, current.authToken)).status).toBe(204);
+
+    expect((await verify(current.authToken)).status).toBe(401);
+    expect((await refresh(current.refreshToken)).status).toBe(401);
+    expect((await verify(other.authToken)).status).toBe(200);
+  });
+
+  it("revokes every session of the user on all devices", async () => {
+    const current = await login();
+    const other = await login();
+
+    expect((await post("/logout-all", undefined, current.authToken)).status).toBe(204);
+
+    expect((await verify(current.authToken)).status).toBe(401);
+    expect((await verify(other.authToken)).status).toBe(401);
+    expect((await refresh(other.refreshToken)).status).toBe(401);
+  });
+});
@@ -0,0 +1,379 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import prismaClient from "../src/db";
+import { BadRequestError, ConflictError } from "../src/error-handling/errors";
+import { backupSchema, BackupDocument } from "../src/schemas/backup";
+import { restoreBackup, RestoreMode } from "../src/services/backup";
+import { Actor } from "../src/services/history";
+import { normalizePlayerName } from "../src/services/players";
+import { storage } from "../src/services/storage";
+import { FakePrisma } from "./fakePrisma";
+
+vi.mock("../src/db", async () => {
+  const { createFakePrisma } = await import("./fakePrisma");
+  return { default: createFakePrisma() };
+});
+
+const prisma = prismaClient as unknown as FakePrisma;
+
+const actor: Actor = { shelfId: "shelf-1", userId: "user-1" };
+
+// Columns of a game, as stored and as backed up
+const gameColumns = {
+  genre: "Abstract",
+  minPlayers: 2,
+  maxPlayers: 4,
+  playTime: 45,
+  publisher: "Plan B Games",
+  age: "8+",
+  rating: 7.8,
+  coverImage: "https://example.com/azul.jpg",
+  isOwned: true,
+};
+
+const game = {
+  ...gameColumns,
+  createdAt: "2025-01-05T10:00:00Z",
+  files: [] as BackupDocument["games"][number]["files"],
+  wishlist: null as BackupDocument["games"][number]["wishlist"],
+};
+
+// A shelf with two players, a base game with an expansion, a game on the
+// wishlist, a loan, a game night and a session played on that night
+function backup(overrides: Partial<BackupDocument> = {}): BackupDocument {
+  return {
+    version: 2,
+    exportedAt: "2025-11-02T20:00:00Z",
+    players: [
+      { id: "p-kate", name: "Kate", aliases: ["KT"], userId: "user-2" },
+      { id: "p-ben", name: "Ben", aliases: [], userId: null },
+    ],
+    tags: [{ title: "Family", color: "#3a7bd5", group: "audience" }],
+    games: [
+      {
+        ...game,
+        id: "g-azul",
+        title: "Azul",
+        tags: ["Family", "Tiles"],
+        loans: [
+          {
+            playerId: "p-ben",
+            borrowerName: "Ben",
+            lentAt: "2025-10-01T12:00:00Z",
+            dueAt: null,
+            returnedAt: null,
+            notes: null,
+            createdAt: "2025-10-01T12:00:00Z",
+          },
+        ],
+      },
+      {
+        ...game,
+        id: "g-pavilion",
+        title: "Azul: Crystal Mosaic",
+        tags: [],
+        baseGameId: "g-azul",
+      },
+      {
+        ...game,
+        id: "g-wingspan",
+        title: "Wingspan",
+        tags: [],
+        isOwned: false,
+        wishlist: {
+          reason: "Birds",
+          priority: "high",
+          position: 0,
+          targetPrice: null,
+          notes: null,
+          createdAt: "2025-02-01T10:00:00Z",
+        },
+      },
+    ],
+    gameNights: [
+      {
+        id: "n-friday",
+        title: "Friday games",
+        date: "2025-11-01T18:00:00Z",
+        hostId: "p-kate",
+        completedAt: "2025-11-01T23:00:00Z",
+        createdAt: "2025-10-20T10:00:00Z",
+        invitees: [{ playerId: "p-ben", status: "yes", respondedAt: null }],
+        candidates: [
+          {
+            gameId: "g-azul",
+            createdAt: "2025-10-20T10:00:00Z",
+            votes: [{ playerId: "p-ben", createdAt: "2025-10-21T10:00:00Z" }],
+          },
+        ],
+      },
+    ],
+    sessions: [
+      {
+        id: "s-1",
+        gameId: "g-azul",
+        gameNightId: "n-friday",
+        date: "2025-11-01T19:00:00Z",
+        createdAt: "2025-11-01T21:00:00Z",
+        expansionIds: ["g-pavilion"],
+        players: [
+          { playerId: "p-kate", score: 72, isWinner: true },
+          { playerId: "p-ben", score: 65, isWinner: false },
+        ],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+function restore(document: BackupDocument, mode: RestoreMode, deleteUploads = false) {
+  return restoreBackup(actor, backupSchema.parse(document), mode, { deleteUploads });
+}
+
+function findPlayer(name: string) {
+  return prisma.player.findFirst({
+    where: { shelfId: actor.shelfId, name },
+    include: { aliases: true },
+  });
+}
+
+function findGame(title: string) {
+  return prisma.game.findFirst({
+    where: { shelfId: actor.shelfId, title },
+    include: { tags: true, wishlist: true, loans: true },
+  });
+}
+
+beforeEach(async () => {
+  prisma.reset();
+  await prisma.shelfMember.create({
+    data: { shelfId: actor.shelfId, userId: "user-2", role: "editor" },
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("restoring a backup", () => {
+  it("recreates every record with the ids remapped", async () => {
+    const { result } = await restore(backup(), "merge");
+
+    expect(result.created).toEqual({
+      games: 3,
+      sessions: 1,
+      players: 2,
+      tags: 2,
+      files: 0,
+      loans: 1,
+      gameNights: 1,
+    });
+
+    const kate = await findPlayer("Kate");
+    const ben = await findPlayer("Ben");
+    expect(kate.aliases.map((alias: { alias: string }) => alias.alias)).toEqual(["KT"]);
+    expect(kate.userId).toBe("user-2");
+
+    const azul = await findGame("Azul");
+    const pavilion = await findGame("Azul: Crystal Mosaic");
+    expect(pavilion.baseGameId).toBe(azul.id);
+    expect(azul.tags).toEqual([
+      expect.objectContaining({ title: "Family", color: "#3a7bd5", group: "audience" }),
+      expect.objectContaining({ title: "Tiles", color: null, group: null }),
+    ]);
+    expect(azul.loans).toEqual([
+      expect.objectContaining({ playerId: ben.id, borrowerName: "Ben" }),
+    ]);
+    expect((await findGame("Wingspan")).wishlist).toMatchObject({
+      reason: "Birds",
+      priority: "high",
+    });
+
+    const night = await prisma.gameNight.findFirst({
+      include: { invitees: true, candidates: { include: { votes: true } } },
+    });
+    expect(night).toMatchObject({
+      hostId: kate.id,
+      invitees: [{ playerId: ben.id, status: "yes" }],
+      candidates: [{ gameId: azul.id, votes: [{ playerId: ben.id }] }],
+    });
+
+    const session = await prisma.session.findFirst({
+      include: { players: true, expansions: true },
+    });
+    expect(session).toMatchObject({
+      gameId: azul.id,
+      gameNightId: night.id,
+      expansions: [{ id: pavilion.id }],
+    });
+    expect(
+      session.players.map(({ playerId, score }: { playerId: string; score: number }) => ({
+        playerId,
+        score,
+      }))
+    ).toEqual([
+      { playerId: kate.id, score: 72 },
+      { playerId: ben.id, score: 65 },
+    ]);
+  });
+
+  it("records what it created in the history", async () => {
+    const { changes } = await restore(backup(), "merge");
+
+    expect(changes.map((change) => `${change.entityType} ${change.action}`).sort()).toEqual([
+      "game create",
+      "game create",
+      "game create",
+      "player create",
+      "player create",
+      "session create",
+      "tag create",
+      "tag create",
+      "wishlist create",
+    ]);
+    expect(await prisma.historyEntry.count()).toBe(changes.length);
+  });
+
+  it("doesn't link an account whose user isn't a member of the shelf", async () => {
+    await prisma.shelfMember.deleteMany();
+
+    await restore(backup(), "merge");
+
+    expect((await findPlayer("Kate")).userId ?? null).toBeNull();
+  });
+});
+
+describe("merging a backup", () => {
+  it("keeps records that are already on the shelf once", async () => {
+    await restore(backup(), "merge");
+
+    const { result, changes } = await restore(backup(), "merge");
+
+    expect(result.created).toEqual({
+      games: 0,
+      sessions: 0,
+      players: 0,
+      tags: 0,
+      files: 0,
+      loans: 0,
+      gameNights: 0,
+    });
+    expect(changes).toEqual([]);
+    expect(await prisma.game.count()).toBe(3);
+    expect(await prisma.session.count()).toBe(1);
+    expect(await prisma.loan.count()).toBe(1);
+  });
+
+  it("finds players by their name or alias", async () => {
+    const kate = await prisma.player.create({
+      data: { shelfId: actor.shelfId, name: "Katherine", normalizedName: "katherine" },
+    });
+    await prisma.playerAlias.create({
+      data: {
+        playerId: kate.id,
+        shelfId: actor.shelfId,
+        alias: "Kate",
+        normalizedAlias: normalizePlayerName("Kate"),
+      },
+    });
+
+    const { result } = await restore(backup(), "merge");
+
+    expect(result.created.players).toBe(1);
+    const session = await prisma.session.findFirst({ include: { players: true } });
+    expect(session.players.map((result: { playerId: string }) => result.playerId)).toContain(
+      kate.id
+    );
+  });
+
+  it("refuses an alias that names another player", async () => {
+    const document = backup();
+    document.players[1].aliases = ["Kate"];
+
+    await expect(restore(document, "merge")).rejects.toThrow(
+      new BadRequestError("Alias Kate of Ben is already used by Kate")
+    );
+  });
+});
+
+describe("replacing the shelf with a backup", () => {
+  it("wipes what isn't in the backup", async () => {
+    await restore(backup(), "merge");
+    await prisma.player.create({
+      data: { shelfId: actor.shelfId, name: "Old", normalizedName: "old" },
+    });
+
+    await restore(backup({ sessions: [], gameNights: [] }), "replace");
+
+    expect(await findPlayer("Old")).toBeNull();
+    expect(await prisma.player.count()).toBe(2);
+    expect(await prisma.game.count()).toBe(3);
+    expect(await prisma.session.count()).toBe(0);
+    expect(await prisma.gameNight.count()).toBe(0);
+  });
+
+  it("only takes a version 2 backup", async () => {
+    await expect(restore(backup({ version: 1 }), "replace")).rejects.toThrow(BadRequestError);
+  });
+
+  it("refuses while the trash holds records", async () => {
+    await prisma.game.create({
+      data: { ...gameColumns, shelfId: actor.shelfId, title: "Old", deletedAt: new Date() },
+    });
+
+    await expect(restore(backup(), "replace")).rejects.toThrow(
+      new ConflictError("Restore or purge the trash first, a backup doesn't hold it")
+    );
+    expect(await prisma.game.count()).toBe(1);
+  });
+
+  it("deletes uploads only when asked to", async () => {
+    const remove = vi.spyOn(storage, "remove").mockResolvedValue();
+    const old = await prisma.game.create({
+      data: {
+        ...gameColumns,
+        shelfId: actor.shelfId,
+        title: "Old",
+        coverImageKey: "shelf-1/cover.jpg",
+      },
+    });
+    await prisma.file.create({
+      data: {
+        gameId: old.id,
+        title: "Rules",
+        link: "/api/files/1",
+        storageKey: "shelf-1/rules.pdf",
+      },
+    });
+
+    await expect(restore(backup(), "replace")).rejects.toThrow(ConflictError);
+    expect(remove).not.toHaveBeenCalled();
+
+    await restore(backup(), "replace", true);
+    expect(remove.mock.calls.map(([key]) => key)).toEqual([
+      "shelf-1/rules.pdf",
+      "shelf-1/cover.jpg",
+    ]);
+    expect(await findGame("Old")).toBeNull();
+  });
+
+  it("keeps the gift claims of the wishlist", async () => {
+    await restore(backup(), "merge");
+    const wingspan = await findGame("Wingspan");
+    const claimedAt = new Date("2025-11-01T09:00:00Z");
+    await prisma.wishlist.updateMany({
+      where: { gameId: wingspan.id },
+      data: { claimedAt, claimTokenHash: "claim-hash" },
+    });
+    // The backup knows the game under the id it has on the shelf
+    const document = backup();
+    document.games[2].id = wingspan.id;
+
+    await restore(document, "replace");
+
+    expect((await findGame("Wingspan")).wishlist).toMatchObject({
+      reason: "Birds",
+      claimedAt,
+      claimTokenHash: "claim-hash",
+    });
+  });
+});
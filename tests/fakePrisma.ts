@@ -0,0 +1,566 @@
+import crypto from "crypto";
+
+// An in-memory stand-in for the Prisma client with the tables, relations and query
+// options the tested routes and services use, so they can be tested without a database.
+// Unique constraints aren't enforced, and raw SQL isn't run.
+
+type Row = Record<string, any>;
+type Where = Record<string, any>;
+type Tables = Record<string, Row[]>;
+
+// Values of the columns with a default that isn't null
+const DEFAULTS: Record<string, () => Row> = {
+  user: () => ({}),
+  authSession: () => ({ createdAt: new Date(), revokedAt: null }),
+  refreshToken: () => ({ usedAt: null, createdAt: new Date() }),
+  shelfMember: () => ({ createdAt: new Date() }),
+  webhook: () => ({ events: [], isActive: true, createdAt: new Date() }),
+  webhookDelivery: () => ({
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: new Date(),
+    lastAttemptAt: null,
+    responseStatus: null,
+    responseBody: null,
+    error: null,
+    createdAt: new Date(),
+  }),
+  game: () => ({ playCount: 0, createdAt: new Date(), updatedAt: new Date() }),
+  session: () => ({ isCooperative: false, createdAt: new Date() }),
+  sessionPlayer: () => ({ isWinner: false }),
+  player: () => ({ createdAt: new Date() }),
+  playerAlias: () => ({ createdAt: new Date() }),
+  tag: () => ({}),
+  file: () => ({ createdAt: new Date() }),
+  wishlist: () => ({ priority: "medium", position: 0, createdAt: new Date() }),
+  loan: () => ({ lentAt: new Date(), createdAt: new Date() }),
+  gameNight: () => ({ createdAt: new Date() }),
+  gameNightInvitee: () => ({ status: "pending" }),
+  gameNightCandidate: () => ({ createdAt: new Date() }),
+  gameNightVote: () => ({ createdAt: new Date() }),
+  historyEntry: () => ({ createdAt: new Date() }),
+};
+
+// A to-one relation is read through a key on the row, a to-many one through a key
+// on the related rows ("back" when there is at most one of them), and a
+// many-to-many one through a list of ids kept on one of the two sides
+type Relation =
+  | { kind: "one"; table: string; key: string }
+  | { kind: "many" | "back"; table: string; key: string; onDelete?: "cascade" | "setNull" }
+  | { kind: "ids" | "idsOf"; table: string; key: string };
+
+const one = (table: string, key: string): Relation => ({ kind: "one", table, key });
+const many = (table: string, key: string, onDelete?: "cascade" | "setNull"): Relation => ({
+  kind: "many",
+  table,
+  key,
+  onDelete,
+});
+const back = (table: string, key: string): Relation => ({ kind: "back", table, key });
+const ids = (table: string, key: string): Relation => ({ kind: "ids", table, key });
+const idsOf = (table: string, key: string): Relation => ({ kind: "idsOf", table, key });
+
+const RELATIONS: Record<string, Record<string, Relation>> = {
+  user: {
+    authSessions: many("authSession", "userId", "cascade"),
+    shelves: many("shelfMember", "userId", "cascade"),
+    players: many("player", "userId", "setNull"),
+  },
+  authSession: {
+    user: one("user", "userId"),
+    refreshTokens: many("refreshToken", "sessionId", "cascade"),
+  },
+  refreshToken: { session: one("authSession", "sessionId") },
+  shelfMember: { user: one("user", "userId") },
+  webhook: { deliveries: many("webhookDelivery", "webhookId", "cascade") },
+  webhookDelivery: { webhook: one("webhook", "webhookId") },
+  game: {
+    baseGame: one("game", "baseGameId"),
+    expansions: many("game", "baseGameId", "setNull"),
+    files: many("file", "gameId", "cascade"),
+    sessions: many("session", "gameId"),
+    wishlist: back("wishlist", "gameId"),
+    loans: many("loan", "gameId", "cascade"),
+    tags: ids("tag", "tagIds"),
+    expansionSessions: idsOf("session", "expansionIds"),
+    gameNightCandidates: many("gameNightCandidate", "gameId", "cascade"),
+  },
+  session: {
+    game: one("game", "gameId"),
+    players: many("sessionPlayer", "sessionId", "cascade"),
+    expansions: ids("game", "expansionIds"),
+    gameNight: one("gameNight", "gameNightId"),
+  },
+  sessionPlayer: {
+    session: one("session", "sessionId"),
+    player: one("player", "playerId"),
+  },
+  player: {
+    aliases: many("playerAlias", "playerId", "cascade"),
+    user: one("user", "userId"),
+    sessions: many("sessionPlayer", "playerId", "cascade"),
+    loans: many("loan", "playerId", "setNull"),
+    hostedGameNights: many("gameNight", "hostId", "setNull"),
+    gameNightInvites: many("gameNightInvitee", "playerId", "cascade"),
+    gameNightVotes: many("gameNightVote", "playerId", "cascade"),
+  },
+  playerAlias: { player: one("player", "playerId") },
+  tag: { games: idsOf("game", "tagIds") },
+  file: { game: one("game", "gameId") },
+  wishlist: { game: one("game", "gameId") },
+  loan: { game: one("game", "gameId"), player: one("player", "playerId") },
+  gameNight: {
+    host: one("player", "hostId"),
+    invitees: many("gameNightInvitee", "gameNightId", "cascade"),
+    candidates: many("gameNightCandidate", "gameNightId", "cascade"),
+    sessions: many("session", "gameNightId", "setNull"),
+  },
+  gameNightInvitee: {
+    gameNight: one("gameNight", "gameNightId"),
+    player: one("player", "playerId"),
+  },
+  gameNightCandidate: {
+    gameNight: one("gameNight", "gameNightId"),
+    game: one("game", "gameId"),
+    votes: many("gameNightVote", "candidateId", "cascade"),
+  },
+  gameNightVote: {
+    candidate: one("gameNightCandidate", "candidateId"),
+    player: one("player", "playerId"),
+  },
+  historyEntry: {},
+};
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !(value instanceof Date) &&
+    !Array.isArray(value)
+  );
+}
+
+// Columns missing from a row are null, like nullable columns without a value
+function comparable(value: unknown) {
+  return value instanceof Date ? value.getTime() : (value ?? null);
+}
+
+function matchesField(value: any, condition: any): boolean {
+  if (!isPlainObject(condition)) {
+    return comparable(value) === comparable(condition);
+  }
+  return Object.entries(condition).every(([operator, operand]) => {
+    // Filters that aren't given a value are left out, like in Prisma
+    if (operand === undefined) {
+      return true;
+    }
+    switch (operator) {
+      case "equals":
+        return comparable(value) === comparable(operand);
+      case "not":
+        return !matchesField(value, operand);
+      case "in":
+        return (operand as unknown[]).map(comparable).includes(comparable(value));
+      case "lt":
+        return value != null && comparable(value) < comparable(operand);
+      case "lte":
+        return value != null && comparable(value) <= comparable(operand);
+      case "gt":
+        return value != null && comparable(value) > comparable(operand);
+      case "gte":
+        return value != null && comparable(value) >= comparable(operand);
+      case "isEmpty":
+        return (value.length === 0) === operand;
+      case "has":
+        return value.includes(operand);
+      default:
+        throw new Error(`Fake Prisma can't filter with ${operator}`);
+    }
+  });
+}
+
+export function createFakePrisma() {
+  const tables: Tables = Object.fromEntries(
+    Object.keys(DEFAULTS).map((name) => [name, [] as Row[]])
+  );
+
+  // The rows a relation field of a row points to
+  function related(name: string, row: Row, field: string): Row[] {
+    const relation = RELATIONS[name][field];
+    const rows = tables[relation.table];
+    switch (relation.kind) {
+      case "one":
+        return rows.filter((other) => other.id === row[relation.key]);
+      case "many":
+      case "back":
+        return rows.filter((other) => other[relation.key] === row.id);
+      case "ids":
+        return rows.filter((other) => (row[relation.key] ?? []).includes(other.id));
+      case "idsOf":
+        return rows.filter((other) => (other[relation.key] ?? []).includes(row.id));
+    }
+  }
+
+  function matchesRelation(name: string, row: Row, field: string, condition: Where) {
+    const relation = RELATIONS[name][field];
+    const rows = related(name, row, field);
+    const matching = (where: Where) =>
+      rows.filter((other) => matches(relation.table, other, where));
+
+    if (relation.kind === "one" || relation.kind === "back") {
+      if (condition === null) {
+        return rows.length === 0;
+      }
+      if ("is" in condition || "isNot" in condition) {
+        const { is, isNot } = condition;
+        return (
+          (is === undefined ||
+            (is === null ? rows.length === 0 : matching(is).length > 0)) &&
+          (isNot === undefined ||
+            (isNot === null ? rows.length > 0 : matching(isNot).length === 0))
+        );
+      }
+      return matching(condition).length > 0;
+    }
+    return Object.entries(condition).every(([operator, where]) => {
+      switch (operator) {
+        case "some":
+          return matching(where).length > 0;
+        case "every":
+          return matching(where).length === rows.length;
+        case "none":
+          return matching(where).length === 0;
+        default:
+          throw new Error(`Fake Prisma can't filter relations with ${operator}`);
+      }
+    });
+  }
+
+  function matches(name: string, row: Row, where: Where = {}): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+      if (condition === undefined) {
+        return true;
+      }
+      if (key === "OR") {
+        return (condition as Where[]).some((part) => matches(name, row, part));
+      }
+      if (key === "AND") {
+        return [condition as Where | Where[]]
+          .flat()
+          .every((part) => matches(name, row, part));
+      }
+      if (key === "NOT") {
+        return !matches(name, row, condition);
+      }
+      if (RELATIONS[name][key]) {
+        return matchesRelation(name, row, key, condition);
+      }
+      // Compound unique keys such as shelfId_userId
+      if (!(key in row) && key.includes("_") && isPlainObject(condition)) {
+        return matches(name, row, condition);
+      }
+      return matchesField(row[key], condition);
+    });
+  }
+
+  function sortRows(rows: Row[], orderBy: Row | Row[] = []) {
+    const orders = [orderBy].flat();
+    return [...rows].sort((a, b) => {
+      for (const order of orders) {
+        const [field, direction] = Object.entries(order)[0];
+        const sort = isPlainObject(direction) ? direction.sort : direction;
+        const [x, y] = [comparable(a[field]), comparable(b[field])];
+        if (x !== y) {
+          // Nulls come last
+          const diff = x === null ? 1 : y === null ? -1 : x < y ? -1 : 1;
+          return sort === "desc" && x !== null && y !== null ? -diff : diff;
+        }
+      }
+      return 0;
+    });
+  }
+
+  function findAll(name: string, args: Row = {}) {
+    let found = sortRows(
+      tables[name].filter((row) => matches(name, row, args.where)),
+      args.orderBy
+    );
+    if (args.cursor) {
+      found = found.slice(found.findIndex((row) => matches(name, row, args.cursor)));
+    }
+    const skip = args.skip ?? 0;
+    return found.slice(skip, args.take === undefined ? undefined : skip + args.take);
+  }
+
+  // Applies include, select and omit to a copy of the row; lists of ids
+  // that stand in for many-to-many tables are left out
+  function shape(name: string, row: Row, args: Row = {}): Row {
+    const relations = RELATIONS[name];
+    let result: Row = Object.fromEntries(
+      Object.entries(row).filter(
+        ([field]) =>
+          !Object.values(relations).some(
+            (relation) => relation.kind === "ids" && relation.key === field
+          )
+      )
+    );
+    const nested = (field: string, options: Row | boolean) => {
+      const relation = relations[field];
+      const args: Row = options === true ? {} : (options as Row);
+      const rows = findAll(relation.table, {
+        ...args,
+        where: {
+          ...args.where,
+          id: { in: related(name, row, field).map((other) => other.id) },
+        },
+      }).map((other) => shape(relation.table, other, args));
+      return relation.kind === "one" || relation.kind === "back"
+        ? (rows[0] ?? null)
+        : rows;
+    };
+
+    for (const [field, options] of Object.entries(args.include ?? {})) {
+      if (options) {
+        result[field] = nested(field, options as Row | boolean);
+      }
+    }
+    if (args.select) {
+      result = Object.fromEntries(
+        Object.entries(args.select)
+          .filter(([, options]) => options)
+          .map(([field, options]) => [
+            field,
+            relations[field] ? nested(field, options as Row | boolean) : result[field],
+          ])
+      );
+    }
+    for (const field of Object.keys(args.omit ?? {})) {
+      delete result[field];
+    }
+    return result;
+  }
+
+  // Writes the data of a create or update to the row, nested writes of relations included
+  function write(name: string, row: Row, data: Row) {
+    const later: (() => void)[] = [];
+    for (const [field, value] of Object.entries(data)) {
+      const relation = RELATIONS[name][field];
+      if (value === undefined) {
+        continue;
+      }
+      if (!relation) {
+        row[field] = value;
+        continue;
+      }
+      // A set replaces the connected rows, which only lists of ids do here
+      const connected = [value.connect ?? value.set ?? []].flat().map((where: Where) => {
+        const [other] = findAll(relation.table, { where });
+        if (!other) {
+          throw new Error(`No ${relation.table} found to connect`);
+        }
+        return other;
+      });
+      switch (relation.kind) {
+        case "one":
+          if (value.disconnect) {
+            row[relation.key] = null;
+          }
+          connected.forEach((other) => (row[relation.key] = other.id));
+          break;
+        case "many":
+        case "back":
+          // Related rows need the id of this row, which is only set once it is inserted
+          later.push(() => {
+            for (const create of [value.create ?? []].flat()) {
+              insert(relation.table, { ...create, [relation.key]: row.id });
+            }
+            connected.forEach((other) => (other[relation.key] = row.id));
+          });
+          break;
+        case "ids":
+          row[relation.key] = [
+            ...new Set([
+              ...(value.set ? [] : (row[relation.key] ?? [])),
+              ...connected.map((other) => other.id),
+            ]),
+          ];
+          break;
+        case "idsOf":
+          later.push(() =>
+            connected.forEach((other) => {
+              other[relation.key] = [...new Set([...(other[relation.key] ?? []), row.id])];
+            })
+          );
+          break;
+      }
+    }
+    return later;
+  }
+
+  function insert(name: string, data: Row) {
+    const row: Row = { id: crypto.randomUUID(), ...DEFAULTS[name]() };
+    const later = write(name, row, data);
+    tables[name].push(row);
+    later.forEach((run) => run());
+    return row;
+  }
+
+  function update(name: string, row: Row, data: Row) {
+    write(name, row, data).forEach((run) => run());
+  }
+
+  // Deletes rows with what cascades from them, and clears keys that point to them
+  function remove(name: string, rows: Row[]) {
+    for (const row of rows) {
+      const index = tables[name].indexOf(row);
+      if (index === -1) {
+        continue;
+      }
+      tables[name].splice(index, 1);
+      for (const relation of Object.values(RELATIONS[name])) {
+        if (relation.kind !== "many" || !relation.onDelete) {
+          continue;
+        }
+        const dependents = tables[relation.table].filter(
+          (other) => other[relation.key] === row.id
+        );
+        if (relation.onDelete === "cascade") {
+          remove(relation.table, dependents);
+        } else {
+          dependents.forEach((other) => (other[relation.key] = null));
+        }
+      }
+    }
+  }
+
+  function createTable(name: string) {
+    const findOrThrow = (args: Row) => {
+      const [row] = findAll(name, args);
+      if (!row) {
+        throw new Error(`No ${name} found`);
+      }
+      return row;
+    };
+
+    return {
+      async findMany(args?: Row) {
+        return findAll(name, args).map((row) => shape(name, row, args));
+      },
+      async findFirst(args?: Row) {
+        const [row] = findAll(name, args);
+        return row ? shape(name, row, args) : null;
+      },
+      async findUnique(args: Row) {
+        const [row] = findAll(name, args);
+        return row ? shape(name, row, args) : null;
+      },
+      async findFirstOrThrow(args?: Row) {
+        return shape(name, findOrThrow(args ?? {}), args);
+      },
+      async findUniqueOrThrow(args: Row) {
+        return shape(name, findOrThrow(args), args);
+      },
+      async count(args?: Row) {
+        return findAll(name, args).length;
+      },
+      async aggregate(args: Row) {
+        const rows = findAll(name, args);
+        const result: Row = {};
+        for (const [kind, pick] of [
+          ["_max", (a: any, b: any) => (b > a ? b : a)],
+          ["_min", (a: any, b: any) => (b < a ? b : a)],
+        ] as const) {
+          if (args[kind]) {
+            result[kind] = Object.fromEntries(
+              Object.keys(args[kind]).map((field) => [
+                field,
+                rows
+                  .map((row) => row[field] ?? null)
+                  .filter((value) => value !== null)
+                  .reduce((a, b) => (a === null ? b : pick(a, b)), null),
+              ])
+            );
+          }
+        }
+        if (args._count) {
+          result._count = rows.length;
+        }
+        return result;
+      },
+      async create(args: Row) {
+        return shape(name, insert(name, args.data), args);
+      },
+      async createMany(args: { data: Row[] }) {
+        args.data.forEach((data) => insert(name, data));
+        return { count: args.data.length };
+      },
+      async update(args: Row) {
+        const row = findOrThrow(args);
+        update(name, row, args.data);
+        return shape(name, row, args);
+      },
+      async updateMany(args: Row) {
+        const found = findAll(name, args);
+        found.forEach((row) => update(name, row, args.data));
+        return { count: found.length };
+      },
+      async upsert(args: Row) {
+        const [row] = findAll(name, args);
+        if (row) {
+          update(name, row, args.update);
+          return shape(name, row, args);
+        }
+        return shape(name, insert(name, args.create), args);
+      },
+      async delete(args: Row) {
+        const row = findOrThrow(args);
+        remove(name, [row]);
+        return shape(name, row, args);
+      },
+      async deleteMany(args: Row = {}) {
+        const found = findAll(name, args);
+        remove(name, found);
+        return { count: found.length };
+      },
+    };
+  }
+
+  const client = {
+    user: createTable("user"),
+    authSession: createTable("authSession"),
+    refreshToken: createTable("refreshToken"),
+    shelfMember: createTable("shelfMember"),
+    webhook: createTable("webhook"),
+    webhookDelivery: createTable("webhookDelivery"),
+    game: createTable("game"),
+    session: createTable("session"),
+    sessionPlayer: createTable("sessionPlayer"),
+    player: createTable("player"),
+    playerAlias: createTable("playerAlias"),
+    tag: createTable("tag"),
+    file: createTable("file"),
+    wishlist: createTable("wishlist"),
+    loan: createTable("loan"),
+    gameNight: createTable("gameNight"),
+    gameNightInvitee: createTable("gameNightInvitee"),
+    gameNightCandidate: createTable("gameNightCandidate"),
+    gameNightVote: createTable("gameNightVote"),
+    historyEntry: createTable("historyEntry"),
+    // Interactive transactions get the client itself; nothing is rolled back
+    async $transaction(work: unknown) {
+      return typeof work === "function" ? work(client) : Promise.all(work as unknown[]);
+    },
+    async $executeRaw() {
+      return 0;
+    },
+    // Empties every table between tests
+    reset() {
+      for (const rows of Object.values(tables)) {
+        rows.length = 0;
+      }
+    },
+  };
+  return client;
+}
+
+export type FakePrisma = ReturnType<typeof createFakePrisma>;
@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import prismaClient from "../src/db";
+import { ConflictError, NotFoundError } from "../src/error-handling/errors";
+import { Actor } from "../src/services/history";
+import { mergePlayers, normalizePlayerName } from "../src/services/players";
+import { FakePrisma } from "./fakePrisma";
+
+vi.mock("../src/db", async () => {
+  const { createFakePrisma } = await import("./fakePrisma");
+  return { default: createFakePrisma() };
+});
+
+const prisma = prismaClient as unknown as FakePrisma;
+
+const actor: Actor = { shelfId: "shelf-1", userId: "user-1" };
+
+function createPlayer(name: string, data: object = {}) {
+  return prisma.player.create({
+    data: {
+      shelfId: actor.shelfId,
+      name,
+      normalizedName: normalizePlayerName(name),
+      ...data,
+    },
+  });
+}
+
+async function createSession(results: { playerId: string; score: number }[]) {
+  return prisma.session.create({
+    data: {
+      gameId: "game-1",
+      date: new Date("2025-11-02T19:00:00Z"),
+      players: { create: results },
+    },
+  });
+}
+
+function resultsOf(sessionId: string) {
+  return prisma.sessionPlayer.findMany({
+    where: { sessionId },
+    select: { playerId: true, score: true },
+  });
+}
+
+beforeEach(async () => {
+  prisma.reset();
+  await prisma.game.create({
+    data: { id: "game-1", shelfId: actor.shelfId, title: "Azul" },
+  });
+});
+
+describe("mergePlayers", () => {
+  it("moves the results and the name of the source to the target", async () => {
+    const kate = await createPlayer("Kate");
+    const katie = await createPlayer("Katie");
+    await prisma.playerAlias.create({
+      data: {
+        playerId: katie.id,
+        shelfId: actor.shelfId,
+        alias: "KT",
+        normalizedAlias: "kt",
+      },
+    });
+    const alone = await createSession([{ playerId: katie.id, score: 10 }]);
+
+    const merged = await mergePlayers(actor, [katie.id], kate.id);
+
+    expect(merged.aliases.map((alias: { alias: string }) => alias.alias)).toEqual([
+      "KT",
+      "Katie",
+    ]);
+    expect(await resultsOf(alone.id)).toEqual([{ playerId: kate.id, score: 10 }]);
+    expect(await prisma.player.findUnique({ where: { id: katie.id } })).toBeNull();
+  });
+
+  it("keeps the target's own result where both played the same session", async () => {
+    const kate = await createPlayer("Kate");
+    const katie = await createPlayer("Katie");
+    const together = await createSession([
+      { playerId: kate.id, score: 5 },
+      { playerId: katie.id, score: 7 },
+    ]);
+
+    await mergePlayers(actor, [katie.id], kate.id);
+
+    expect(await resultsOf(together.id)).toEqual([{ playerId: kate.id, score: 5 }]);
+  });
+
+  it("hands loans, hosted nights, invites and the user link to the target", async () => {
+    const kate = await createPlayer("Kate");
+    const katie = await createPlayer("Katie", { userId: "user-2" });
+    const loan = await prisma.loan.create({
+      data: { gameId: "game-1", playerId: katie.id, borrowerName: "Katie" },
+    });
+    const night = await prisma.gameNight.create({
+      data: {
+        shelfId: actor.shelfId,
+        date: new Date("2025-11-08T18:00:00Z"),
+        hostId: katie.id,
+        invitees: {
+          create: [
+            { playerId: kate.id, status: "maybe" },
+            { playerId: katie.id, status: "yes" },
+          ],
+        },
+      },
+    });
+
+    const merged = await mergePlayers(actor, [katie.id], kate.id);
+
+    expect(merged.userId).toBe("user-2");
+    expect(await prisma.loan.findUnique({ where: { id: loan.id } })).toMatchObject({
+      playerId: kate.id,
+    });
+    expect(await prisma.gameNight.findUnique({ where: { id: night.id } })).toMatchObject({
+      hostId: kate.id,
+    });
+    // The target's own answer wins over the source's
+    expect(
+      await prisma.gameNightInvitee.findMany({
+        where: { gameNightId: night.id },
+        select: { playerId: true, status: true },
+      })
+    ).toEqual([{ playerId: kate.id, status: "maybe" }]);
+  });
+
+  it("records the removed source and the changed target in the history", async () => {
+    const kate = await createPlayer("Kate");
+    const katie = await createPlayer("Katie");
+
+    await mergePlayers(actor, [katie.id], kate.id);
+
+    const entries = await prisma.historyEntry.findMany({
+      select: { entityId: true, action: true, changes: true },
+    });
+    expect(entries).toEqual([
+      expect.objectContaining({ entityId: katie.id, action: "delete" }),
+      {
+        entityId: kate.id,
+        action: "update",
+        changes: { aliases: { before: [], after: ["Katie"] } },
+      },
+    ]);
+  });
+
+  it("refuses to merge players linked to different users", async () => {
+    const kate = await createPlayer("Kate", { userId: "user-1" });
+    const katie = await createPlayer("Katie", { userId: "user-2" });
+
+    await expect(mergePlayers(actor, [katie.id], kate.id)).rejects.toThrow(
+      new ConflictError(
+        "Kate, Katie are linked to different users; unlink all but one before merging"
+      )
+    );
+    expect(await prisma.player.count()).toBe(2);
+  });
+
+  it("doesn't merge players in the trash or of another shelf", async () => {
+    const kate = await createPlayer("Kate");
+    const trashed = await createPlayer("Katie", { deletedAt: new Date() });
+    const stranger = await createPlayer("Ben", { shelfId: "shelf-2" });
+
+    await expect(mergePlayers(actor, [trashed.id], kate.id)).rejects.toThrow(NotFoundError);
+    await expect(mergePlayers(actor, [stranger.id], kate.id)).rejects.toThrow(NotFoundError);
+    expect(await prisma.player.count()).toBe(3);
+  });
+});
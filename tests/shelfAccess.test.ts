@@ -0,0 +1,161 @@
+import http from "http";
+import { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import prismaClient from "../src/db";
+import app from "../src/app";
+import { FakePrisma } from "./fakePrisma";
+
+vi.mock("../src/db", async () => {
+  const { createFakePrisma } = await import("./fakePrisma");
+  return { default: createFakePrisma() };
+});
+
+const prisma = prismaClient as unknown as FakePrisma;
+
+const SHELF_ID = "shelf-1";
+const OTHER_SHELF_ID = "shelf-2";
+
+let api: http.Server;
+let apiUrl: string;
+
+// A signed-in user with the given role on the shelf
+async function member(userId: string, role: "viewer" | "editor" | "owner") {
+  await prisma.user.create({ data: { id: userId, email: `${userId}@example.com` } });
+  await prisma.authSession.create({ data: { id: `session-${userId}`, userId } });
+  await prisma.shelfMember.create({ data: { shelfId: SHELF_ID, userId, role } });
+  return jwt.sign(
+    { id: userId, email: `${userId}@example.com`, sid: `session-${userId}` },
+    process.env.TOKEN_SECRET,
+    { algorithm: "HS256" }
+  );
+}
+
+function request(
+  token: string,
+  method: string,
+  path: string,
+  options: { body?: object; shelfId?: string | null } = {}
+) {
+  const { body, shelfId = SHELF_ID } = options;
+  return fetch(`${apiUrl}/api${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+      ...(shelfId ? { "X-Shelf-Id": shelfId } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+beforeAll(async () => {
+  api = http.createServer(app);
+  await new Promise<void>((resolve) => api.listen(0, "127.0.0.1", resolve));
+  apiUrl = `http://127.0.0.1:${(api.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => api.close(resolve));
+});
+
+beforeEach(() => {
+  prisma.reset();
+});
+
+describe("shelf roles", () => {
+  it("let viewers read but not write", async () => {
+    const token = await member("viewer-1", "viewer");
+
+    expect((await request(token, "GET", "/players")).status).toBe(200);
+
+    const response = await request(token, "POST", "/players", { body: { name: "Kate" } });
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({
+      code: "FORBIDDEN",
+      message: "This action needs the editor role",
+    });
+    expect(await prisma.player.count()).toBe(0);
+  });
+
+  it("let editors write but not manage the shelf", async () => {
+    const token = await member("editor-1", "editor");
+    await member("viewer-1", "viewer");
+
+    const created = await request(token, "POST", "/players", { body: { name: "Kate" } });
+    expect(created.status).toBe(201);
+
+    const response = await request(token, "PUT", `/shelves/${SHELF_ID}/members/viewer-1`, {
+      body: { role: "editor" },
+    });
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({
+      message: "This action needs the owner role",
+    });
+  });
+
+  it("let owners change the roles of members", async () => {
+    const token = await member("owner-1", "owner");
+    await member("viewer-1", "viewer");
+
+    const response = await request(token, "PUT", `/shelves/${SHELF_ID}/members/viewer-1`, {
+      body: { role: "editor" },
+    });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ userId: "viewer-1", role: "editor" });
+  });
+
+  it("let members leave but only owners remove others", async () => {
+    const token = await member("viewer-1", "viewer");
+    await member("viewer-2", "viewer");
+    await member("owner-1", "owner");
+
+    const removed = await request(token, "DELETE", `/shelves/${SHELF_ID}/members/viewer-2`);
+    expect(removed.status).toBe(403);
+
+    const left = await request(token, "DELETE", `/shelves/${SHELF_ID}/members/viewer-1`);
+    expect(left.status).toBe(204);
+    expect((await request(token, "GET", "/players")).status).toBe(404);
+  });
+});
+
+describe("shelf selection", () => {
+  it("hides shelves the user isn't a member of", async () => {
+    const token = await member("owner-1", "owner");
+
+    const response = await request(token, "GET", "/players", { shelfId: OTHER_SHELF_ID });
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ message: "Shelf not found" });
+  });
+
+  it("takes the shelf of the route over the header", async () => {
+    const token = await member("owner-1", "owner");
+
+    const response = await request(token, "GET", `/shelves/${OTHER_SHELF_ID}/members`);
+    expect(response.status).toBe(404);
+  });
+
+  it("falls back to the first shelf the user owns", async () => {
+    const token = await member("owner-1", "owner");
+    await prisma.shelfMember.create({
+      data: {
+        shelfId: OTHER_SHELF_ID,
+        userId: "owner-1",
+        role: "owner",
+        createdAt: new Date(Date.now() + 1000),
+      },
+    });
+    await prisma.player.create({
+      data: { shelfId: SHELF_ID, name: "Kate", normalizedName: "kate" },
+    });
+    await prisma.player.create({
+      data: { shelfId: OTHER_SHELF_ID, name: "Ben", normalizedName: "ben" },
+    });
+
+    const response = await request(token, "GET", "/players", { shelfId: null });
+    expect(response.status).toBe(200);
+    expect((await response.json()).map((player: { name: string }) => player.name)).toEqual([
+      "Kate",
+    ]);
+  });
+});
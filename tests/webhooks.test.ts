@@ -0,0 +1,303 @@
+import crypto from "crypto";
+import dns from "dns";
+import http from "http";
+import { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import prismaClient from "../src/db";
+import app from "../src/app";
+import { ShelfEvent } from "../src/services/events";
+import {
+  deliverDueWebhooks,
+  queueDeliveries,
+  signPayload,
+} from "../src/services/webhooks";
+import { FakePrisma } from "./fakePrisma";
+
+vi.mock("../src/db", async () => {
+  const { createFakePrisma } = await import("./fakePrisma");
+  return { default: createFakePrisma() };
+});
+
+const prisma = prismaClient as unknown as FakePrisma;
+
+const SECRET = "a-secret-of-16-chars";
+const USER_ID = "user-1";
+const SHELF_ID = "shelf-1";
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// A local webhook receiver that answers with the queued statuses, then 200
+let receiver: http.Server;
+let receiverUrl: string;
+let received: ReceivedRequest[] = [];
+let statuses: number[] = [];
+
+// The app under test, called with a token of a shelf owner
+let api: http.Server;
+let apiUrl: string;
+let token: string;
+
+function listen(server: http.Server) {
+  return new Promise<string>((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve(`http://127.0.0.1:${port}`);
+    });
+  });
+}
+
+function close(server: http.Server) {
+  return new Promise((resolve) => server.close(resolve));
+}
+
+function request(method: string, path: string) {
+  return fetch(`${apiUrl}/api${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, "X-Shelf-Id": SHELF_ID },
+  });
+}
+
+async function createWebhook(url = receiverUrl) {
+  return prisma.webhook.create({
+    data: { shelfId: SHELF_ID, url, secret: SECRET, events: [] },
+  });
+}
+
+function shelfEvent(id: string): ShelfEvent {
+  return {
+    id,
+    type: "game.created",
+    shelfId: SHELF_ID,
+    userId: USER_ID,
+    data: { id: "game-1", title: "Azul" },
+    createdAt: new Date().toISOString(),
+  };
+}
+
+async function deliveries() {
+  return prisma.webhookDelivery.findMany({ orderBy: { createdAt: "asc" } });
+}
+
+beforeAll(async () => {
+  receiver = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end("ok");
+    });
+  });
+  receiverUrl = `${await listen(receiver)}/hooks`;
+
+  api = http.createServer(app);
+  apiUrl = await listen(api);
+  token = jwt.sign(
+    { id: USER_ID, email: "owner@example.com", sid: "session-1" },
+    process.env.TOKEN_SECRET,
+    { algorithm: "HS256" }
+  );
+});
+
+afterAll(async () => {
+  await close(receiver);
+  await close(api);
+});
+
+beforeEach(async () => {
+  prisma.reset();
+  received = [];
+  statuses = [];
+  await prisma.authSession.create({ data: { id: "session-1", userId: USER_ID } });
+  await prisma.shelfMember.create({
+    data: { shelfId: SHELF_ID, userId: USER_ID, role: "owner" },
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe("webhook deliveries", () => {
+  it("signs the body with the webhook's secret", async () => {
+    const webhook = await createWebhook();
+    await queueDeliveries(shelfEvent("event-1"));
+    await deliverDueWebhooks();
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    const timestamp = headers["x-webhook-timestamp"] as string;
+    const expected = crypto
+      .createHmac("sha256", SECRET)
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+
+    expect(headers["x-webhook-signature"]).toBe(`sha256=${expected}`);
+    expect(headers["x-webhook-signature"]).toBe(signPayload(SECRET, timestamp, body));
+    expect(headers["x-webhook-id"]).toBe(webhook.id);
+    expect(headers["x-webhook-event"]).toBe("game.created");
+    expect(JSON.parse(body)).toMatchObject({
+      id: "event-1",
+      type: "game.created",
+      shelfId: SHELF_ID,
+      data: { title: "Azul" },
+    });
+  });
+
+  it("retries a failed delivery with a doubling backoff", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const start = new Date("2025-11-02T19:00:00Z").getTime();
+    vi.setSystemTime(start);
+    statuses = [500, 503];
+
+    await createWebhook();
+    await queueDeliveries(shelfEvent("event-1"));
+    await deliverDueWebhooks();
+
+    let [delivery] = await deliveries();
+    expect(delivery).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      responseStatus: 500,
+      error: "Receiver answered with status 500",
+    });
+    expect(delivery.nextAttemptAt.getTime()).toBe(start + 30 * 1000);
+
+    // Not due yet
+    await deliverDueWebhooks();
+    expect(received).toHaveLength(1);
+
+    vi.setSystemTime(start + 30 * 1000);
+    await deliverDueWebhooks();
+    [delivery] = await deliveries();
+    expect(delivery).toMatchObject({ status: "pending", attempts: 2, responseStatus: 503 });
+    expect(delivery.nextAttemptAt.getTime()).toBe(start + 90 * 1000);
+
+    vi.setSystemTime(start + 90 * 1000);
+    await deliverDueWebhooks();
+    [delivery] = await deliveries();
+    expect(delivery).toMatchObject({
+      status: "succeeded",
+      attempts: 3,
+      responseStatus: 200,
+      error: null,
+      nextAttemptAt: null,
+    });
+
+    // Every attempt is the same delivery
+    const deliveryIds = received.map(({ headers }) => headers["x-webhook-delivery"]);
+    expect(deliveryIds).toEqual([delivery.id, delivery.id, delivery.id]);
+  });
+
+  it("doesn't deliver to a name that resolves to a private address", async () => {
+    vi.stubEnv("WEBHOOK_ALLOW_PRIVATE_URLS", "false");
+    const lookup = vi
+      .spyOn(dns.promises, "lookup")
+      .mockResolvedValue([{ address: "10.0.0.7", family: 4 }] as never);
+
+    await createWebhook("https://hooks.example.com/shelf");
+    await queueDeliveries(shelfEvent("event-1"));
+    await deliverDueWebhooks();
+
+    const [delivery] = await deliveries();
+    expect(lookup).toHaveBeenCalledWith("hooks.example.com", { all: true });
+    expect(delivery).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      error: "Must not point to a local or private address",
+    });
+    expect(received).toHaveLength(0);
+  });
+});
+
+describe("webhook routes", () => {
+  it("sends a test event right away and logs it", async () => {
+    const webhook = await createWebhook();
+
+    const response = await request("POST", `/webhooks/${webhook.id}/test`);
+    expect(response.status).toBe(200);
+    const delivery = await response.json();
+    expect(delivery).toMatchObject({
+      webhookId: webhook.id,
+      eventType: "webhook.test",
+      status: "succeeded",
+      attempts: 1,
+      responseStatus: 200,
+      responseBody: "ok",
+    });
+
+    expect(received).toHaveLength(1);
+    expect(JSON.parse(received[0].body)).toMatchObject({
+      type: "webhook.test",
+      shelfId: SHELF_ID,
+      userId: USER_ID,
+      data: { webhookId: webhook.id },
+    });
+
+    const log = await request("GET", `/webhooks/${webhook.id}/deliveries`);
+    expect(log.status).toBe(200);
+    expect(await log.json()).toEqual([expect.objectContaining({ id: delivery.id })]);
+  });
+
+  it("doesn't retry a failed test event", async () => {
+    const webhook = await createWebhook();
+    statuses = [500];
+
+    const response = await request("POST", `/webhooks/${webhook.id}/test`);
+    expect(await response.json()).toMatchObject({
+      status: "failed",
+      attempts: 1,
+      nextAttemptAt: null,
+      error: "Receiver answered with status 500",
+    });
+
+    await deliverDueWebhooks();
+    expect(received).toHaveLength(1);
+  });
+
+  it("filters the delivery log by status, newest first", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const start = new Date("2025-11-02T19:00:00Z").getTime();
+    vi.setSystemTime(start);
+    const webhook = await createWebhook();
+    statuses = [500];
+    await queueDeliveries(shelfEvent("event-1"));
+    await deliverDueWebhooks();
+
+    vi.setSystemTime(start + 1000);
+    await queueDeliveries(shelfEvent("event-2"));
+    await deliverDueWebhooks();
+
+    vi.setSystemTime(start + 2000);
+    await request("POST", `/webhooks/${webhook.id}/test`);
+
+    const all = await (await request("GET", `/webhooks/${webhook.id}/deliveries`)).json();
+    expect(all.map((delivery: { eventId: string }) => delivery.eventId)).toEqual([
+      expect.stringMatching(/^test-/),
+      "event-2",
+      "event-1",
+    ]);
+
+    const pending = await request("GET", `/webhooks/${webhook.id}/deliveries?status=pending`);
+    expect((await pending.json()).map((delivery: { eventId: string }) => delivery.eventId))
+      .toEqual(["event-1"]);
+
+    const invalid = await request("GET", `/webhooks/${webhook.id}/deliveries?status=lost`);
+    expect(invalid.status).toBe(400);
+  });
+
+  it("hides the log of another shelf's webhook", async () => {
+    const webhook = await prisma.webhook.create({
+      data: { shelfId: "shelf-2", url: receiverUrl, secret: SECRET },
+    });
+
+    const response = await request("GET", `/webhooks/${webhook.id}/deliveries`);
+    expect(response.status).toBe(404);
+  });
+});
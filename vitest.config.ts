@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts"],
+    env: {
+      TOKEN_SECRET: "test-token-secret",
+      // The tests deliver to a receiver on 127.0.0.1
+      WEBHOOK_ALLOW_PRIVATE_URLS: "true",
+    },
+  },
+});